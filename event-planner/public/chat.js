@@ -9,18 +9,22 @@ const chatMessages = document.getElementById("chat-messages");
 const userInput = document.getElementById("user-input");
 const sendButton = document.getElementById("send-button");
 const typingIndicator = document.getElementById("typing-indicator");
+const importButton = document.getElementById("import-button");
+const importFile = document.getElementById("import-file");
+const feedButton = document.getElementById("feed-button");
+const planProgress = document.getElementById("plan-progress");
 
-// Chat state
-let chatHistory = [
-	{
-		role: "assistant",
-		content:
-			"Hi, I am your event planning assistant. How can I help you today? Just describe what you would like to do and I will create a comprehensive event plan for you!",
-	},
-];
+// Chat state - the conversation history is held server-side in the session
+const SESSION_STORAGE_KEY = "eventPlannerSessionId";
+let sessionId = localStorage.getItem(SESSION_STORAGE_KEY);
 let isProcessing = false;
 let currentEventPlan = null;
 
+// Vendor fields, as accepted by /api/events/:id/vendors
+const VENDOR_CATEGORIES = ["venue", "catering", "tickets", "supplies"];
+
+const BOOKING_STATUSES = ["considering", "contacted", "booked", "declined"];
+
 // Auto-resize textarea as user types
 userInput.addEventListener("input", function () {
 	this.style.height = "auto";
@@ -38,6 +42,240 @@ userInput.addEventListener("keydown", function (e) {
 // Send button click handler
 sendButton.addEventListener("click", sendMessage);
 
+// Calendar feed: show the secret subscription URL
+feedButton.addEventListener("click", showCalendarFeed);
+
+// Calendar import: pick an .ics file, then upload it
+importButton.addEventListener("click", () => importFile.click());
+importFile.addEventListener("change", () => {
+	if (importFile.files.length > 0) {
+		importCalendar(importFile.files[0]);
+	}
+	importFile.value = "";
+});
+
+// Resume the previous conversation and any draft left pending before a refresh
+restoreSession().then(restorePendingDraft).then(loadPlanProgress);
+
+// Task checkboxes and vendor booking statuses in the progress panel
+planProgress.addEventListener("change", (e) => {
+	const checkbox = e.target.closest("input[data-task-id]");
+	if (checkbox) {
+		toggleTask(checkbox.dataset.planId, checkbox.dataset.taskId, checkbox.checked);
+		return;
+	}
+
+	const vendorStatus = e.target.closest("select[data-vendor-id]");
+	if (vendorStatus) {
+		updateVendorStatus(vendorStatus.dataset.planId, vendorStatus.dataset.vendorId, vendorStatus.value);
+	}
+});
+
+// Mark completed / Cancel event buttons in the progress panel
+planProgress.addEventListener("click", (e) => {
+	const button = e.target.closest("button[data-status]");
+	if (button) {
+		changePlanStatus(button.dataset.planId, button.dataset.status);
+	}
+});
+
+/**
+ * Replays the stored conversation for the current session
+ */
+async function restoreSession() {
+	if (!sessionId) return;
+
+	try {
+		const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`);
+		// Another user's conversation, e.g. after signing in as someone else: start a new one
+		if (response.status === 404) {
+			sessionId = null;
+			localStorage.removeItem(SESSION_STORAGE_KEY);
+			return;
+		}
+		if (!response.ok) return;
+
+		const { summary, messages } = await response.json();
+		if (summary) {
+			addMessageToChat("assistant", `<em>Earlier in this conversation:</em> ${summary}`, false);
+		}
+		(messages || []).forEach((msg) => addMessageToChat(msg.role, msg.content, false));
+	} catch (error) {
+		console.log("Could not restore chat session:", error);
+	}
+}
+
+/**
+ * Loads the most recent stored draft and shows its approval card
+ */
+async function restorePendingDraft() {
+	try {
+		const response = await fetch("/api/events");
+		if (!response.ok) return;
+
+		const { events } = await response.json();
+		const draft = (events || []).find((event) => event.status === "draft" || event.status === "in_review");
+
+		if (draft) {
+			currentEventPlan = draft;
+			addMessageToChat("assistant", `Welcome back! Your draft "${draft.title}" is still waiting for review.`);
+			showEventApproval(draft);
+		}
+	} catch (error) {
+		console.log("Could not restore pending draft:", error);
+	}
+}
+
+function escapeHtml(text) {
+	const div = document.createElement("div");
+	div.textContent = text ?? "";
+	return div.innerHTML;
+}
+
+/**
+ * Due date and assignee of a timeline task, e.g. "due Nov 6 · Sam"
+ */
+function describeTaskDetails(task, eventDate) {
+	let due = null;
+	if (task.dueDaysBefore === 0) {
+		due = "day of event";
+	} else if (task.dueDaysBefore !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(eventDate)) {
+		const date = new Date(`${eventDate}T00:00:00Z`);
+		date.setUTCDate(date.getUTCDate() - task.dueDaysBefore);
+		due = `due ${date.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" })}`;
+	}
+	return [due, task.assignee].filter(Boolean).join(" · ");
+}
+
+function renderProgressBar(done, total) {
+	const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+	return `
+		<div style="height: 6px; background: rgba(255,255,255,0.08); border-radius: 3px; overflow: hidden; margin: 4px 0;">
+			<div style="width: ${percent}%; height: 100%; background: linear-gradient(135deg, var(--accent), var(--accent-2));"></div>
+		</div>
+		<small>${done}/${total} tasks done</small>
+	`;
+}
+
+/**
+ * Shows task progress and pinned vendors for approved and published plans
+ * in the sidebar, with buttons to complete or cancel them
+ */
+async function loadPlanProgress() {
+	try {
+		const response = await fetch("/api/events");
+		if (!response.ok) return;
+
+		const { events } = await response.json();
+		const plans = (events || []).filter((event) => event.status === "approved" || event.status === "published");
+		if (plans.length === 0) {
+			planProgress.textContent = "No approved plans yet.";
+			return;
+		}
+
+		planProgress.innerHTML = plans.map((plan) => `
+			<details style="margin: 8px 0;">
+				<summary style="cursor: pointer; color: var(--text);">${escapeHtml(plan.title)} <small>(${plan.status})</small></summary>
+				${plan.timeline.length > 0 ? renderProgressBar(plan.timeline.filter((task) => task.done).length, plan.timeline.length) : ""}
+				<ul style="list-style: none; padding: 0; margin: 6px 0 0 0;">
+					${plan.timeline.map((task) => {
+						const details = describeTaskDetails(task, plan.date);
+						return `
+							<li style="margin: 4px 0;">
+								<label style="display: flex; gap: 6px; align-items: flex-start; cursor: pointer;">
+									<input type="checkbox" data-plan-id="${escapeHtml(plan.id)}" data-task-id="${escapeHtml(task.id)}" ${task.done ? "checked" : ""} />
+									<span>${escapeHtml(task.title)}${details ? `<br><small>${escapeHtml(details)}</small>` : ""}</span>
+								</label>
+							</li>
+						`;
+					}).join("")}
+				</ul>
+				${(plan.vendors || []).length > 0 ? `
+					<ul style="list-style: none; padding: 0; margin: 6px 0 0 0;">
+						${plan.vendors.map((vendor) => `
+							<li style="margin: 4px 0; display: flex; gap: 6px; align-items: center; justify-content: space-between;">
+								<a href="${escapeHtml(vendor.url)}" target="_blank" style="color: var(--accent);">${escapeHtml(vendor.name)}</a>
+								<select data-plan-id="${escapeHtml(plan.id)}" data-vendor-id="${escapeHtml(vendor.id)}">
+									${BOOKING_STATUSES.map((status) => `<option value="${status}" ${status === vendor.bookingStatus ? "selected" : ""}>${status}</option>`).join("")}
+								</select>
+							</li>
+						`).join("")}
+					</ul>
+				` : ""}
+				<div style="display: flex; gap: 6px; margin-top: 6px;">
+					${plan.status === "published" ? `<button class="chip" data-plan-id="${escapeHtml(plan.id)}" data-status="completed">🏁 Mark completed</button>` : ""}
+					<button class="chip" data-plan-id="${escapeHtml(plan.id)}" data-status="cancelled">🚫 Cancel event</button>
+				</div>
+			</details>
+		`).join("");
+	} catch (error) {
+		console.log("Could not load plan progress:", error);
+	}
+}
+
+/**
+ * Marks a task done or not done, then refreshes the progress panel
+ */
+async function toggleTask(planId, taskId, done) {
+	try {
+		const response = await fetch(`/api/events/${encodeURIComponent(planId)}/tasks/${encodeURIComponent(taskId)}`, {
+			method: "PATCH",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ done }),
+		});
+		if (!response.ok) {
+			throw new Error((await response.json()).error || "Failed to update task");
+		}
+	} catch (error) {
+		console.error("Error updating task:", error);
+	}
+	await loadPlanProgress();
+}
+
+/**
+ * Changes a pinned vendor's booking status, then refreshes the progress panel
+ */
+async function updateVendorStatus(planId, vendorId, bookingStatus) {
+	try {
+		const response = await fetch(`/api/events/${encodeURIComponent(planId)}/vendors/${encodeURIComponent(vendorId)}`, {
+			method: "PATCH",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ bookingStatus }),
+		});
+		if (!response.ok) {
+			throw new Error((await response.json()).error || "Failed to update vendor");
+		}
+	} catch (error) {
+		console.error("Error updating vendor:", error);
+	}
+	await loadPlanProgress();
+}
+
+/**
+ * Moves a plan to a new status, then refreshes the progress panel
+ */
+async function changePlanStatus(planId, status) {
+	if (status === "cancelled" && !confirm("Cancel this event? The Slack channel will be told, and this can't be undone.")) {
+		return;
+	}
+
+	try {
+		const response = await fetch(`/api/events/${encodeURIComponent(planId)}/status`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ status }),
+		});
+		const result = await response.json();
+		if (!response.ok) {
+			throw new Error(result.error || "Failed to change status");
+		}
+		addMessageToChat("assistant", `"${escapeHtml(result.eventPlan.title)}" is now ${status}.`, false);
+	} catch (error) {
+		addMessageToChat("assistant", `Error: ${error.message}`);
+	}
+	await loadPlanProgress();
+}
+
 /**
  * Sends a message to the chat API and processes the response
  */
@@ -62,9 +300,6 @@ async function sendMessage() {
 	// Show typing indicator
 	typingIndicator.classList.add("visible");
 
-	// Add message to history
-	chatHistory.push({ role: "user", content: message });
-
 	try {
 		// Send request to API
 		const response = await fetch("/api/chat", {
@@ -73,16 +308,28 @@ async function sendMessage() {
 				"Content-Type": "application/json",
 			},
 			body: JSON.stringify({
-				messages: chatHistory,
+				sessionId: sessionId,
+				message: message,
+				stream: true,
 			}),
 		});
 
 		// Handle errors
-		if (!response.ok) {
+		if (response.status === 401) {
+			addMessageToChat("assistant", "Your sign-in has expired. Reload the page to sign in again.");
+			return;
+		}
+		if (!response.ok || !response.body) {
 			throw new Error("Failed to get response");
 		}
 
-		const result = await response.json();
+		const result = await readChatStream(response.body);
+
+		// Remember the session so the conversation survives a refresh
+		if (result.sessionId && result.sessionId !== sessionId) {
+			sessionId = result.sessionId;
+			localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+		}
 
 		// Check if we got an event plan that needs approval
 		if (result.needsApproval && result.eventPlan) {
@@ -90,14 +337,13 @@ async function sendMessage() {
 			
 			// Add assistant response
 			addMessageToChat("assistant", result.response);
-			chatHistory.push({ role: "assistant", content: result.response });
 			
-			// Show event plan approval interface
+			// Show event plan approval interface, replacing any card for an older version
+			document.querySelectorAll(".event-approval").forEach((el) => el.closest(".msg").remove());
 			showEventApproval(result.eventPlan);
 		} else {
 			// Regular response
 			addMessageToChat("assistant", result.response);
-			chatHistory.push({ role: "assistant", content: result.response });
 		}
 	} catch (error) {
 		console.error("Error:", error);
@@ -117,16 +363,167 @@ async function sendMessage() {
 	}
 }
 
+/**
+ * Shows the user's calendar feed URL, which calendar apps can subscribe to
+ */
+async function showCalendarFeed() {
+	try {
+		const response = await fetch("/api/calendar/feed");
+		const data = await response.json();
+		if (!response.ok) {
+			throw new Error(data.error || "Failed to get the calendar feed");
+		}
+
+		const url = escapeHtml(data.url);
+		addMessageToChat(
+			"assistant",
+			`Subscribe to this URL in your calendar app to see your approved plans: <a href="${url}" target="_blank" style="color: var(--accent);">${url}</a><br><small style="color: var(--muted);">Anyone with the link can see these plans, so keep it private.</small>`,
+			false
+		);
+	} catch (error) {
+		console.error("Error getting calendar feed:", error);
+		addMessageToChat("assistant", `Sorry, I couldn't get your calendar feed: ${escapeHtml(error.message)}`, false);
+	}
+}
+
+/**
+ * Uploads a calendar invite. The server creates a draft plan from it and
+ * starts a new session in which the assistant fills in the details.
+ */
+async function importCalendar(file) {
+	if (isProcessing) return;
+
+	isProcessing = true;
+	sendButton.disabled = true;
+	importButton.disabled = true;
+	addMessageToChat("user", `📅 Imported ${file.name}`, false);
+	typingIndicator.classList.add("visible");
+
+	try {
+		const formData = new FormData();
+		formData.append("file", file);
+
+		const response = await fetch("/api/events/import", {
+			method: "POST",
+			body: formData,
+		});
+		const result = await response.json();
+
+		if (!response.ok) {
+			throw new Error(result.error || "Import failed");
+		}
+
+		// The import starts its own conversation
+		sessionId = result.sessionId;
+		localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+
+		for (const warning of result.warnings ?? []) {
+			addMessageToChat("assistant", `⚠️ ${escapeHtml(warning)}`, false);
+		}
+		addMessageToChat("assistant", result.response);
+		if (result.eventPlan) {
+			currentEventPlan = result.eventPlan;
+			document.querySelectorAll(".event-approval").forEach((el) => el.closest(".msg").remove());
+			showEventApproval(result.eventPlan);
+		}
+	} catch (error) {
+		console.error("Error importing calendar:", error);
+		addMessageToChat("assistant", `Sorry, I couldn't import that calendar file: ${error.message}`, false);
+	} finally {
+		typingIndicator.classList.remove("visible");
+		isProcessing = false;
+		sendButton.disabled = false;
+		importButton.disabled = false;
+	}
+}
+
+/**
+ * Describes a tool the assistant is running, for progress feedback
+ */
+function describeToolCall({ name, arguments: args = {} }) {
+	switch (name) {
+		case "search_web":
+			return `🔍 Searching the web for "${args.query}"...`;
+		case "extract_page":
+			return `📄 Reading ${args.url}...`;
+		case "create_event_plan":
+			return "📝 Drafting your event plan...";
+		case "edit_event_plan":
+			return "✏️ Updating your event plan...";
+		default:
+			return "⚙️ Working on it...";
+	}
+}
+
+/**
+ * Reads the SSE reply from /api/chat, rendering tokens as they arrive.
+ * Resolves with the payload of the final "done" event.
+ */
+async function readChatStream(body) {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let streamedText = "";
+	let streamingEl = null;
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true });
+			const events = buffer.split("\n\n");
+			buffer = events.pop();
+
+			for (const rawEvent of events) {
+				const eventName = rawEvent.match(/^event: (.*)$/m)?.[1];
+				const data = rawEvent.match(/^data: (.*)$/m)?.[1];
+				if (!eventName || !data) continue;
+
+				const payload = JSON.parse(data);
+
+				if (!streamingEl && (eventName === "token" || eventName === "tool")) {
+					typingIndicator.classList.remove("visible");
+					streamingEl = document.createElement("div");
+					streamingEl.className = "msg assistant";
+					chatMessages.appendChild(streamingEl);
+				}
+
+				if (eventName === "tool") {
+					streamingEl.textContent = describeToolCall(payload);
+					chatMessages.scrollTop = chatMessages.scrollHeight;
+				} else if (eventName === "token") {
+					streamedText += payload.token;
+
+					// Plans arrive as JSON - show a placeholder rather than raw markup
+					const looksLikePlan = /^\s*(```|\{)/.test(streamedText);
+					streamingEl.textContent = looksLikePlan ? "📝 Drafting your event plan..." : streamedText;
+					chatMessages.scrollTop = chatMessages.scrollHeight;
+				} else if (eventName === "done") {
+					return payload;
+				} else if (eventName === "error") {
+					throw new Error(payload.error);
+				}
+			}
+		}
+	} finally {
+		// The final message is re-rendered from the "done" payload
+		if (streamingEl) streamingEl.remove();
+	}
+
+	throw new Error("Stream ended unexpectedly");
+}
+
 /**
  * Helper function to add message to chat
  */
-function addMessageToChat(role, content) {
+function addMessageToChat(role, content, withSearch = true) {
 	const messageEl = document.createElement("div");
 	messageEl.className = `msg ${role}`;  // Use 'msg' class to match HTML styles
 	messageEl.innerHTML = `<p>${content}</p>`;
 	
 	// Add search buttons for assistant messages that mention finding resources
-	if (role === 'assistant') {
+	if (role === 'assistant' && withSearch) {
 		addSearchButtons(content, messageEl);
 	}
 	
@@ -136,6 +533,95 @@ function addMessageToChat(role, content) {
 	chatMessages.scrollTop = chatMessages.scrollHeight;
 }
 
+/**
+ * Formats an amount in the plan's currency
+ */
+function formatMoney(amount, currency = "USD") {
+	try {
+		return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+	} catch {
+		return `${amount.toLocaleString()} ${currency}`;
+	}
+}
+
+// Budget category each kind of vendor is counted under (matches src/budget.ts)
+const VENDOR_BUDGET_CATEGORIES = { venue: "venue", catering: "catering", tickets: "entertainment", supplies: "supplies" };
+
+/**
+ * Budget lines for pinned vendors with a quote; a booked vendor's quote counts as spent
+ */
+function vendorBudgetItems(vendors) {
+	return vendors
+		.filter(vendor => vendor.quotedPrice !== undefined && vendor.bookingStatus !== 'declined')
+		.map(vendor => ({
+			category: VENDOR_BUDGET_CATEGORIES[vendor.category],
+			description: vendor.name,
+			estimated: vendor.quotedPrice,
+			actual: vendor.bookingStatus === 'booked' ? vendor.quotedPrice : undefined,
+		}));
+}
+
+/**
+ * Renders the budget line items and vendor quotes with totals and an over-budget warning
+ */
+function renderBudgetBreakdown(eventPlan) {
+	const items = [...(eventPlan.budgetItems || []), ...vendorBudgetItems(eventPlan.vendors || [])];
+	if (items.length === 0) {
+		return '';
+	}
+
+	const currency = eventPlan.currency || "USD";
+	const estimated = items.reduce((sum, item) => sum + item.estimated, 0);
+	const spent = items.reduce((sum, item) => sum + (item.actual || 0), 0);
+	const projected = items.reduce((sum, item) => sum + (item.actual ?? item.estimated), 0);
+	const overBy = eventPlan.budget > 0 ? projected - eventPlan.budget : 0;
+
+	return `
+		<div style="margin-top: 12px;">
+			<strong>🧾 Budget Breakdown:</strong>
+			<ul style="margin: 4px 0 0 0; padding-left: 20px;">
+				${items.map(item => `<li>${item.category}: ${escapeHtml(item.description)} — ${formatMoney(item.estimated, currency)}${item.actual !== undefined ? ` (spent ${formatMoney(item.actual, currency)})` : ''}</li>`).join('')}
+			</ul>
+			<div style="margin-top: 4px;">Estimated: ${formatMoney(estimated, currency)}${spent > 0 ? ` · Spent: ${formatMoney(spent, currency)}` : ''}</div>
+			${overBy > 0 ? `<div style="margin-top: 4px; color: #ff6b6b;">⚠️ Over budget by ${formatMoney(overBy, currency)}</div>` : ''}
+		</div>
+	`;
+}
+
+/**
+ * Renders the vendors and bookings pinned to a plan
+ */
+function renderVendors(eventPlan) {
+	const vendors = eventPlan.vendors || [];
+	if (vendors.length === 0) {
+		return '';
+	}
+
+	const currency = eventPlan.currency || "USD";
+	return `
+		<div style="margin-top: 12px;">
+			<strong>🤝 Vendors & Bookings:</strong>
+			<ul style="margin: 4px 0 0 0; padding-left: 20px;">
+				${vendors.map(vendor => `<li>${vendor.category}: <a href="${escapeHtml(vendor.url)}" target="_blank" style="color: var(--accent);">${escapeHtml(vendor.name)}</a>${vendor.quotedPrice !== undefined ? ` — ${formatMoney(vendor.quotedPrice, currency)} quoted` : ''} · ${vendor.bookingStatus}${vendor.notes ? ` <small style="color: var(--muted);">(${escapeHtml(vendor.notes)})</small>` : ''}</li>`).join('')}
+			</ul>
+		</div>
+	`;
+}
+
+/**
+ * Guest count, with the RSVP headcount once guests have answered
+ */
+function describeGuests(guests) {
+	const answered = guests.filter(guest => guest.rsvp && guest.rsvp !== 'invited');
+	if (answered.length === 0) {
+		return String(guests.length);
+	}
+	const headcount = guests
+		.filter(guest => guest.rsvp === 'going')
+		.reduce((sum, guest) => sum + 1 + (guest.plusOnes || 0), 0);
+	return `${headcount} going of ${guests.length} invited`;
+}
+
 /**
  * Shows the event approval interface
  */
@@ -156,28 +642,34 @@ function showEventApproval(eventPlan) {
 				<div style="display: grid; grid-template-columns: 1fr 1fr; gap: 12px;">
 					<div><strong>📝 Title:</strong> ${eventPlan.title}</div>
 					<div><strong>📅 Date:</strong> ${eventDate}</div>
-					<div><strong>👥 Guests:</strong> ${eventPlan.guests?.length || 0}</div>
-					<div><strong>💰 Budget:</strong> $${eventPlan.budget?.toLocaleString()}</div>
+					<div><strong>👥 Guests:</strong> ${describeGuests(eventPlan.guests || [])}</div>
+					<div><strong>💰 Budget:</strong> ${formatMoney(eventPlan.budget || 0, eventPlan.currency)}</div>
 				</div>
 				${eventPlan.venue ? `<div style="margin-top: 8px;"><strong>📍 Venue:</strong> ${eventPlan.venue}</div>` : ''}
 				${eventPlan.timeline?.length > 0 ? `
 					<div style="margin-top: 12px;">
 						<strong>📋 Timeline:</strong>
 						<ul style="margin: 4px 0 0 0; padding-left: 20px;">
-							${eventPlan.timeline.map(item => `<li>${item}</li>`).join('')}
+							${eventPlan.timeline.map(task => {
+								const details = describeTaskDetails(task, eventPlan.date);
+								return `<li>${task.done ? '✅ ' : ''}${escapeHtml(task.title)}${details ? ` <small style="color: var(--muted);">(${escapeHtml(details)})</small>` : ''}</li>`;
+							}).join('')}
 						</ul>
 					</div>
 				` : ''}
+				${renderVendors(eventPlan)}
+				${renderBudgetBreakdown(eventPlan)}
 			</div>
 
 			<div style="margin-bottom: 16px;">
-				<label for="slack-channel" style="display: block; margin-bottom: 8px; font-weight: 600;">
-					📱 Slack Channel ID (optional):
+				<label for="slack-channel-search" style="display: block; margin-bottom: 8px; font-weight: 600;">
+					📱 Slack channel (optional):
 				</label>
 				<input 
-					type="text" 
-					id="slack-channel" 
-					placeholder="e.g., C1234567890 or #general"
+					type="search" 
+					id="slack-channel-search" 
+					placeholder="Search channels…"
+					oninput="renderSlackChannelOptions()"
 					style="
 						width: 100%;
 						padding: 10px;
@@ -186,13 +678,33 @@ function showEventApproval(eventPlan) {
 						background: rgba(255,255,255,0.05);
 						color: var(--text);
 						font-size: 14px;
+					margin-bottom: 6px;
 					"
 				/>
-				<small style="color: var(--muted); font-size: 12px;">
-					Leave empty to approve without sending to Slack
+				<select 
+					id="slack-channel" 
+					size="6"
+					style="
+						width: 100%;
+						padding: 10px;
+						border-radius: 8px;
+						border: 1px solid rgba(255,255,255,0.1);
+						background: rgba(255,255,255,0.05);
+						color: var(--text);
+						font-size: 14px;
+					"
+				>
+					<option value="" disabled>Loading channels…</option>
+				</select>
+				<small id="slack-channel-hint" style="color: var(--muted); font-size: 12px;">
+					Choose "Don't post to Slack" to approve without sending it
 				</small>
 			</div>
 
+			<div style="margin-bottom: 16px;">
+				<button class="chip" onclick="researchVenues()">🔎 Research venues${eventPlan.venue ? ` near ${escapeHtml(eventPlan.venue)}` : ''}</button>
+			</div>
+
 			<div style="display: flex; gap: 12px;">
 				<button 
 					onclick="approveEvent(true)"
@@ -231,19 +743,69 @@ function showEventApproval(eventPlan) {
 	messageEl.className = "msg assistant";  // Use correct CSS classes
 	messageEl.innerHTML = approvalHTML;
 	chatMessages.appendChild(messageEl);
+	loadSlackChannels(eventPlan.slackTeamId);
 
 	// Scroll to bottom
 	chatMessages.scrollTop = chatMessages.scrollHeight;
 }
 
+// Channels the user can post the current plan to, for the channel picker
+let slackChannels = [];
+
+/**
+ * Fetches the channels for the approval card's channel picker
+ */
+async function loadSlackChannels(teamId) {
+	const hint = document.getElementById('slack-channel-hint');
+	try {
+		const query = teamId ? `?team=${encodeURIComponent(teamId)}` : '';
+		const response = await fetch(`/api/slack/channels${query}`);
+		const data = await response.json();
+		if (!response.ok) {
+			slackChannels = [];
+			renderSlackChannelOptions();
+			if (hint) hint.textContent = `${data.error || 'Could not load Slack channels'}. You can still approve without sending to Slack.`;
+			return;
+		}
+
+		slackChannels = data.channels;
+		renderSlackChannelOptions();
+	} catch (error) {
+		console.error('Error loading Slack channels:', error);
+		if (hint) hint.textContent = 'Could not load Slack channels. You can still approve without sending to Slack.';
+	}
+}
+
+/**
+ * Lists the channels matching the search box, keeping the selection if it still matches
+ */
+function renderSlackChannelOptions() {
+	const select = document.getElementById('slack-channel');
+	const search = document.getElementById('slack-channel-search');
+	if (!select) return;
+
+	const term = (search ? search.value : '').trim().replace(/^#/, '').toLowerCase();
+	const selected = select.value;
+	const matches = slackChannels.filter(channel => channel.name.toLowerCase().includes(term));
+
+	const options = matches.map(channel => {
+		const label = `${channel.isPrivate ? '🔒' : '#'} ${channel.name}${channel.isMember ? '' : ' (the app will join)'}`;
+		return `<option value="${escapeHtml(channel.id)}"${channel.id === selected ? ' selected' : ''}>${escapeHtml(label)}</option>`;
+	});
+	if (matches.length === 0) {
+		options.push(`<option value="" disabled>${slackChannels.length > 0 ? 'No matching channels' : 'No channels available'}</option>`);
+	}
+	select.innerHTML = `<option value="">Don't post to Slack</option>${options.join('')}`;
+}
+
 /**
  * Handles event approval
  */
 async function approveEvent(approved) {
 	if (!currentEventPlan) return;
 
-	const slackChannelInput = document.getElementById('slack-channel');
-	const slackChannelId = slackChannelInput ? slackChannelInput.value.trim() : '';
+	const slackChannelSelect = document.getElementById('slack-channel');
+	const slackChannelId = slackChannelSelect ? slackChannelSelect.value : '';
 
 	try {
 		const response = await fetch('/api/approve-event', {
@@ -252,7 +814,7 @@ async function approveEvent(approved) {
 				'Content-Type': 'application/json',
 			},
 			body: JSON.stringify({
-				eventPlan: currentEventPlan,
+				eventId: currentEventPlan.id,
 				slackChannelId: slackChannelId,
 				approved: approved
 			})
@@ -267,9 +829,14 @@ async function approveEvent(approved) {
 			
 			// Add success message
 			addMessageToChat("assistant", result.message);
+			if (approved) {
+				const rsvpUrl = `${location.origin}/rsvp.html?event=${encodeURIComponent(currentEventPlan.id)}`;
+				addMessageToChat("assistant", `Share this RSVP link with your guests: <a href="${rsvpUrl}" target="_blank" style="color: var(--accent);">${rsvpUrl}</a>`, false);
+			}
 			
 			// Clear current event plan
 			currentEventPlan = null;
+			loadPlanProgress();
 		} else {
 			addMessageToChat("assistant", `Error: ${result.error || 'Failed to process approval'}`);
 		}
@@ -279,6 +846,178 @@ async function approveEvent(approved) {
 	}
 }
 
+// How often a running venue research job is checked
+const VENUE_RESEARCH_POLL_MS = 3000;
+
+const VENUE_RESEARCH_STEPS = {
+	searching: "Searching for venues",
+	extracting: "Reading venue pages",
+	ranking: "Ranking venues",
+};
+
+/**
+ * Starts a venue research job for the current plan and follows its progress
+ */
+async function researchVenues() {
+	if (!currentEventPlan) return;
+
+	const location = currentEventPlan.venue || prompt("Where should I look for venues?");
+	if (!location) return;
+
+	try {
+		const response = await fetch(`/api/events/${encodeURIComponent(currentEventPlan.id)}/venue-research`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify({ location }),
+		});
+		const data = await response.json();
+
+		if (response.status === 429) {
+			addMessageToChat("assistant", `Venue research is busy right now. Please try again in ${data.retryAfter || response.headers.get('Retry-After')} seconds.`, false);
+			return;
+		}
+		if (!response.ok) {
+			addMessageToChat("assistant", `Error: ${escapeHtml(data.error || 'Failed to start venue research')}`, false);
+			return;
+		}
+
+		const messageEl = document.createElement("div");
+		messageEl.className = "msg assistant";
+		chatMessages.appendChild(messageEl);
+		renderVenueResearch(messageEl, data.research);
+		pollVenueResearch(data.research.id, messageEl);
+	} catch (error) {
+		console.error('Error starting venue research:', error);
+		addMessageToChat("assistant", "Sorry, there was an error starting the venue research.", false);
+	}
+}
+
+/**
+ * Refreshes a venue research message until its job finishes or fails
+ */
+async function pollVenueResearch(jobId, messageEl) {
+	try {
+		const response = await fetch(`/api/venue-research/${encodeURIComponent(jobId)}`);
+		const data = await response.json();
+		if (!response.ok) {
+			messageEl.innerHTML = `<p>Error: ${escapeHtml(data.error || 'Failed to check venue research')}</p>`;
+			return;
+		}
+
+		renderVenueResearch(messageEl, data.research);
+		if (data.research.status !== 'completed' && data.research.status !== 'failed') {
+			setTimeout(() => pollVenueResearch(jobId, messageEl), VENUE_RESEARCH_POLL_MS);
+		}
+	} catch (error) {
+		console.error('Error checking venue research:', error);
+		setTimeout(() => pollVenueResearch(jobId, messageEl), VENUE_RESEARCH_POLL_MS);
+	}
+}
+
+/**
+ * Describes a venue's price range, e.g. "$45.00–$60.00 per person"
+ */
+function describeVenuePrice(option, currency) {
+	if (option.priceMin === undefined) {
+		return 'price unknown';
+	}
+	const range = option.priceMax !== undefined && option.priceMax !== option.priceMin
+		? `${formatMoney(option.priceMin, currency)}–${formatMoney(option.priceMax, currency)}`
+		: formatMoney(option.priceMin, currency);
+	const unit = option.priceUnit === 'per_person' ? ' per person' : option.priceUnit === 'per_hour' ? ' per hour' : '';
+	return `${range}${unit}`;
+}
+
+/**
+ * Shows a venue research job: its progress while running, the ranked
+ * comparison once done, or its error with a retry button
+ */
+function renderVenueResearch(messageEl, research) {
+	const jobId = escapeHtml(research.id);
+	const location = escapeHtml(research.criteria.location);
+
+	if (research.status === 'failed') {
+		messageEl.innerHTML = `
+			<p>Venue research near ${location} stopped: ${escapeHtml(research.error || 'unknown error')}</p>
+			<button class="chip" data-venue-research-resume="${jobId}">🔁 Try again</button>
+		`;
+		messageEl.querySelector('[data-venue-research-resume]').addEventListener('click', () => resumeVenueResearch(research.id, messageEl));
+		return;
+	}
+
+	if (research.status !== 'completed') {
+		const read = research.candidates.filter(candidate => candidate.status !== 'pending').length;
+		const progress = research.status === 'extracting' ? ` (${read} of ${research.candidates.length})` : '';
+		messageEl.innerHTML = `<p>🔎 ${VENUE_RESEARCH_STEPS[research.status]} near ${location}${progress}…</p>`;
+		return;
+	}
+
+	const currency = research.criteria.currency;
+	const rows = research.shortlist.map(option => `
+		<tr>
+			<td>${option.rank}</td>
+			<td><a href="${escapeHtml(option.url)}" target="_blank" style="color: var(--accent);">${escapeHtml(option.title)}</a></td>
+			<td>${option.capacity ?? '?'}</td>
+			<td>${escapeHtml(describeVenuePrice(option, currency))}</td>
+			<td>${escapeHtml(option.contactEmail || option.contactPhone || '—')}</td>
+			<td>${escapeHtml(option.availabilityHints.join('; ') || '—')}</td>
+			<td><small>${escapeHtml(option.reasons.join(', ') || '—')}</small></td>
+		</tr>
+	`).join('');
+
+	messageEl.innerHTML = `
+		<h3 style="margin: 0 0 12px 0; color: var(--accent);">🏛️ Venues near ${location} for ${research.criteria.headcount} guests</h3>
+		<div style="overflow-x: auto;">
+			<table style="width: 100%; border-collapse: collapse; font-size: 0.9em;">
+				<thead>
+					<tr style="text-align: left; color: var(--muted);">
+						<th>#</th><th>Venue</th><th>Capacity</th><th>Price</th><th>Contact</th><th>Availability</th><th>Fit</th>
+					</tr>
+				</thead>
+				<tbody>${rows}</tbody>
+			</table>
+		</div>
+		<button class="chip" style="margin-top: 12px;" data-venue-research-attach="${jobId}">📎 Attach shortlist to plan</button>
+	`;
+	messageEl.querySelector('[data-venue-research-attach]').addEventListener('click', () => attachVenueShortlist(research.id));
+	chatMessages.scrollTop = chatMessages.scrollHeight;
+}
+
+async function resumeVenueResearch(jobId, messageEl) {
+	try {
+		const response = await fetch(`/api/venue-research/${encodeURIComponent(jobId)}/resume`, { method: 'POST' });
+		const data = await response.json();
+		if (!response.ok) {
+			addMessageToChat("assistant", `Error: ${escapeHtml(data.error || 'Failed to resume venue research')}`, false);
+			return;
+		}
+		renderVenueResearch(messageEl, data.research);
+		pollVenueResearch(jobId, messageEl);
+	} catch (error) {
+		console.error('Error resuming venue research:', error);
+		addMessageToChat("assistant", "Sorry, there was an error resuming the venue research.", false);
+	}
+}
+
+async function attachVenueShortlist(jobId) {
+	try {
+		const response = await fetch(`/api/venue-research/${encodeURIComponent(jobId)}/attach`, { method: 'POST' });
+		const data = await response.json();
+		if (!response.ok) {
+			addMessageToChat("assistant", `Error: ${escapeHtml(data.error || 'Failed to attach the shortlist')}`, false);
+			return;
+		}
+
+		if (currentEventPlan && currentEventPlan.id === data.eventPlan.id) {
+			currentEventPlan = data.eventPlan;
+		}
+		addMessageToChat("assistant", `Attached ${data.eventPlan.venueShortlist.length} venues to "${escapeHtml(data.eventPlan.title)}". They'll be shown when the plan is shared to Slack.`, false);
+	} catch (error) {
+		console.error('Error attaching venue shortlist:', error);
+		addMessageToChat("assistant", "Sorry, there was an error attaching the shortlist.", false);
+	}
+}
+
 /**
  * Performs a browser search for event-related resources
  */
@@ -299,6 +1038,11 @@ async function performBrowserSearch(query, resourceType = 'general') {
 		});
 
 		const data = await response.json();
+
+		if (response.status === 429) {
+			addMessageToChat("assistant", `You're searching a lot right now. Please try again in ${data.retryAfter || response.headers.get('Retry-After')} seconds.`, false);
+			return;
+		}
 		
 		if (data.results && data.results.length > 0) {
 			let resultsHTML = `<div style="
@@ -331,6 +1075,9 @@ async function performBrowserSearch(query, resourceType = 'general') {
 						<small style="color: var(--muted); font-size: 0.8em;">
 							${result.url}
 						</small>
+						<div style="margin-top: 8px;">
+							<button class="chip" data-pin-index="${index}">📌 Pin to plan</button>
+						</div>
 					</div>
 				`;
 			});
@@ -340,6 +1087,9 @@ async function performBrowserSearch(query, resourceType = 'general') {
 			const messageEl = document.createElement("div");
 			messageEl.className = "msg assistant";
 			messageEl.innerHTML = resultsHTML;
+			messageEl.querySelectorAll('[data-pin-index]').forEach(button => {
+				button.addEventListener('click', () => showPinForm(button.parentElement, data.results[Number(button.dataset.pinIndex)], resourceType));
+			});
 			chatMessages.appendChild(messageEl);
 		} else {
 			addMessageToChat("assistant", `Sorry, I couldn't find any results for "${query}". Please try a different search term.`);
@@ -354,6 +1104,84 @@ async function performBrowserSearch(query, resourceType = 'general') {
 	}
 }
 
+/**
+ * Shows a form for pinning a search result to a plan as a vendor. The
+ * plan being reviewed is picked by default; otherwise any open plan can be chosen.
+ */
+async function showPinForm(container, result, resourceType) {
+	let plans = [];
+	try {
+		const response = await fetch('/api/events');
+		const data = await response.json();
+		plans = (data.events || []).filter(plan => plan.status !== 'completed' && plan.status !== 'cancelled');
+	} catch (error) {
+		console.error('Error loading plans:', error);
+	}
+
+	if (plans.length === 0) {
+		container.innerHTML = `<small style="color: var(--muted);">Create a plan first to pin vendors to it.</small>`;
+		return;
+	}
+
+	const defaultCategory = VENDOR_CATEGORIES.includes(resourceType) ? resourceType : "venue";
+	const selectedPlanId = currentEventPlan?.id;
+	const fieldStyle = "padding: 6px; border-radius: 6px; border: 1px solid rgba(255,255,255,0.1); background: rgba(255,255,255,0.05); color: var(--text);";
+	container.innerHTML = `
+		<div style="display: flex; flex-wrap: wrap; gap: 8px; align-items: center;">
+			<select name="plan" style="${fieldStyle}">
+				${plans.map(plan => `<option value="${escapeHtml(plan.id)}" ${plan.id === selectedPlanId ? "selected" : ""}>${escapeHtml(plan.title)}</option>`).join('')}
+			</select>
+			<select name="category" style="${fieldStyle}">
+				${VENDOR_CATEGORIES.map(category => `<option value="${category}" ${category === defaultCategory ? "selected" : ""}>${category}</option>`).join('')}
+			</select>
+			<input name="quotedPrice" type="number" min="0" step="any" placeholder="Quoted price" style="${fieldStyle} width: 120px;" />
+			<select name="bookingStatus" style="${fieldStyle}">
+				${BOOKING_STATUSES.map(status => `<option value="${status}">${status}</option>`).join('')}
+			</select>
+			<input name="notes" type="text" placeholder="Notes" style="${fieldStyle} flex: 1; min-width: 120px;" />
+			<button class="chip" data-pin-save>Save</button>
+		</div>
+	`;
+
+	container.querySelector('[data-pin-save]').addEventListener('click', () => {
+		const field = (name) => container.querySelector(`[name="${name}"]`).value.trim();
+		pinVendor(container, field('plan'), {
+			result,
+			category: field('category'),
+			quotedPrice: field('quotedPrice') ? Number(field('quotedPrice')) : undefined,
+			bookingStatus: field('bookingStatus'),
+			notes: field('notes') || undefined,
+		});
+	});
+}
+
+/**
+ * Pins a search result to a plan and confirms it in place of the form
+ */
+async function pinVendor(container, planId, vendor) {
+	try {
+		const response = await fetch(`/api/events/${encodeURIComponent(planId)}/vendors`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body: JSON.stringify(vendor),
+		});
+		const data = await response.json();
+		if (!response.ok) {
+			container.insertAdjacentHTML('beforeend', `<div><small style="color: #ff6b6b;">${escapeHtml(data.error || 'Failed to pin vendor')}</small></div>`);
+			return;
+		}
+
+		if (currentEventPlan && currentEventPlan.id === data.eventPlan.id) {
+			currentEventPlan = data.eventPlan;
+		}
+		container.innerHTML = `<small style="color: var(--muted);">📌 Pinned to "${escapeHtml(data.eventPlan.title)}" as ${escapeHtml(data.vendor.category)}</small>`;
+		loadPlanProgress();
+	} catch (error) {
+		console.error('Error pinning vendor:', error);
+		container.insertAdjacentHTML('beforeend', `<div><small style="color: #ff6b6b;">Sorry, there was an error pinning this result.</small></div>`);
+	}
+}
+
 /**
  * Adds a search button to messages that mention finding resources
  */
@@ -0,0 +1,114 @@
+/**
+ * RSVP page
+ *
+ * Shows an event from the ?event=<id> link and records the visitor's
+ * answer. The guest id returned by the server is kept in localStorage so
+ * answering again updates the same RSVP.
+ */
+
+const eventId = new URLSearchParams(location.search).get("event");
+const guestKey = `rsvpGuest:${eventId}`;
+
+const titleEl = document.getElementById("event-title");
+const detailsEl = document.getElementById("event-details");
+const headcountEl = document.getElementById("event-headcount");
+const form = document.getElementById("rsvp-form");
+const choices = document.getElementById("rsvp-choices");
+const submitButton = document.getElementById("rsvp-submit");
+const statusEl = document.getElementById("rsvp-status");
+
+let selectedStatus = null;
+
+/**
+ * Renders the event details and headcount; all values are set as text
+ */
+function showEvent(event) {
+	document.title = `RSVP • ${event.title}`;
+	titleEl.textContent = event.title;
+
+	const when = [event.date, event.time, event.timeZone && `(${event.timeZone})`].filter(Boolean).join(" ");
+	detailsEl.replaceChildren(
+		...[`📅 ${when}`, event.venue && `📍 ${event.venue}`, event.description]
+			.filter(Boolean)
+			.map((line) => {
+				const div = document.createElement("div");
+				div.textContent = line;
+				return div;
+			}),
+	);
+
+	headcountEl.textContent = `👥 ${event.headcount}`;
+	headcountEl.classList.remove("hidden");
+}
+
+async function loadEvent() {
+	if (!eventId) {
+		titleEl.textContent = "RSVP link is missing the event";
+		return;
+	}
+
+	try {
+		const response = await fetch(`/api/events/${encodeURIComponent(eventId)}/rsvp`);
+		const result = await response.json();
+		if (!response.ok) {
+			throw new Error(result.error || "Event not found");
+		}
+
+		showEvent(result.event);
+		form.classList.remove("hidden");
+	} catch (error) {
+		titleEl.textContent = "Event not found";
+		statusEl.textContent = error.message;
+	}
+}
+
+choices.addEventListener("click", (e) => {
+	const button = e.target.closest("button[data-status]");
+	if (!button) return;
+
+	selectedStatus = button.dataset.status;
+	choices.querySelectorAll("button").forEach((choice) => {
+		choice.classList.toggle("selected", choice === button);
+	});
+});
+
+form.addEventListener("submit", async (e) => {
+	e.preventDefault();
+
+	if (!selectedStatus) {
+		statusEl.textContent = "Please choose Going, Maybe or Can't go.";
+		return;
+	}
+
+	submitButton.disabled = true;
+	statusEl.textContent = "Sending…";
+
+	try {
+		const response = await fetch(`/api/events/${encodeURIComponent(eventId)}/rsvp`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				guestId: localStorage.getItem(guestKey) || undefined,
+				name: document.getElementById("rsvp-name").value.trim(),
+				email: document.getElementById("rsvp-email").value.trim() || undefined,
+				plusOnes: Number(document.getElementById("rsvp-plus-ones").value || 0),
+				dietaryNotes: document.getElementById("rsvp-dietary").value.trim() || undefined,
+				status: selectedStatus,
+			}),
+		});
+		const result = await response.json();
+		if (!response.ok) {
+			throw new Error(result.error || "Failed to send RSVP");
+		}
+
+		localStorage.setItem(guestKey, result.guest.id);
+		showEvent(result.event);
+		statusEl.textContent = "Thanks! Your RSVP was recorded. You can change it here any time.";
+	} catch (error) {
+		statusEl.textContent = `Error: ${error.message}`;
+	} finally {
+		submitButton.disabled = false;
+	}
+});
+
+loadEvent();
@@ -0,0 +1,260 @@
+/**
+ * Authentication
+ *
+ * Identifies the user behind an API request and decides what they may
+ * touch. Users sign in through Cloudflare Access, which puts a signed JWT
+ * on every request; the token is checked against the team's public keys
+ * and the application's audience tag. Plans and conversations belong to
+ * the user who started them, and admins (ADMIN_EMAILS) can manage all.
+ * Users may only post plans to Slack channels they are a member of.
+ * Calendar apps cannot sign in, so the calendar feed is opened with a
+ * secret per-user token instead.
+ */
+import { Env, EventPlan, AuthUser } from './types';
+import { getEventStore } from './event-store';
+import { SlackService, SlackChannel } from './slack';
+import { getSlackToken } from './slack-installations';
+
+// Access rotates its signing keys; refetch them at least this often
+const CERTS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Allowed difference between our clock and Access's when checking expiry
+const CLOCK_SKEW_SECONDS = 60;
+
+interface AccessJwk extends JsonWebKey {
+	kid: string;
+}
+
+interface AccessClaims {
+	aud?: string | string[];
+	email?: string;
+	exp?: number;
+	nbf?: number;
+	iss?: string;
+}
+
+let cachedCerts: { teamDomain: string; keys: AccessJwk[]; fetchedAt: number } | null = null;
+
+/**
+ * "https://myteam.cloudflareaccess.com/" -> "myteam.cloudflareaccess.com"
+ */
+function normalizeTeamDomain(value: string): string {
+	return value.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+}
+
+function decodeBase64Url(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+	return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function decodeJsonPart<T>(value: string): T {
+	return JSON.parse(new TextDecoder().decode(decodeBase64Url(value))) as T;
+}
+
+async function fetchAccessCerts(teamDomain: string, forceRefresh: boolean): Promise<AccessJwk[]> {
+	if (
+		!forceRefresh &&
+		cachedCerts?.teamDomain === teamDomain &&
+		Date.now() - cachedCerts.fetchedAt < CERTS_CACHE_TTL_MS
+	) {
+		return cachedCerts.keys;
+	}
+
+	const response = await fetch(`https://${teamDomain}/cdn-cgi/access/certs`);
+	if (!response.ok) {
+		throw new Error(`Failed to fetch Access certificates: ${response.status}`);
+	}
+
+	const { keys } = (await response.json()) as { keys: AccessJwk[] };
+	cachedCerts = { teamDomain, keys, fetchedAt: Date.now() };
+	return keys;
+}
+
+/**
+ * Verifies an Access JWT and returns its claims, or null if the token is
+ * malformed, badly signed, expired or meant for another application
+ */
+async function verifyAccessToken(token: string, teamDomain: string, audience: string): Promise<AccessClaims | null> {
+	const parts = token.split('.');
+	if (parts.length !== 3) {
+		return null;
+	}
+
+	let header: { alg?: string; kid?: string };
+	let claims: AccessClaims;
+	try {
+		header = decodeJsonPart(parts[0]);
+		claims = decodeJsonPart(parts[1]);
+	} catch {
+		return null;
+	}
+	if (header.alg !== 'RS256' || !header.kid) {
+		return null;
+	}
+
+	// An unknown key id means the keys were rotated since they were cached
+	let jwk = (await fetchAccessCerts(teamDomain, false)).find((key) => key.kid === header.kid);
+	if (!jwk) {
+		jwk = (await fetchAccessCerts(teamDomain, true)).find((key) => key.kid === header.kid);
+	}
+	if (!jwk) {
+		return null;
+	}
+
+	const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+	const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+	if (!(await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, decodeBase64Url(parts[2]), signed))) {
+		return null;
+	}
+
+	const now = Date.now() / 1000;
+	const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+	if (
+		!audiences.includes(audience) ||
+		claims.iss !== `https://${teamDomain}` ||
+		(claims.exp ?? 0) < now - CLOCK_SKEW_SECONDS ||
+		(claims.nbf ?? 0) > now + CLOCK_SKEW_SECONDS
+	) {
+		return null;
+	}
+
+	return claims;
+}
+
+/**
+ * Access sends the token in a header; browsers also carry it as a cookie
+ */
+function accessToken(request: Request): string | null {
+	const header = request.headers.get('Cf-Access-Jwt-Assertion');
+	if (header) {
+		return header;
+	}
+	const cookie = request.headers.get('Cookie')?.match(/(?:^|;\s*)CF_Authorization=([^;]+)/);
+	return cookie ? cookie[1] : null;
+}
+
+export function isAdminEmail(env: Env, email: string): boolean {
+	const admins = (env.ADMIN_EMAILS ?? '').split(',').map((entry) => entry.trim().toLowerCase());
+	return admins.includes(email.toLowerCase());
+}
+
+function toUser(env: Env, email: string): AuthUser {
+	const id = email.trim().toLowerCase();
+	return { id, email: email.trim(), isAdmin: isAdminEmail(env, id) };
+}
+
+/**
+ * Returns the signed-in user, or null when the request carries no valid
+ * identity. Without Access configured, only DEV_USER_EMAIL is accepted.
+ */
+export async function authenticateRequest(request: Request, env: Env): Promise<AuthUser | null> {
+	if (env.ACCESS_TEAM_DOMAIN && env.ACCESS_AUD) {
+		const token = accessToken(request);
+		if (!token) {
+			return null;
+		}
+
+		try {
+			const claims = await verifyAccessToken(token, normalizeTeamDomain(env.ACCESS_TEAM_DOMAIN), env.ACCESS_AUD);
+			// Service tokens have no email and are not users
+			return claims?.email ? toUser(env, claims.email) : null;
+		} catch (error) {
+			console.error('Access token verification failed:', error instanceof Error ? error.message : error);
+			return null;
+		}
+	}
+
+	if (env.DEV_USER_EMAIL) {
+		return toUser(env, env.DEV_USER_EMAIL);
+	}
+
+	console.log('Rejecting API request: neither ACCESS_TEAM_DOMAIN/ACCESS_AUD nor DEV_USER_EMAIL is set');
+	return null;
+}
+
+/**
+ * Returns the user a calendar feed token belongs to, or null if the
+ * token is unknown or was reset
+ */
+export async function authenticateFeedToken(env: Env, token: string): Promise<AuthUser | null> {
+	const userId = await getEventStore(env).findFeedTokenUser(token);
+	return userId ? toUser(env, userId) : null;
+}
+
+export function canAccessPlan(user: AuthUser, plan: EventPlan): boolean {
+	return user.isAdmin || plan.ownerId === user.id;
+}
+
+/**
+ * Checks that a plan exists and belongs to the user. Returns a 404 for
+ * both cases, so plan ids cannot be probed, or null to go ahead.
+ */
+export async function authorizePlan(env: Env, user: AuthUser, planId: string): Promise<Response | null> {
+	const plan = await getEventStore(env).getPlan(planId);
+	if (plan && canAccessPlan(user, plan)) {
+		return null;
+	}
+	return new Response(JSON.stringify({ error: 'Event not found' }), {
+		status: 404,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
+
+/**
+ * Lists the Slack channels the user is a member of, finding their Slack
+ * account by email. Returns the reason when they cannot be listed.
+ */
+export async function listUserSlackChannels(
+	slack: SlackService,
+	user: AuthUser,
+): Promise<{ channels?: SlackChannel[]; error?: string }> {
+	const slackUserId = await slack.lookupUserByEmail(user.email);
+	if (!slackUserId) {
+		return { error: `No Slack account in this workspace uses ${user.email}` };
+	}
+
+	const { channels, error } = await slack.listUserChannels(slackUserId);
+	if (!channels) {
+		return { error: `Could not check your Slack channels: ${error}` };
+	}
+	return { channels };
+}
+
+/**
+ * Checks that a user may post to a Slack channel, given by id or #name:
+ * their email must belong to a member of the channel in the workspace.
+ * Admins may post anywhere. Returns the reason when they may not.
+ */
+export async function authorizeSlackChannel(
+	env: Env,
+	user: AuthUser,
+	channel: string,
+	teamId?: string,
+): Promise<string | null> {
+	if (user.isAdmin) {
+		return null;
+	}
+
+	const token = await getSlackToken(env, teamId);
+	if (!token) {
+		return 'Slack is not connected for this workspace';
+	}
+
+	const { channels, error } = await listUserSlackChannels(new SlackService(token), user);
+	if (!channels) {
+		return error ?? 'Could not check your Slack channels';
+	}
+
+	const name = channel.replace(/^#/, '');
+	if (!channels.some((entry) => entry.id === channel || entry.name === name)) {
+		return `You can only post to Slack channels you are a member of, and you are not in ${channel}`;
+	}
+	return null;
+}
+
+export function unauthorizedResponse(): Response {
+	return new Response(JSON.stringify({ error: 'Sign in required' }), {
+		status: 401,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
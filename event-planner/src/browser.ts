@@ -1,151 +1,72 @@
-import { Env, SearchResult } from './types';
+import { Env, ExtractedPage, SearchResult, BrowserSearchRequest } from './types';
+import { SearchProvider, createSearchProviders, searchWithFallback } from './search-providers';
+import { extractPage } from './page-extraction';
+import { getSearchCache, normalizeQuery } from './search-cache';
+
+type ResourceType = NonNullable<BrowserSearchRequest['resourceType']>;
+
+// Search results change slowly; pages can change more often but are read repeatedly while planning
+const SEARCH_CACHE_TTL_MS = 60 * 60 * 1000;
+const PAGE_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
 
 export class BrowserService {
 	private env: Env;
+	private searchProviders: SearchProvider[];
 
-	constructor(env: Env) {
+	/**
+	 * @param searchProviders Search chain to use instead of the one configured in SEARCH_PROVIDERS
+	 */
+	constructor(env: Env, searchProviders?: SearchProvider[]) {
 		this.env = env;
+		this.searchProviders = searchProviders ?? createSearchProviders(env);
 	}
 
-	async searchWeb(query: string, maxResults: number = 3): Promise<SearchResult[]> {
-		try {
-			console.log('Starting search for:', query);
-			
-			// Use DuckDuckGo HTML search for simpler parsing
-			const searchUrl = `https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`;
-			console.log('Search URL:', searchUrl);
-
-			const response = await fetch(searchUrl, {
-				headers: {
-					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-					'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-					'Accept-Language': 'en-US,en;q=0.5',
-				},
-			});
-
-			if (!response.ok) {
-				console.log('Search request failed:', response.status, response.statusText);
-				return [];
-			}
-
-			const html = await response.text();
-			console.log('HTML response length:', html.length);
-
-			// Parse DuckDuckGo results
-			const results = this.parseDuckDuckGoResults(html, maxResults);
-			console.log(`Found ${results.length} search results`);
-			
-			return results;
-
-		} catch (error) {
-			console.error('Search error:', error);
-			console.error('Error details:', {
-				message: error instanceof Error ? error.message : 'Unknown error',
-				stack: error instanceof Error ? error.stack : 'No stack trace'
-			});
-			return [];
+	/**
+	 * Searches through the provider chain. Results are cached by the
+	 * normalized query and resource type; empty results are not cached so
+	 * the next search tries the providers again.
+	 */
+	async searchWeb(query: string, maxResults: number = 3, resourceType: ResourceType = 'general'): Promise<SearchResult[]> {
+		const cache = getSearchCache(this.env);
+		const key = `search:${resourceType}:${maxResults}:${normalizeQuery(query)}`;
+		const cached = (await cache.get(key)) as SearchResult[] | null;
+		if (cached) {
+			console.log('Search cache hit for:', query);
+			return cached;
 		}
-	}
 
-	private parseDuckDuckGoResults(html: string, maxResults: number): SearchResult[] {
-		const results: SearchResult[] = [];
-		
-		try {
-			// DuckDuckGo HTML patterns
-			const resultPattern = /<div class="result[^"]*">.*?<\/div>/gs;
-			const titlePattern = /<a[^>]*class="result__a"[^>]*href="([^"]*)"[^>]*>([^<]+)<\/a>/;
-			const snippetPattern = /<a[^>]*class="result__snippet"[^>]*>([^<]+)<\/a>/;
-			
-			const resultMatches = html.match(resultPattern) || [];
-			console.log(`Found ${resultMatches.length} result blocks`);
-			
-			for (let i = 0; i < Math.min(resultMatches.length, maxResults); i++) {
-				const resultBlock = resultMatches[i];
-				
-				const titleMatch = resultBlock.match(titlePattern);
-				const snippetMatch = resultBlock.match(snippetPattern);
-				
-				if (titleMatch && titleMatch[1] && titleMatch[2]) {
-					let url = titleMatch[1];
-					const title = titleMatch[2].trim();
-					const description = snippetMatch ? snippetMatch[1].trim() : 'No description available';
-					
-					// Clean up URL (DuckDuckGo sometimes has redirect URLs)
-					if (url.startsWith('//duckduckgo.com/l/?uddg=')) {
-						try {
-							const urlParams = new URLSearchParams(url.split('?')[1]);
-							url = urlParams.get('uddg') || url;
-						} catch (e) {
-							// Keep original URL if parsing fails
-						}
-					}
-					
-					// Skip invalid URLs
-					if (url && !url.includes('duckduckgo.com') && title.length > 0) {
-						results.push({
-							title: title.slice(0, 100),
-							url: url,
-							description: description.slice(0, 200),
-							source: 'duckduckgo_search'
-						});
-					}
-				}
-			}
-
-			return results;
-
-		} catch (error) {
-			console.error('Error parsing search results:', error);
-			return [];
+		console.log('Starting search for:', query);
+		const results = await searchWithFallback(this.searchProviders, query, maxResults);
+		console.log(`Found ${results.length} search results`);
+		if (results.length > 0) {
+			await cache.put(key, results, SEARCH_CACHE_TTL_MS);
 		}
+		return results;
 	}
 
-	async extractPageContent(url: string): Promise<{ title: string; content: string; url: string } | null> {
-		try {
-			console.log('Extracting content from:', url);
-			
-			const response = await fetch(url, {
-				headers: {
-					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-				},
-			});
-
-			if (!response.ok) {
-				console.log('Failed to fetch page:', response.status);
-				return null;
-			}
-
-			const html = await response.text();
-			
-			// Simple title extraction
-			const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-			const title = titleMatch ? titleMatch[1].trim() : 'No title';
-
-			// Simple content extraction - get text between body tags
-			const bodyMatch = html.match(/<body[^>]*>(.*?)<\/body>/is);
-			let content = '';
-			
-			if (bodyMatch) {
-				// Remove HTML tags and clean up
-				content = bodyMatch[1]
-					.replace(/<script[^>]*>.*?<\/script>/gis, '')
-					.replace(/<style[^>]*>.*?<\/style>/gis, '')
-					.replace(/<[^>]+>/g, ' ')
-					.replace(/\s+/g, ' ')
-					.trim()
-					.slice(0, 2000);
-			}
-
-			console.log('Successfully extracted content from:', url);
-			return { title, content, url };
+	/**
+	 * Reads a page's title, main text and booking links, using a headless
+	 * browser for pages that render client-side
+	 */
+	async extractPageContent(url: string): Promise<ExtractedPage | null> {
+		const cache = getSearchCache(this.env);
+		const key = `page:${url}`;
+		const cached = (await cache.get(key)) as ExtractedPage | null;
+		if (cached) {
+			console.log('Page cache hit for:', url);
+			return cached;
+		}
 
-		} catch (error) {
-			console.error('Content extraction failed for', url, ':', error);
-			return null;
+		console.log('Extracting content from:', url);
+		const page = await extractPage(this.env, url);
+		if (page) {
+			console.log(`Extracted ${page.content.length} characters from ${url} (${page.renderedWith})`);
+			await cache.put(key, page, PAGE_CACHE_TTL_MS);
 		}
+		return page;
 	}
 
-	async searchForEventResources(query: string, resourceType: 'venue' | 'tickets' | 'catering' | 'supplies' | 'general'): Promise<SearchResult[]> {
+	async searchForEventResources(query: string, resourceType: ResourceType): Promise<SearchResult[]> {
 		// Enhance the search query based on resource type
 		let enhancedQuery = query;
 		
@@ -165,6 +86,6 @@ export class BrowserService {
 		}
 		
 		console.log(`Searching for ${resourceType} resources with query:`, enhancedQuery);
-		return await this.searchWeb(enhancedQuery, 5);
+		return await this.searchWeb(enhancedQuery, 5, resourceType);
 	}
 }
\ No newline at end of file
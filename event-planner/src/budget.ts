@@ -0,0 +1,212 @@
+/**
+ * Budget
+ *
+ * Line-item budgets for event plans: validation of model and API input,
+ * totals per category, over-budget detection and currency formatting.
+ * `EventPlan.budget` is the spending limit; line items break it down,
+ * and quotes from pinned vendors are counted alongside them.
+ */
+import { EventPlan, BudgetCategory, BudgetItem, Vendor, VendorCategory } from './types';
+import { normalizeBudget } from './plan-extraction';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const BUDGET_CATEGORIES: BudgetCategory[] = [
+	'venue',
+	'catering',
+	'decor',
+	'entertainment',
+	'rentals',
+	'staff',
+	'travel',
+	'supplies',
+	'other',
+];
+
+// Symbols the model and users commonly write instead of a code
+const CURRENCY_SYMBOLS: Record<string, string> = {
+	'$': 'USD',
+	'€': 'EUR',
+	'£': 'GBP',
+	'¥': 'JPY',
+	'₹': 'INR',
+};
+
+/**
+ * Totals for one category
+ */
+export interface CategoryTotal {
+	category: BudgetCategory;
+	estimated: number;
+	actual: number;
+}
+
+export interface BudgetSummary {
+	currency: string;
+	/** Spending limit; 0 when none is set */
+	limit: number;
+	estimatedTotal: number;
+	/** Sum of the actual amounts recorded so far */
+	actualTotal: number;
+	/** Actual amounts where known, estimates otherwise */
+	projectedTotal: number;
+	overBudget: boolean;
+	/** How far the projected total exceeds the limit */
+	overBy: number;
+	categories: CategoryTotal[];
+}
+
+/**
+ * Normalizes a currency such as "usd" or "€" to an ISO 4217 code
+ */
+export function normalizeCurrency(value: unknown): string | null {
+	if (typeof value !== 'string' || !value.trim()) {
+		return null;
+	}
+
+	const trimmed = value.trim();
+	const symbol = Object.prototype.hasOwnProperty.call(CURRENCY_SYMBOLS, trimmed) ? CURRENCY_SYMBOLS[trimmed] : undefined;
+	const code = (symbol ?? trimmed).toUpperCase();
+	if (!/^[A-Z]{3}$/.test(code)) {
+		return null;
+	}
+
+	try {
+		new Intl.NumberFormat('en-US', { style: 'currency', currency: code });
+		return code;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Maps a free-form category to a known one, defaulting to "other"
+ */
+export function normalizeCategory(value: unknown): BudgetCategory {
+	const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+	return BUDGET_CATEGORIES.find((category) => text === category || text.startsWith(category)) ?? 'other';
+}
+
+/**
+ * Validates raw line items, normalizing categories and amounts
+ */
+export function validateBudgetItems(value: unknown): { items?: BudgetItem[]; errors: string[] } {
+	if (value === undefined || value === null) {
+		return { items: [], errors: [] };
+	}
+	if (!Array.isArray(value)) {
+		return { errors: ['"budgetItems" must be an array'] };
+	}
+
+	const errors: string[] = [];
+	const items: BudgetItem[] = [];
+
+	value.forEach((raw, index) => {
+		const label = `budget item ${index + 1}`;
+		const item = raw as Record<string, unknown>;
+		if (!item || typeof item !== 'object') {
+			errors.push(`${label}: must be an object`);
+			return;
+		}
+
+		const estimated = normalizeBudget(item.estimated ?? item.amount);
+		const actual = item.actual === undefined || item.actual === null ? undefined : normalizeBudget(item.actual);
+		if (estimated === null) {
+			errors.push(`${label}: "estimated" must be a non-negative number`);
+		} else if (actual === null) {
+			errors.push(`${label}: "actual" must be a non-negative number`);
+		} else {
+			const category = normalizeCategory(item.category);
+			const description = typeof item.description === 'string' && item.description.trim()
+				? item.description.trim()
+				: category;
+			items.push({ category, description, estimated, ...(actual !== undefined ? { actual } : {}) });
+		}
+	});
+
+	return errors.length > 0 ? { errors } : { items, errors };
+}
+
+// Budget category each kind of vendor is counted under
+const VENDOR_BUDGET_CATEGORIES: Record<VendorCategory, BudgetCategory> = {
+	venue: 'venue',
+	catering: 'catering',
+	tickets: 'entertainment',
+	supplies: 'supplies',
+};
+
+/**
+ * Line items for pinned vendors with a quote. Declined vendors are left
+ * out, and a booked vendor's quote counts as spent.
+ */
+export function vendorBudgetItems(vendors: Vendor[]): BudgetItem[] {
+	return vendors
+		.filter((vendor) => vendor.quotedPrice !== undefined && vendor.bookingStatus !== 'declined')
+		.map((vendor) => ({
+			category: VENDOR_BUDGET_CATEGORIES[vendor.category],
+			description: vendor.name,
+			estimated: vendor.quotedPrice!,
+			...(vendor.bookingStatus === 'booked' ? { actual: vendor.quotedPrice } : {}),
+		}));
+}
+
+export function sumEstimated(items: BudgetItem[]): number {
+	return items.reduce((sum, item) => sum + item.estimated, 0);
+}
+
+/**
+ * Totals a plan's line items and vendor quotes against its budget
+ */
+export function summarizeBudget(plan: EventPlan): BudgetSummary {
+	const items = [...(plan.budgetItems ?? []), ...vendorBudgetItems(plan.vendors ?? [])];
+	const categories = new Map<BudgetCategory, CategoryTotal>();
+
+	for (const item of items) {
+		const total = categories.get(item.category) ?? { category: item.category, estimated: 0, actual: 0 };
+		total.estimated += item.estimated;
+		total.actual += item.actual ?? 0;
+		categories.set(item.category, total);
+	}
+
+	const estimatedTotal = sumEstimated(items);
+	const actualTotal = items.reduce((sum, item) => sum + (item.actual ?? 0), 0);
+	const projectedTotal = items.reduce((sum, item) => sum + (item.actual ?? item.estimated), 0);
+	const limit = plan.budget ?? 0;
+	const overBy = limit > 0 ? Math.max(0, projectedTotal - limit) : 0;
+
+	return {
+		currency: plan.currency ?? DEFAULT_CURRENCY,
+		limit,
+		estimatedTotal,
+		actualTotal,
+		projectedTotal,
+		overBudget: overBy > 0,
+		overBy,
+		categories: [...categories.values()],
+	};
+}
+
+/**
+ * Formats an amount, e.g. formatMoney(1500, "EUR") -> "€1,500"
+ */
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY): string {
+	try {
+		return new Intl.NumberFormat('en-US', {
+			style: 'currency',
+			currency,
+			maximumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+		}).format(amount);
+	} catch {
+		return `${amount.toLocaleString('en-US')} ${currency}`;
+	}
+}
+
+/**
+ * One-line description of a line item, e.g. "Venue – Hall rental: $400 est. / $380 actual"
+ */
+export function describeBudgetItem(item: BudgetItem, currency: string = DEFAULT_CURRENCY): string {
+	const category = item.category.charAt(0).toUpperCase() + item.category.slice(1);
+	const name = item.description && item.description !== item.category ? `${category} – ${item.description}` : category;
+	const actual = item.actual !== undefined ? ` / ${formatMoney(item.actual, currency)} actual` : '';
+	return `${name}: ${formatMoney(item.estimated, currency)} est.${actual}`;
+}
@@ -0,0 +1,496 @@
+/**
+ * Calendar Import and Export
+ *
+ * Renders event plans as RFC 5545 iCalendar data. Timed events are
+ * converted from the plan's local time zone to UTC, so every calendar
+ * client places them correctly without needing VTIMEZONE definitions.
+ * Plans without a time become all-day events.
+ *
+ * Also parses VEVENTs from uploaded invites into draft plan fields.
+ */
+import { EventPlan, Guest, RsvpStatus } from './types';
+import { parseTimeOfDay, zonedTimeToUtc, utcToZonedTime, isValidTimeZone } from './event-time';
+import { normalizeTime } from './plan-extraction';
+import { ReminderOffset } from './reminders';
+import { DEFAULT_CURRENCY, formatMoney, describeBudgetItem } from './budget';
+import { createGuest } from './guests';
+import { describeTaskDue } from './tasks';
+import { isUnderReview } from './plan-status';
+
+const PRODUCT_ID = '-//AI Event Planner//Event Plans//EN';
+
+// Length assumed for timed events, which only store a start time
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// Content lines longer than this many octets are folded (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// IANA names for the Windows time zone names Outlook and Exchange write
+// in TZID, for the zones people are most likely to plan events in
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+	'Dateline Standard Time': 'Etc/GMT+12',
+	'Hawaiian Standard Time': 'Pacific/Honolulu',
+	'Alaskan Standard Time': 'America/Anchorage',
+	'Pacific Standard Time': 'America/Los_Angeles',
+	'US Mountain Standard Time': 'America/Phoenix',
+	'Mountain Standard Time': 'America/Denver',
+	'Central Standard Time': 'America/Chicago',
+	'Central America Standard Time': 'America/Guatemala',
+	'Canada Central Standard Time': 'America/Regina',
+	'Central Standard Time (Mexico)': 'America/Mexico_City',
+	'Eastern Standard Time': 'America/New_York',
+	'US Eastern Standard Time': 'America/Indianapolis',
+	'SA Pacific Standard Time': 'America/Bogota',
+	'Atlantic Standard Time': 'America/Halifax',
+	'Newfoundland Standard Time': 'America/St_Johns',
+	'E. South America Standard Time': 'America/Sao_Paulo',
+	'Argentina Standard Time': 'America/Buenos_Aires',
+	'UTC': 'Etc/UTC',
+	'GMT Standard Time': 'Europe/London',
+	'Greenwich Standard Time': 'Atlantic/Reykjavik',
+	'W. Europe Standard Time': 'Europe/Berlin',
+	'Romance Standard Time': 'Europe/Paris',
+	'Central Europe Standard Time': 'Europe/Budapest',
+	'Central European Standard Time': 'Europe/Warsaw',
+	'GTB Standard Time': 'Europe/Bucharest',
+	'FLE Standard Time': 'Europe/Kiev',
+	'E. Europe Standard Time': 'Europe/Chisinau',
+	'Israel Standard Time': 'Asia/Jerusalem',
+	'South Africa Standard Time': 'Africa/Johannesburg',
+	'Egypt Standard Time': 'Africa/Cairo',
+	'Turkey Standard Time': 'Europe/Istanbul',
+	'Russian Standard Time': 'Europe/Moscow',
+	'Arabian Standard Time': 'Asia/Dubai',
+	'India Standard Time': 'Asia/Calcutta',
+	'SE Asia Standard Time': 'Asia/Bangkok',
+	'China Standard Time': 'Asia/Shanghai',
+	'Singapore Standard Time': 'Asia/Singapore',
+	'Taipei Standard Time': 'Asia/Taipei',
+	'Tokyo Standard Time': 'Asia/Tokyo',
+	'Korea Standard Time': 'Asia/Seoul',
+	'W. Australia Standard Time': 'Australia/Perth',
+	'AUS Central Standard Time': 'Australia/Darwin',
+	'Cen. Australia Standard Time': 'Australia/Adelaide',
+	'E. Australia Standard Time': 'Australia/Brisbane',
+	'AUS Eastern Standard Time': 'Australia/Sydney',
+	'New Zealand Standard Time': 'Pacific/Auckland',
+};
+
+// ATTENDEE participation status for each RSVP answer
+const PARTSTAT: Record<RsvpStatus, string> = {
+	invited: 'NEEDS-ACTION',
+	going: 'ACCEPTED',
+	maybe: 'TENTATIVE',
+	declined: 'DECLINED',
+};
+
+export interface CalendarOptions {
+	/** Calendar name shown by subscribing clients */
+	name?: string;
+	/** Time zone for plans that do not set their own */
+	defaultTimeZone: string;
+	/** A VALARM is added for each offset */
+	reminderOffsets: ReminderOffset[];
+	/**
+	 * Leaves out attendees, the timeline and the budget, for files anyone
+	 * with the plan id can download
+	 */
+	guestView?: boolean;
+	now?: Date;
+}
+
+/**
+ * Escapes a TEXT property value
+ */
+function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line into chunks of at most 75 octets without
+ * splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	const chunks: string[] = [];
+	let current = '';
+	let currentOctets = 0;
+
+	for (const char of line) {
+		const octets = encoder.encode(char).length;
+		// Continuation lines start with a space, which counts toward the limit
+		const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (currentOctets + octets > limit) {
+			chunks.push(current);
+			current = '';
+			currentOctets = 0;
+		}
+		current += char;
+		currentOctets += octets;
+	}
+	chunks.push(current);
+
+	return chunks.join('\r\n ');
+}
+
+/**
+ * Quotes a parameter value; quoted values cannot contain double quotes
+ */
+function quoteParam(value: string): string {
+	return `"${value.replace(/"/g, "'")}"`;
+}
+
+function formatUtc(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: string): string {
+	return date.replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+	const [year, month, day] = date.split('-').map(Number);
+	return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * Converts a reminder offset such as "1d" to a negative iCalendar duration
+ */
+function alarmTrigger(offset: ReminderOffset): string {
+	const [, amount, unit] = offset.label.match(/^(\d+)([mhdw])$/)!;
+	switch (unit) {
+		case 'w':
+			return `-P${amount}W`;
+		case 'd':
+			return `-P${amount}D`;
+		case 'h':
+			return `-PT${amount}H`;
+		default:
+			return `-PT${amount}M`;
+	}
+}
+
+function describePlan(plan: EventPlan, guestView: boolean): string {
+	const sections: string[] = [];
+	if (plan.description) {
+		sections.push(plan.description);
+	}
+	if (guestView) {
+		return sections.join('\n\n');
+	}
+	if (plan.timeline?.length > 0) {
+		const tasks = plan.timeline.map((task, index) => {
+			const due = describeTaskDue(task, plan.date);
+			return `${index + 1}. [${task.done ? 'x' : ' '}] ${task.title}${due ? ` (${due})` : ''}${task.assignee ? ` – ${task.assignee}` : ''}`;
+		});
+		sections.push(`Timeline:\n${tasks.join('\n')}`);
+	}
+	const currency = plan.currency ?? DEFAULT_CURRENCY;
+	if (plan.budget > 0) {
+		sections.push(`Budget: ${formatMoney(plan.budget, currency)}`);
+	}
+	if (plan.budgetItems?.length) {
+		sections.push(`Budget breakdown:\n${plan.budgetItems.map((item) => `- ${describeBudgetItem(item, currency)}`).join('\n')}`);
+	}
+	return sections.join('\n\n');
+}
+
+/**
+ * Builds the VEVENT lines for one plan, or none if its date is invalid
+ */
+function buildEvent(plan: EventPlan, options: CalendarOptions, now: Date): string[] {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(plan.date)) {
+		return [];
+	}
+
+	const lines = [
+		'BEGIN:VEVENT',
+		`UID:${plan.id}@event-planner`,
+		`DTSTAMP:${formatUtc(now)}`,
+		`LAST-MODIFIED:${formatUtc(new Date(plan.updatedAt))}`,
+		`SEQUENCE:${(plan.version ?? 1) - 1}`,
+	];
+
+	const time = parseTimeOfDay(plan.time);
+	const start = time && zonedTimeToUtc(plan.date, time.hours, time.minutes, plan.timeZone || options.defaultTimeZone);
+	if (start) {
+		lines.push(
+			`DTSTART:${formatUtc(start)}`,
+			`DTEND:${formatUtc(new Date(start.getTime() + DEFAULT_DURATION_MS))}`,
+		);
+	} else {
+		lines.push(
+			`DTSTART;VALUE=DATE:${formatDate(plan.date)}`,
+			`DTEND;VALUE=DATE:${formatDate(nextDay(plan.date))}`,
+		);
+	}
+
+	lines.push(`SUMMARY:${escapeText(plan.title)}`);
+	if (plan.venue) {
+		lines.push(`LOCATION:${escapeText(plan.venue)}`);
+	}
+	const description = describePlan(plan, options.guestView ?? false);
+	if (description) {
+		lines.push(`DESCRIPTION:${escapeText(description)}`);
+	}
+	lines.push(`STATUS:${plan.status === 'cancelled' ? 'CANCELLED' : isUnderReview(plan.status) ? 'TENTATIVE' : 'CONFIRMED'}`);
+
+	// Only guests with an address can be attendees; the rest are listed by name only in the plan
+	for (const guest of options.guestView ? [] : plan.guests ?? []) {
+		if (guest.email) {
+			lines.push(`ATTENDEE;CN=${quoteParam(guest.name)};PARTSTAT=${PARTSTAT[guest.rsvp]}:mailto:${guest.email}`);
+		}
+	}
+
+	for (const offset of options.reminderOffsets) {
+		lines.push(
+			'BEGIN:VALARM',
+			'ACTION:DISPLAY',
+			`DESCRIPTION:${escapeText(`Reminder: ${plan.title}`)}`,
+			`TRIGGER:${alarmTrigger(offset)}`,
+			'END:VALARM',
+		);
+	}
+
+	lines.push('END:VEVENT');
+	return lines;
+}
+
+/**
+ * Renders plans as a VCALENDAR document with CRLF line endings
+ */
+export function buildCalendar(plans: EventPlan[], options: CalendarOptions): string {
+	const now = options.now ?? new Date();
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${PRODUCT_ID}`,
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+		...plans.flatMap((plan) => buildEvent(plan, options, now)),
+		'END:VCALENDAR',
+	];
+
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * A content line split into name, parameters and raw value
+ */
+interface ContentLine {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+}
+
+/**
+ * The VEVENT properties used to build a plan
+ */
+export interface CalendarEvent {
+	summary?: string;
+	dtstart?: ContentLine;
+	location?: string;
+	description?: string;
+	attendees: Guest[];
+}
+
+function unescapeText(value: string): string {
+	return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Parses "NAME;PARAM=value;PARAM=\"quoted\":value"
+ */
+function parseContentLine(line: string): ContentLine | null {
+	let inQuotes = false;
+	let separator = -1;
+	for (let i = 0; i < line.length; i++) {
+		if (line[i] === '"') {
+			inQuotes = !inQuotes;
+		} else if (line[i] === ':' && !inQuotes) {
+			separator = i;
+			break;
+		}
+	}
+	if (separator === -1) {
+		return null;
+	}
+
+	const [name, ...rawParams] = line.slice(0, separator).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+	const params: Record<string, string> = {};
+	for (const param of rawParams) {
+		const equals = param.indexOf('=');
+		if (equals > 0) {
+			params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+		}
+	}
+
+	return { name: (name ?? '').toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+function parseAttendee(line: ContentLine): Guest | null {
+	const address = line.value.replace(/^mailto:/i, '').trim().toLowerCase();
+	const email = address.includes('@') ? address : undefined;
+	const name = line.params.CN?.trim() || email;
+	if (!name) {
+		return null;
+	}
+
+	const partstat = line.params.PARTSTAT?.toUpperCase();
+	const rsvp = (Object.keys(PARTSTAT) as RsvpStatus[]).find((status) => PARTSTAT[status] === partstat) ?? 'invited';
+	return createGuest(name, { email, rsvp });
+}
+
+/**
+ * Extracts the VEVENTs of an iCalendar document. Nested components such
+ * as VALARMs are skipped.
+ */
+export function parseCalendarEvents(text: string): CalendarEvent[] {
+	// Folded lines continue after a line break followed by a space or tab
+	const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+	const events: CalendarEvent[] = [];
+	let current: CalendarEvent | null = null;
+	let nestedDepth = 0;
+
+	for (const rawLine of lines) {
+		const line = parseContentLine(rawLine);
+		if (!line) {
+			continue;
+		}
+
+		const component = line.value.trim().toUpperCase();
+		if (line.name === 'BEGIN') {
+			if (component === 'VEVENT' && !current) {
+				current = { attendees: [] };
+			} else if (current) {
+				nestedDepth++;
+			}
+			continue;
+		}
+		if (line.name === 'END') {
+			if (current && nestedDepth > 0) {
+				nestedDepth--;
+			} else if (current && component === 'VEVENT') {
+				events.push(current);
+				current = null;
+			}
+			continue;
+		}
+		if (!current || nestedDepth > 0) {
+			continue;
+		}
+
+		switch (line.name) {
+			case 'SUMMARY':
+				current.summary = unescapeText(line.value).trim();
+				break;
+			case 'DTSTART':
+				current.dtstart = line;
+				break;
+			case 'LOCATION':
+				current.location = unescapeText(line.value).trim();
+				break;
+			case 'DESCRIPTION':
+				current.description = unescapeText(line.value).trim();
+				break;
+			case 'ATTENDEE': {
+				const attendee = parseAttendee(line);
+				if (attendee) {
+					current.attendees.push(attendee);
+				}
+				break;
+			}
+		}
+	}
+
+	return events;
+}
+
+/**
+ * The IANA name for a TZID, which is either an IANA name already or a
+ * Windows time zone name. Returns null for zones it does not know.
+ */
+export function resolveTimeZone(tzid: string): string | null {
+	const name = tzid.trim();
+	if (Object.prototype.hasOwnProperty.call(WINDOWS_TIME_ZONES, name)) {
+		return WINDOWS_TIME_ZONES[name];
+	}
+	return isValidTimeZone(name) ? name : null;
+}
+
+/**
+ * Converts a DTSTART into a plan date, time and time zone. UTC times are
+ * shown in the default time zone; TZID times keep their wall-clock time
+ * and zone. A TZID that cannot be resolved is returned as `unknownTimeZone`,
+ * and the time is left in the default time zone.
+ */
+function parseStart(
+	dtstart: ContentLine,
+	defaultTimeZone: string,
+): { date: string; time?: string; timeZone?: string; unknownTimeZone?: string } | null {
+	const match = dtstart.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+	if (!match) {
+		return null;
+	}
+
+	const [, year, month, day, hours, minutes, , utc] = match;
+	const date = `${year}-${month}-${day}`;
+
+	if (hours === undefined || dtstart.params.VALUE === 'DATE') {
+		return { date };
+	}
+
+	if (utc) {
+		const instant = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)));
+		const local = utcToZonedTime(instant, defaultTimeZone);
+		return {
+			date: local.date,
+			time: normalizeTime(`${local.hours}:${String(local.minutes).padStart(2, '0')}`) ?? undefined,
+			timeZone: defaultTimeZone,
+		};
+	}
+
+	const tzid = dtstart.params.TZID;
+	const timeZone = tzid ? resolveTimeZone(tzid) : null;
+	return {
+		date,
+		time: normalizeTime(`${Number(hours)}:${minutes}`) ?? undefined,
+		timeZone: timeZone ?? undefined,
+		unknownTimeZone: tzid && !timeZone ? tzid : undefined,
+	};
+}
+
+/**
+ * Builds the fields of a draft plan from an imported event, with warnings
+ * about anything that could not be carried over exactly, such as a time
+ * zone that is not recognised. Returns null if the event has no usable
+ * start date.
+ */
+export function calendarEventToPlanFields(
+	event: CalendarEvent,
+	defaultTimeZone: string,
+): (Pick<EventPlan, 'title' | 'date' | 'time' | 'timeZone' | 'venue' | 'description' | 'guests'> & { warnings: string[] }) | null {
+	const parsed = event.dtstart && parseStart(event.dtstart, defaultTimeZone);
+	if (!parsed) {
+		return null;
+	}
+
+	const { unknownTimeZone, ...start } = parsed;
+	const warnings = unknownTimeZone
+		? [`The invite's time zone "${unknownTimeZone}" is not recognised, so the start time ${start.time} is read as ${defaultTimeZone}. Check it and set the right time zone.`]
+		: [];
+
+	return {
+		title: event.summary || 'Imported event',
+		...start,
+		venue: event.location || undefined,
+		description: event.description || undefined,
+		guests: event.attendees,
+		warnings,
+	};
+}
@@ -0,0 +1,177 @@
+/**
+ * Chat Session
+ *
+ * Durable Object holding one planning conversation. The server owns the
+ * history, so clients only send the newest message and can resume by id.
+ * Older turns are folded into a running summary once the history grows
+ * too long for the model context.
+ */
+import { DurableObject } from 'cloudflare:workers';
+import { Env, ChatMessage } from './types';
+
+const MODEL_ID = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+// Compact once either limit is exceeded
+const MAX_HISTORY_MESSAGES = 24;
+const MAX_HISTORY_CHARS = 12000;
+
+// Most recent messages kept after compaction, by count and by size
+const KEEP_RECENT_MESSAGES = 12;
+const KEEP_RECENT_CHARS = MAX_HISTORY_CHARS / 2;
+
+// Longer messages are cut short when kept, e.g. a pasted document
+const MAX_KEPT_MESSAGE_CHARS = 4000;
+
+const SUMMARY_PROMPT = `You summarize event planning conversations. Given an optional earlier summary and a list of messages, write a concise summary (under 150 words) that keeps every concrete detail: event type, dates, times, guest counts, budget, venues, decisions made and open questions. Respond with ONLY the summary.`;
+
+/**
+ * Conversation state returned to callers building model context
+ */
+export interface SessionContext {
+	summary?: string;
+	messages: ChatMessage[];
+	/** Id of the event plan this conversation is working on */
+	activePlanId?: string;
+	/** Web user who started the conversation; Slack threads have none */
+	ownerId?: string;
+}
+
+function truncateMessage(message: ChatMessage): ChatMessage {
+	if (message.content.length <= MAX_KEPT_MESSAGE_CHARS) {
+		return message;
+	}
+	return { ...message, content: `${message.content.slice(0, MAX_KEPT_MESSAGE_CHARS)}… [truncated]` };
+}
+
+/**
+ * Splits the history into the turns to summarize and the recent ones to
+ * keep, which fit both the message and the character budget. The newest
+ * message is always kept, cut short if it is too long on its own.
+ */
+function splitHistory(messages: ChatMessage[]): { older: ChatMessage[]; recent: ChatMessage[] } {
+	const recent: ChatMessage[] = [];
+	let chars = 0;
+	for (let index = messages.length - 1; index >= 0 && recent.length < KEEP_RECENT_MESSAGES; index--) {
+		const message = truncateMessage(messages[index]);
+		if (recent.length > 0 && chars + message.content.length > KEEP_RECENT_CHARS) {
+			break;
+		}
+		recent.unshift(message);
+		chars += message.content.length;
+	}
+	return { older: messages.slice(0, messages.length - recent.length), recent };
+}
+
+export class ChatSession extends DurableObject<Env> {
+	async getContext(): Promise<SessionContext> {
+		const [messages, summary, activePlanId, ownerId] = await Promise.all([
+			this.ctx.storage.get<ChatMessage[]>('messages'),
+			this.ctx.storage.get<string>('summary'),
+			this.ctx.storage.get<string>('activePlanId'),
+			this.ctx.storage.get<string>('ownerId'),
+		]);
+		return { summary, messages: messages ?? [], activePlanId, ownerId };
+	}
+
+	/**
+	 * Makes a user the owner of a new conversation. Returns false when the
+	 * conversation belongs to someone else, or was started without an owner
+	 * (in Slack, or before conversations had owners).
+	 */
+	async claim(ownerId: string): Promise<boolean> {
+		const context = await this.getContext();
+		if (context.ownerId) {
+			return context.ownerId === ownerId;
+		}
+		if (context.messages.length > 0 || context.summary || context.activePlanId) {
+			return false;
+		}
+		await this.ctx.storage.put('ownerId', ownerId);
+		return true;
+	}
+
+	async setActivePlan(planId: string): Promise<void> {
+		await this.ctx.storage.put('activePlanId', planId);
+	}
+
+	/**
+	 * Appends messages to the history. System messages are dropped; the
+	 * system prompt is always supplied by the server.
+	 */
+	async addMessages(newMessages: ChatMessage[]): Promise<SessionContext> {
+		const { summary, messages, activePlanId, ownerId } = await this.getContext();
+		messages.push(...newMessages.filter((msg) => msg.role !== 'system'));
+
+		await this.ctx.storage.put('messages', messages);
+
+		if (this.needsCompaction(messages)) {
+			return { ...(await this.compact(summary, messages)), activePlanId, ownerId };
+		}
+
+		return { summary, messages, activePlanId, ownerId };
+	}
+
+	async clear(): Promise<void> {
+		await this.ctx.storage.deleteAll();
+	}
+
+	private needsCompaction(messages: ChatMessage[]): boolean {
+		const totalChars = messages.reduce((sum, msg) => sum + msg.content.length, 0);
+		return messages.length > MAX_HISTORY_MESSAGES || totalChars > MAX_HISTORY_CHARS;
+	}
+
+	/**
+	 * Folds older turns into the summary and keeps only the recent ones,
+	 * cutting short any that are too long to keep whole
+	 */
+	private async compact(
+		summary: string | undefined,
+		messages: ChatMessage[],
+	): Promise<SessionContext> {
+		const { older, recent } = splitHistory(messages);
+
+		// When only oversized recent messages were over the limit, cutting them short was enough
+		let newSummary = summary;
+		if (older.length > 0) {
+			newSummary = await this.summarize(summary, older);
+		}
+
+		await this.ctx.storage.put('messages', recent);
+		if (newSummary) {
+			await this.ctx.storage.put('summary', newSummary);
+		}
+
+		return { summary: newSummary, messages: recent };
+	}
+
+	/**
+	 * Folds messages into the summary, keeping the old summary if the model fails
+	 */
+	private async summarize(summary: string | undefined, older: ChatMessage[]): Promise<string | undefined> {
+		try {
+			const transcript = older.map(truncateMessage).map((msg) => `${msg.role}: ${msg.content}`).join('\n');
+			const response = (await this.env.AI.run(MODEL_ID, {
+				messages: [
+					{ role: 'system', content: SUMMARY_PROMPT },
+					{
+						role: 'user',
+						content: `${summary ? `Earlier summary:\n${summary}\n\n` : ''}Messages:\n${transcript}`,
+					},
+				],
+				max_tokens: 300,
+			})) as { response: string };
+			return response.response.trim();
+		} catch (error) {
+			// Trimming alone still keeps the context within limits
+			console.error('Failed to summarize chat history:', error);
+			return summary;
+		}
+	}
+}
+
+/**
+ * Returns a stub for the session with the given id
+ */
+export function getChatSession(env: Env, sessionId: string): DurableObjectStub<ChatSession> {
+	return env.CHAT_SESSIONS.get(env.CHAT_SESSIONS.idFromName(sessionId));
+}
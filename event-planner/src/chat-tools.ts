@@ -0,0 +1,235 @@
+/**
+ * Chat Tools
+ *
+ * Function-calling tools available to the chat model: web search, page
+ * extraction, and creating or editing the conversation's event plan.
+ */
+import { Env, EventPlan, BrowserSearchRequest } from './types';
+import { BrowserService } from './browser';
+import { getEventStore } from './event-store';
+import { ChatSession } from './chat-session';
+import { validateEventPlanFields } from './plan-extraction';
+import { editEventPlan, PlanEditError } from './plan-editing';
+import { isAdminEmail } from './auth';
+
+// Page text returned to the model is capped to keep the context small
+const MAX_PAGE_CONTENT_CHARS = 1500;
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+	name?: string;
+	arguments?: object;
+}
+
+/**
+ * Tool result fed back to the model
+ */
+export interface ToolMessage {
+	role: 'tool';
+	name: string;
+	content: string;
+}
+
+/**
+ * State shared by the tools during one chat turn
+ */
+export interface ToolContext {
+	env: Env;
+	session: DurableObjectStub<ChatSession>;
+	/** Owner of the conversation; plans it creates belong to them */
+	ownerId?: string;
+	/** Plan created or updated during this turn, if any */
+	eventPlan?: EventPlan;
+}
+
+/**
+ * Tool definition in the Workers AI function calling format
+ */
+interface ChatToolDefinition {
+	name: string;
+	description: string;
+	parameters: {
+		type: 'object';
+		properties: Record<string, { type: string; description: string }>;
+		required: string[];
+	};
+}
+
+const PLAN_FIELD_PROPERTIES = {
+	title: { type: 'string', description: 'Event title' },
+	date: { type: 'string', description: 'Event date in YYYY-MM-DD format' },
+	time: { type: 'string', description: 'Start time in "HH:MM AM/PM" format, if known' },
+	type: { type: 'string', description: 'Event type (birthday, wedding, corporate, trip, etc.)' },
+	guests: {
+		type: 'array',
+		description: 'Guest names, or objects with name, email and dietaryNotes; an empty array if unknown',
+	},
+	timeline: {
+		type: 'array',
+		description: 'Ordered planning tasks: objects with a title, dueDaysBefore (days before the event, 0 for the day of) and an optional assignee',
+	},
+	budget: { type: 'number', description: 'Total budget (spending limit) as a number' },
+	currency: { type: 'string', description: 'ISO 4217 currency code for all amounts, e.g. "USD" or "EUR"' },
+	budgetItems: {
+		type: 'array',
+		description: 'Budget breakdown: objects with category (venue, catering, decor, entertainment, rentals, staff, travel, supplies, other), description and estimated amount',
+	},
+	venue: { type: 'string', description: 'Venue suggestion or description (or destination for trips)' },
+	description: { type: 'string', description: 'Brief description of the event' },
+};
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+	{
+		name: 'search_web',
+		description: 'Search the web for event resources such as venues, tickets, catering or supplies. Returns titles, URLs and descriptions.',
+		parameters: {
+			type: 'object',
+			properties: {
+				query: { type: 'string', description: 'Concise search query, e.g. "London wedding venue"' },
+				resourceType: { type: 'string', description: 'One of venue, tickets, catering, supplies, general' },
+			},
+			required: ['query'],
+		},
+	},
+	{
+		name: 'extract_page',
+		description: 'Read the title, main text and booking links of a web page, e.g. a search result, to check prices, capacity or availability.',
+		parameters: {
+			type: 'object',
+			properties: {
+				url: { type: 'string', description: 'Absolute URL of the page' },
+			},
+			required: ['url'],
+		},
+	},
+	{
+		name: 'create_event_plan',
+		description: 'Save a new event plan for the user to review once you have enough details.',
+		parameters: {
+			type: 'object',
+			properties: PLAN_FIELD_PROPERTIES,
+			required: ['title', 'date'],
+		},
+	},
+	{
+		name: 'edit_event_plan',
+		description: 'Change the current event plan, e.g. add, remove, reorder, assign or complete timeline tasks, change the budget, currency or budget line items (estimated or actual amounts), or set the venue. Each edit is saved as a new plan version.',
+		parameters: {
+			type: 'object',
+			properties: {
+				planId: { type: 'string', description: 'Id of the plan to edit' },
+				instruction: { type: 'string', description: 'What to change, e.g. "swap tasks 2 and 3"' },
+			},
+			required: ['planId', 'instruction'],
+		},
+	},
+];
+
+const RESOURCE_TYPES: BrowserSearchRequest['resourceType'][] = ['venue', 'tickets', 'catering', 'supplies', 'general'];
+
+async function searchWeb(context: ToolContext, args: Record<string, unknown>): Promise<unknown> {
+	if (typeof args.query !== 'string' || !args.query.trim()) {
+		return { error: 'query is required' };
+	}
+
+	const browserService = new BrowserService(context.env);
+	const resourceType = RESOURCE_TYPES.find((type) => type === args.resourceType) ?? 'general';
+
+	const results = resourceType === 'general'
+		? await browserService.searchWeb(args.query, 5)
+		: await browserService.searchForEventResources(args.query, resourceType);
+
+	return { results };
+}
+
+async function extractPage(context: ToolContext, args: Record<string, unknown>): Promise<unknown> {
+	if (typeof args.url !== 'string' || !/^https?:\/\//.test(args.url)) {
+		return { error: 'url must be an absolute http(s) URL' };
+	}
+
+	const page = await new BrowserService(context.env).extractPageContent(args.url);
+	if (!page) {
+		return { error: 'Could not load the page' };
+	}
+
+	return { ...page, content: page.content.slice(0, MAX_PAGE_CONTENT_CHARS) };
+}
+
+async function createEventPlan(context: ToolContext, args: Record<string, unknown>): Promise<unknown> {
+	const { value, errors } = validateEventPlanFields(args);
+	if (!value) {
+		return { error: 'Invalid event plan', errors };
+	}
+
+	const now = new Date().toISOString();
+	const eventPlan: EventPlan = {
+		id: crypto.randomUUID(),
+		...value,
+		status: 'draft',
+		ownerId: context.ownerId,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	await getEventStore(context.env).savePlan(eventPlan);
+	await context.session.setActivePlan(eventPlan.id);
+	context.eventPlan = eventPlan;
+
+	return { success: true, planId: eventPlan.id };
+}
+
+async function editPlan(context: ToolContext, args: Record<string, unknown>): Promise<unknown> {
+	if (typeof args.planId !== 'string' || typeof args.instruction !== 'string') {
+		return { error: 'planId and instruction are required' };
+	}
+
+	// The model may only edit plans the conversation's owner could edit themselves
+	const plan = await getEventStore(context.env).getPlan(args.planId);
+	const isOwner = plan?.ownerId === context.ownerId || (context.ownerId !== undefined && isAdminEmail(context.env, context.ownerId));
+	if (!plan || !isOwner) {
+		return { error: 'Event plan not found' };
+	}
+
+	try {
+		const { eventPlan, patch, diff } = await editEventPlan(context.env, args.planId, args.instruction);
+		context.eventPlan = eventPlan;
+		return { success: true, version: eventPlan.version, summary: patch.summary, changes: diff };
+	} catch (error) {
+		if (error instanceof PlanEditError) {
+			return { error: error.message };
+		}
+		throw error;
+	}
+}
+
+const TOOL_HANDLERS = new Map<string, (context: ToolContext, args: Record<string, unknown>) => Promise<unknown>>([
+	['search_web', searchWeb],
+	['extract_page', extractPage],
+	['create_event_plan', createEventPlan],
+	['edit_event_plan', editPlan],
+]);
+
+/**
+ * Runs a tool call and returns the message to feed back to the model.
+ * Failures are reported to the model rather than thrown.
+ */
+export async function executeChatTool(context: ToolContext, call: ToolCall): Promise<ToolMessage> {
+	const name = call.name ?? 'unknown';
+	const handler = TOOL_HANDLERS.get(name);
+
+	let result: unknown;
+	if (!handler) {
+		result = { error: `Unknown tool: ${name}` };
+	} else {
+		try {
+			result = await handler(context, (call.arguments ?? {}) as Record<string, unknown>);
+		} catch (error) {
+			console.error(`Tool ${name} failed:`, error);
+			result = { error: error instanceof Error ? error.message : 'Tool failed' };
+		}
+	}
+
+	return { role: 'tool', name, content: JSON.stringify(result) };
+}
@@ -0,0 +1,375 @@
+/**
+ * Event Plan Store
+ *
+ * Durable Object that persists EventPlan records so drafts survive
+ * page refreshes and approval can work from a stored id. Every applied
+ * edit patch is kept as a version snapshot for diffs and rollback, and
+ * every status change is kept in an audit log. Each user's secret
+ * calendar feed token is kept here too.
+ */
+import { DurableObject } from 'cloudflare:workers';
+import { Env, EventPlan, EventStatus, Guest, PlanPatch, PlanVersion, StatusActor, StatusTransition, Vendor } from './types';
+import { applyPlanPatch, diffPlans, validatePatchOperations } from './plan-editing';
+import { normalizeGuests, applyRsvp, RsvpResponse } from './guests';
+import { normalizeTimeline, applyTaskChanges, TaskChanges } from './tasks';
+import { canTransition, describeStatus } from './plan-status';
+import { createVendor, applyVendorChanges, NewVendor, VendorChanges } from './vendors';
+
+const PLAN_PREFIX = 'plan:';
+const VERSION_PREFIX = 'version:';
+const HISTORY_PREFIX = 'history:';
+const FEED_TOKEN_PREFIX = 'feed-token:';
+const FEED_USER_PREFIX = 'feed-user:';
+
+// All plans live in a single store instance
+const STORE_NAME = 'default';
+
+function versionKey(planId: string, version: number): string {
+	// Zero-padded so storage lists versions in order
+	return `${VERSION_PREFIX}${planId}:${String(version).padStart(6, '0')}`;
+}
+
+/**
+ * Upgrades plans stored before guests and timeline entries were records,
+ * when both were lists of strings and done tasks were kept in completedTasks,
+ * and before the status lifecycle, when posted plans were "sent_to_slack"
+ */
+function upgradeStoredPlan(plan: EventPlan): EventPlan {
+	if ((plan.status as string) === 'sent_to_slack') {
+		plan = { ...plan, status: 'published' };
+	}
+
+	const isRecord = (entry: unknown) => typeof entry === 'object';
+	if ((plan.guests ?? []).every(isRecord) && (plan.timeline ?? []).every(isRecord)) {
+		return plan;
+	}
+
+	const { completedTasks, ...rest } = plan as EventPlan & { completedTasks?: string[] };
+	return {
+		...rest,
+		guests: (plan.guests ?? []).every(isRecord) ? plan.guests : (normalizeGuests(plan.guests) ?? []),
+		timeline: (plan.timeline ?? []).every(isRecord) ? plan.timeline : (normalizeTimeline(plan.timeline, completedTasks) ?? []),
+	};
+}
+
+/**
+ * Clears the record of sent reminders and nudges when the event has moved
+ * to another date, time or time zone, so reminders go out for the new start
+ */
+function resetRemindersIfMoved(existing: EventPlan, updated: EventPlan): EventPlan {
+	const moved = existing.date !== updated.date || existing.time !== updated.time || existing.timeZone !== updated.timeZone;
+	if (!moved) {
+		return updated;
+	}
+	const { remindersSent, lastNudgeAt, ...rest } = updated;
+	return rest;
+}
+
+export class EventPlanStore extends DurableObject<Env> {
+	/**
+	 * Lists every stored plan, newest first
+	 */
+	async listPlans(): Promise<EventPlan[]> {
+		const entries = await this.ctx.storage.list<EventPlan>({ prefix: PLAN_PREFIX });
+		return [...entries.values()].map(upgradeStoredPlan).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+	}
+
+	async getPlan(id: string): Promise<EventPlan | null> {
+		const plan = await this.ctx.storage.get<EventPlan>(PLAN_PREFIX + id);
+		return plan ? upgradeStoredPlan(plan) : null;
+	}
+
+	/**
+	 * Stores a plan. New plans are recorded as version 1.
+	 */
+	async savePlan(plan: EventPlan): Promise<EventPlan> {
+		const existing = await this.getPlan(plan.id);
+		const saved: EventPlan = { ...plan, version: existing?.version ?? 1 };
+
+		await this.ctx.storage.put(PLAN_PREFIX + plan.id, saved);
+		if (!existing) {
+			await this.recordVersion(saved);
+		}
+		return saved;
+	}
+
+	/**
+	 * Merges changes into a stored plan. The id and creation time are never overwritten.
+	 */
+	async updatePlan(id: string, changes: Partial<EventPlan>): Promise<EventPlan | null> {
+		const existing = await this.getPlan(id);
+		if (!existing) {
+			return null;
+		}
+
+		const updated = resetRemindersIfMoved(existing, {
+			...existing,
+			...changes,
+			id: existing.id,
+			createdAt: existing.createdAt,
+			updatedAt: new Date().toISOString(),
+		});
+		await this.ctx.storage.put(PLAN_PREFIX + id, updated);
+		return updated;
+	}
+
+	/**
+	 * Records a guest's RSVP. Runs inside the store so concurrent answers
+	 * cannot overwrite each other.
+	 */
+	async recordRsvp(id: string, response: RsvpResponse): Promise<{ plan: EventPlan; guest: Guest } | null> {
+		const existing = await this.getPlan(id);
+		if (!existing) {
+			return null;
+		}
+
+		const { guests, guest } = applyRsvp(existing.guests, response);
+		const plan = (await this.updatePlan(id, { guests }))!;
+		return { plan, guest };
+	}
+
+	/**
+	 * Updates timeline tasks by id without creating a new version, since
+	 * progress is not a change to the plan itself. Unknown ids are ignored.
+	 */
+	async updateTasks(id: string, updates: Record<string, TaskChanges>): Promise<EventPlan | null> {
+		const existing = await this.getPlan(id);
+		if (!existing) {
+			return null;
+		}
+
+		const now = new Date();
+		const timeline = existing.timeline.map((task) => (updates[task.id] ? applyTaskChanges(task, updates[task.id], now) : task));
+		return await this.updatePlan(id, { timeline });
+	}
+
+	/**
+	 * Pins a vendor to a plan. Like task progress, vendors do not create a
+	 * new version.
+	 */
+	async addVendor(id: string, details: NewVendor): Promise<{ plan: EventPlan; vendor: Vendor } | null> {
+		const existing = await this.getPlan(id);
+		if (!existing) {
+			return null;
+		}
+
+		const vendors = existing.vendors ?? [];
+		const vendor = createVendor(details, vendors);
+		const plan = (await this.updatePlan(id, { vendors: [...vendors, vendor] }))!;
+		return { plan, vendor };
+	}
+
+	/**
+	 * Updates a pinned vendor. Returns null if the plan or vendor is unknown.
+	 */
+	async updateVendor(id: string, vendorId: string, changes: VendorChanges): Promise<{ plan: EventPlan; vendor: Vendor } | null> {
+		const existing = await this.getPlan(id);
+		const current = existing?.vendors?.find((vendor) => vendor.id === vendorId);
+		if (!existing || !current) {
+			return null;
+		}
+
+		const vendor = applyVendorChanges(current, changes);
+		const vendors = existing.vendors!.map((entry) => (entry.id === vendorId ? vendor : entry));
+		const plan = (await this.updatePlan(id, { vendors }))!;
+		return { plan, vendor };
+	}
+
+	async removeVendor(id: string, vendorId: string): Promise<EventPlan | null> {
+		const existing = await this.getPlan(id);
+		if (!existing?.vendors?.some((vendor) => vendor.id === vendorId)) {
+			return null;
+		}
+		return await this.updatePlan(id, { vendors: existing.vendors.filter((vendor) => vendor.id !== vendorId) });
+	}
+
+	/**
+	 * Moves a plan to a new status if the lifecycle allows it, merging any
+	 * other changes and appending the transition to the plan's audit log.
+	 * Returns an error instead when the transition is not allowed.
+	 */
+	async transitionStatus(
+		id: string,
+		to: EventStatus,
+		actor: StatusActor,
+		reason?: string,
+		changes: Partial<EventPlan> = {},
+	): Promise<{ plan: EventPlan; transition: StatusTransition } | { error: string } | null> {
+		const existing = await this.getPlan(id);
+		if (!existing) {
+			return null;
+		}
+		if (!canTransition(existing.status, to)) {
+			return { error: `A plan that is ${describeStatus(existing.status).toLowerCase()} cannot be moved to ${describeStatus(to).toLowerCase()}` };
+		}
+
+		const transition: StatusTransition = { from: existing.status, to, actor, reason, at: new Date().toISOString() };
+		const plan = (await this.updatePlan(id, { ...changes, status: to }))!;
+		const history = await this.listTransitions(id);
+		await this.ctx.storage.put(HISTORY_PREFIX + id, [...history, transition]);
+		return { plan, transition };
+	}
+
+	/**
+	 * Status changes of a plan, oldest first
+	 */
+	async listTransitions(id: string): Promise<StatusTransition[]> {
+		return (await this.ctx.storage.get<StatusTransition[]>(HISTORY_PREFIX + id)) ?? [];
+	}
+
+	async deletePlan(id: string): Promise<boolean> {
+		const versions = await this.ctx.storage.list({ prefix: `${VERSION_PREFIX}${id}:` });
+		await this.ctx.storage.delete([...versions.keys(), HISTORY_PREFIX + id]);
+		return await this.ctx.storage.delete(PLAN_PREFIX + id);
+	}
+
+	/**
+	 * Returns the user's calendar feed token, creating one on first use.
+	 * Resetting replaces it, so links with the old token stop working.
+	 */
+	async getFeedToken(userId: string, reset: boolean = false): Promise<string> {
+		const existing = await this.ctx.storage.get<string>(FEED_USER_PREFIX + userId);
+		if (existing && !reset) {
+			return existing;
+		}
+		if (existing) {
+			await this.ctx.storage.delete(FEED_TOKEN_PREFIX + existing);
+		}
+
+		const bytes = crypto.getRandomValues(new Uint8Array(24));
+		const token = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+		await this.ctx.storage.put({ [FEED_USER_PREFIX + userId]: token, [FEED_TOKEN_PREFIX + token]: userId });
+		return token;
+	}
+
+	/**
+	 * The id of the user a calendar feed token belongs to
+	 */
+	async findFeedTokenUser(token: string): Promise<string | null> {
+		return (await this.ctx.storage.get<string>(FEED_TOKEN_PREFIX + token)) ?? null;
+	}
+
+	/**
+	 * Applies edits made directly through the API. Edits that change the
+	 * plan's content are stored as a new version, like patches.
+	 */
+	async editPlan(id: string, changes: Partial<EventPlan>): Promise<EventPlan | null> {
+		const existing = await this.getPlan(id);
+		if (!existing) {
+			return null;
+		}
+
+		const updated = resetRemindersIfMoved(existing, {
+			...existing,
+			...changes,
+			id: existing.id,
+			createdAt: existing.createdAt,
+			updatedAt: new Date().toISOString(),
+		});
+		const diff = diffPlans(existing, updated);
+		if (diff.length === 0) {
+			await this.ctx.storage.put(PLAN_PREFIX + id, updated);
+			return updated;
+		}
+
+		updated.version = (existing.version ?? 1) + 1;
+		await this.ctx.storage.put(PLAN_PREFIX + id, updated);
+		await this.recordVersion(updated, { operations: [], summary: `Edited ${diff.map((entry) => entry.field).join(', ')}` });
+		return updated;
+	}
+
+	/**
+	 * Applies a patch and stores the result as a new version. Operations
+	 * refer to timeline and budget entries by index, so the patch is checked
+	 * again against the stored plan and refused with an error when the plan
+	 * changed since `baseVersion` or the patch no longer fits it.
+	 */
+	async applyPatch(id: string, patch: PlanPatch, baseVersion?: number): Promise<EventPlan | { error: string } | null> {
+		const existing = await this.getPlan(id);
+		if (!existing) {
+			return null;
+		}
+		if (baseVersion !== undefined && (existing.version ?? 1) !== baseVersion) {
+			return { error: 'The plan was changed by someone else in the meantime' };
+		}
+
+		const { operations, errors } = validatePatchOperations(existing, patch.operations);
+		if (!operations) {
+			return { error: `The change no longer fits the plan: ${errors.join('; ')}` };
+		}
+
+		const updated = resetRemindersIfMoved(existing, {
+			...applyPlanPatch(existing, { ...patch, operations }),
+			version: (existing.version ?? 1) + 1,
+			updatedAt: new Date().toISOString(),
+		});
+		await this.ctx.storage.put(PLAN_PREFIX + id, updated);
+		await this.recordVersion(updated, patch);
+		return updated;
+	}
+
+	async listVersions(id: string): Promise<PlanVersion[]> {
+		const entries = await this.ctx.storage.list<PlanVersion>({ prefix: `${VERSION_PREFIX}${id}:` });
+		return [...entries.values()].map((entry) => ({ ...entry, plan: upgradeStoredPlan(entry.plan) }));
+	}
+
+	/**
+	 * Restores the content of an earlier version. The restore is itself
+	 * recorded as a new version, so history is never rewritten.
+	 */
+	async rollback(id: string, version: number): Promise<EventPlan | null> {
+		const [existing, target] = await Promise.all([
+			this.getPlan(id),
+			this.ctx.storage.get<PlanVersion>(versionKey(id, version)),
+		]);
+		if (!existing || !target) {
+			return null;
+		}
+
+		// Progress on tasks that still exist in the restored version is kept
+		const progress = new Map(existing.timeline.map((task) => [task.id, task]));
+		const restoredPlan = upgradeStoredPlan(target.plan);
+		const restored = resetRemindersIfMoved(existing, {
+			...restoredPlan,
+			timeline: restoredPlan.timeline.map((task) => {
+				const current = progress.get(task.id);
+				if (!current) {
+					return task;
+				}
+				const { done, completedAt, completedBy, assignee, assigneeSlackId } = current;
+				return { ...task, done, completedAt, completedBy, assignee, assigneeSlackId };
+			}),
+			// Lifecycle fields and RSVPs stay as they are now
+			guests: existing.guests,
+			// Pinned vendors and the venue shortlist are not versioned, so they are kept too
+			vendors: existing.vendors,
+			venueShortlist: existing.venueShortlist,
+			status: existing.status,
+			slackChannelId: existing.slackChannelId,
+			slackTeamId: existing.slackTeamId,
+			remindersSent: existing.remindersSent,
+			lastNudgeAt: existing.lastNudgeAt,
+			slackMessageTs: existing.slackMessageTs,
+			slackThreadTs: existing.slackThreadTs,
+			createdAt: existing.createdAt,
+			version: (existing.version ?? 1) + 1,
+			updatedAt: new Date().toISOString(),
+		});
+		await this.ctx.storage.put(PLAN_PREFIX + id, restored);
+		await this.recordVersion(restored, { operations: [], summary: `Rolled back to version ${version}` });
+		return restored;
+	}
+
+	private async recordVersion(plan: EventPlan, patch?: PlanPatch): Promise<void> {
+		const version = plan.version ?? 1;
+		const record: PlanVersion = { version, plan, patch, createdAt: plan.updatedAt };
+		await this.ctx.storage.put(versionKey(plan.id, version), record);
+	}
+}
+
+/**
+ * Returns a stub for the shared event plan store
+ */
+export function getEventStore(env: Env): DurableObjectStub<EventPlanStore> {
+	return env.EVENT_STORE.get(env.EVENT_STORE.idFromName(STORE_NAME));
+}
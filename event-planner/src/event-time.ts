@@ -0,0 +1,111 @@
+/**
+ * Event Time
+ *
+ * Turns a plan's date ("YYYY-MM-DD") and free-form time ("HH:MM AM/PM")
+ * into an absolute instant. Plans are written in local wall-clock time,
+ * so the conversion goes through the configured IANA time zone rather
+ * than handing the strings to `new Date`.
+ */
+import { Env, EventPlan } from './types';
+import { normalizeTime } from './plan-extraction';
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Plans without a time are treated as starting at this local hour
+const DEFAULT_START_HOUR = 9;
+
+/**
+ * Returns the time zone a plan is written in: its own, else the configured default
+ */
+export function getEventTimeZone(env: Env, plan?: EventPlan): string {
+	return plan?.timeZone || env.EVENT_TIMEZONE || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Checks that a value is an IANA time zone name the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Parses a time such as "07:30 PM" or "19:30" into 24-hour parts
+ */
+export function parseTimeOfDay(time: string | undefined): { hours: number; minutes: number } | null {
+	const normalized = normalizeTime(time);
+	if (!normalized) {
+		return null;
+	}
+
+	const [, hh, mm, meridiem] = normalized.match(/^(\d{2}):(\d{2}) (AM|PM)$/)!;
+	const hours = (Number(hh) % 12) + (meridiem === 'PM' ? 12 : 0);
+	return { hours, minutes: Number(mm) };
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+function timeZoneOffset(instant: number, timeZone: string): number {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		hourCycle: 'h23',
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+		hour: '2-digit',
+		minute: '2-digit',
+		second: '2-digit',
+	}).formatToParts(new Date(instant));
+	const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+	const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+	return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Returns the local date ("YYYY-MM-DD") and time of day of an instant in a time zone
+ */
+export function utcToZonedTime(
+	instant: Date,
+	timeZone: string,
+): { date: string; hours: number; minutes: number } {
+	const wallClock = new Date(instant.getTime() + timeZoneOffset(instant.getTime(), timeZone));
+	return {
+		date: wallClock.toISOString().slice(0, 10),
+		hours: wallClock.getUTCHours(),
+		minutes: wallClock.getUTCMinutes(),
+	};
+}
+
+/**
+ * Converts a local wall-clock time in a time zone to an instant
+ */
+export function zonedTimeToUtc(
+	date: string,
+	hours: number,
+	minutes: number,
+	timeZone: string,
+): Date | null {
+	const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) {
+		return null;
+	}
+
+	const wallClock = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]), hours, minutes);
+	// The offset is checked again at the result in case a DST change lies in between
+	const firstGuess = wallClock - timeZoneOffset(wallClock, timeZone);
+	return new Date(wallClock - timeZoneOffset(firstGuess, timeZone));
+}
+
+/**
+ * Returns when a plan starts, or null if its date is not a valid date
+ */
+export function getEventStart(plan: EventPlan, timeZone: string): Date | null {
+	const time = parseTimeOfDay(plan.time) ?? { hours: DEFAULT_START_HOUR, minutes: 0 };
+	return zonedTimeToUtc(plan.date, time.hours, time.minutes, timeZone);
+}
@@ -0,0 +1,288 @@
+/**
+ * Guests
+ *
+ * Guest records and RSVPs for event plans: normalizing guest lists from
+ * the model, the API and older plans that stored plain names, recording
+ * RSVPs from Slack and the web RSVP page, and headcount summaries.
+ */
+import { Guest, RsvpStatus } from './types';
+
+export const RSVP_STATUSES: RsvpStatus[] = ['invited', 'going', 'maybe', 'declined'];
+
+// Upper bound on plus-ones per guest, to keep typos from skewing the headcount
+const MAX_PLUS_ONES = 10;
+
+// Words guests and the model use for each answer
+const RSVP_ALIASES: Record<string, RsvpStatus> = {
+	yes: 'going',
+	attending: 'going',
+	accepted: 'going',
+	tentative: 'maybe',
+	no: 'declined',
+	'not going': 'declined',
+	'not attending': 'declined',
+	pending: 'invited',
+	'no reply': 'invited',
+};
+
+/**
+ * An RSVP from Slack or the web RSVP page. The guest is matched by id,
+ * Slack user, email or name, in that order; unknown guests are added.
+ */
+export interface RsvpResponse {
+	status: RsvpStatus;
+	guestId?: string;
+	/**
+	 * Only the guest id identifies an existing guest. For anonymous answers,
+	 * which must not overwrite a guest by giving their name or email.
+	 */
+	matchByIdOnly?: boolean;
+	name?: string;
+	email?: string;
+	slackUserId?: string;
+	dietaryNotes?: string;
+	plusOnes?: number;
+}
+
+export interface RsvpSummary {
+	going: number;
+	maybe: number;
+	declined: number;
+	/** Guests who have not answered */
+	invited: number;
+	/** People expected: guests going plus their plus-ones */
+	headcount: number;
+	/** Dietary notes of guests going or maybe, e.g. "Sam: vegetarian" */
+	dietaryNotes: string[];
+}
+
+export function normalizeRsvpStatus(value: unknown): RsvpStatus | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+	const text = value.trim().toLowerCase();
+	const alias = Object.prototype.hasOwnProperty.call(RSVP_ALIASES, text) ? RSVP_ALIASES[text] : undefined;
+	return RSVP_STATUSES.find((status) => status === text) ?? alias ?? null;
+}
+
+function normalizePlusOnes(value: unknown): number | null {
+	const count = typeof value === 'string' && value.trim() ? Number(value) : value;
+	if (typeof count !== 'number' || !Number.isInteger(count) || count < 0 || count > MAX_PLUS_ONES) {
+		return null;
+	}
+	return count;
+}
+
+function optionalText(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export function createGuest(name: string, details: Partial<Omit<Guest, 'id' | 'name'>> = {}): Guest {
+	return { id: crypto.randomUUID(), name, rsvp: 'invited', ...details };
+}
+
+/**
+ * Unnamed guests for when only a count is known
+ */
+export function placeholderGuests(count: number): Guest[] {
+	return Array.from({ length: count }, (_, index) => createGuest(`Guest ${index + 1}`));
+}
+
+/**
+ * Converts a guest list of names and/or guest objects into guest records.
+ * Ids are kept only for guests already in `existing`; every other guest
+ * gets a new random id, since anyone with a guest's id can RSVP as them.
+ * Returns null if an entry is neither.
+ */
+export function normalizeGuests(value: unknown, existing: Guest[] = []): Guest[] | null {
+	if (value === undefined || value === null) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		return null;
+	}
+
+	const guests: Guest[] = [];
+	for (const entry of value) {
+		if (typeof entry === 'string') {
+			if (entry.trim()) {
+				guests.push(createGuest(entry.trim()));
+			}
+			continue;
+		}
+
+		const raw = entry as Record<string, unknown>;
+		const name = optionalText(raw?.name);
+		if (!name) {
+			return null;
+		}
+
+		const rsvp = raw.rsvp === undefined ? 'invited' : normalizeRsvpStatus(raw.rsvp);
+		const plusOnes = raw.plusOnes === undefined ? 0 : normalizePlusOnes(raw.plusOnes);
+		if (!rsvp || plusOnes === null) {
+			return null;
+		}
+
+		const id = optionalText(raw.id);
+		const known = id && existing.some((guest) => guest.id === id) && !guests.some((guest) => guest.id === id);
+		guests.push({
+			id: known ? id : crypto.randomUUID(),
+			name,
+			email: optionalText(raw.email)?.toLowerCase(),
+			slackUserId: optionalText(raw.slackUserId),
+			rsvp,
+			dietaryNotes: optionalText(raw.dietaryNotes),
+			plusOnes: plusOnes || undefined,
+			respondedAt: optionalText(raw.respondedAt),
+		});
+	}
+
+	return guests;
+}
+
+/**
+ * Validates an RSVP submitted by a guest
+ */
+export function validateRsvpResponse(body: Record<string, unknown>): { response?: RsvpResponse; error?: string } {
+	const status = normalizeRsvpStatus(body.status);
+	if (!status || status === 'invited') {
+		return { error: '"status" must be going, maybe or declined' };
+	}
+
+	const plusOnes = body.plusOnes === undefined ? 0 : normalizePlusOnes(body.plusOnes);
+	if (plusOnes === null) {
+		return { error: `"plusOnes" must be a whole number from 0 to ${MAX_PLUS_ONES}` };
+	}
+
+	const name = optionalText(body.name);
+	const guestId = optionalText(body.guestId);
+	if (!name && !guestId) {
+		return { error: '"name" is required' };
+	}
+
+	const email = optionalText(body.email)?.toLowerCase();
+	if (email && !/^[^\s@]+@[^\s@]+$/.test(email)) {
+		return { error: '"email" is not a valid email address' };
+	}
+
+	return {
+		response: {
+			status,
+			guestId,
+			name,
+			email,
+			dietaryNotes: optionalText(body.dietaryNotes),
+			plusOnes,
+		},
+	};
+}
+
+function findGuestIndex(guests: Guest[], response: RsvpResponse): number {
+	const name = response.name?.toLowerCase();
+	const byId = (guest: Guest) => response.guestId !== undefined && guest.id === response.guestId;
+	if (response.matchByIdOnly) {
+		return guests.findIndex(byId);
+	}
+
+	const matchers: ((guest: Guest) => boolean)[] = [
+		byId,
+		(guest) => response.slackUserId !== undefined && guest.slackUserId === response.slackUserId,
+		(guest) => response.email !== undefined && guest.email === response.email,
+		// A name only matches a guest who has not been tied to another Slack user
+		(guest) =>
+			name !== undefined &&
+			guest.name.toLowerCase() === name &&
+			(!guest.slackUserId || guest.slackUserId === response.slackUserId),
+	];
+
+	for (const matches of matchers) {
+		const index = guests.findIndex(matches);
+		if (index !== -1) {
+			return index;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Records an RSVP, updating the matching guest or adding a new one
+ */
+export function applyRsvp(guests: Guest[], response: RsvpResponse, now: Date = new Date()): { guests: Guest[]; guest: Guest } {
+	const index = findGuestIndex(guests, response);
+	const existing: Guest = index === -1 ? createGuest(response.name ?? 'Guest') : guests[index];
+
+	const guest: Guest = {
+		...existing,
+		email: response.email ?? existing.email,
+		slackUserId: response.slackUserId ?? existing.slackUserId,
+		rsvp: response.status,
+		dietaryNotes: response.dietaryNotes ?? existing.dietaryNotes,
+		plusOnes: response.plusOnes ?? existing.plusOnes,
+		respondedAt: now.toISOString(),
+	};
+
+	const updated = [...guests];
+	if (index === -1) {
+		updated.push(guest);
+	} else {
+		updated[index] = guest;
+	}
+	return { guests: updated, guest };
+}
+
+export function summarizeRsvps(guests: Guest[]): RsvpSummary {
+	const summary: RsvpSummary = { going: 0, maybe: 0, declined: 0, invited: 0, headcount: 0, dietaryNotes: [] };
+
+	for (const guest of guests) {
+		summary[guest.rsvp]++;
+		if (guest.rsvp === 'going') {
+			summary.headcount += 1 + (guest.plusOnes ?? 0);
+		}
+		if (guest.dietaryNotes && (guest.rsvp === 'going' || guest.rsvp === 'maybe')) {
+			summary.dietaryNotes.push(`${guest.name}: ${guest.dietaryNotes}`);
+		}
+	}
+
+	return summary;
+}
+
+/**
+ * Short headcount line, e.g. "12 going (incl. plus-ones) · 3 maybe · 2 no reply"
+ */
+export function describeHeadcount(guests: Guest[]): string {
+	if (guests.length === 0) {
+		return 'No guests yet';
+	}
+
+	const summary = summarizeRsvps(guests);
+	if (summary.invited === guests.length) {
+		return `${guests.length} invited, no replies yet`;
+	}
+
+	const plusOnes = summary.headcount - summary.going;
+	return [
+		`${summary.headcount} going${plusOnes > 0 ? ` (incl. ${plusOnes} plus-one${plusOnes === 1 ? '' : 's'})` : ''}`,
+		summary.maybe > 0 && `${summary.maybe} maybe`,
+		summary.declined > 0 && `${summary.declined} can't go`,
+		summary.invited > 0 && `${summary.invited} no reply`,
+	]
+		.filter(Boolean)
+		.join(' · ');
+}
+
+/**
+ * Headcount details for the model, so catering and venue suggestions
+ * use the real numbers
+ */
+export function describeGuestsForModel(guests: Guest[]): string {
+	const summary = summarizeRsvps(guests);
+	const lines = [`Headcount: ${describeHeadcount(guests)}`];
+	if (summary.dietaryNotes.length > 0) {
+		lines.push(`Dietary notes: ${summary.dietaryNotes.join('; ')}`);
+	}
+	return lines.join('\n');
+}
+
+export function guestNames(guests: Guest[]): string[] {
+	return guests.map((guest) => guest.name);
+}
@@ -1,5 +1,6 @@
 import { BrowserService } from '../browser';
 import { BrowserSearchRequest, Env, SearchResult } from '../types';
+import { enforceRateLimit } from '../rate-limiter';
 
 export async function handleBrowserSearch(request: Request, env: Env): Promise<Response> {
 	try {
@@ -7,6 +8,11 @@ export async function handleBrowserSearch(request: Request, env: Env): Promise<R
 			return new Response('Method not allowed', { status: 405 });
 		}
 
+		const limited = await enforceRateLimit(request, env, 'browser-search');
+		if (limited) {
+			return limited;
+		}
+
 		const browserService = new BrowserService(env);
 		const searchRequest: BrowserSearchRequest = await request.json();
 
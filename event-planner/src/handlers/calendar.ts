@@ -0,0 +1,210 @@
+/**
+ * Calendar Handler
+ *
+ * Serves event plans as iCalendar files: one .ics per plan, and a feed of
+ * the signed-in user's approved plans. Uploaded invites are imported as
+ * draft plans with a chat session to finish them.
+ */
+import { Env, EventPlan, AuthUser } from '../types';
+import { getEventStore } from '../event-store';
+import { getChatSession } from '../chat-session';
+import { buildCalendar, parseCalendarEvents, calendarEventToPlanFields } from '../calendar';
+import { getEventTimeZone } from '../event-time';
+import { parseReminderOffsets } from '../reminders';
+import { guestNames } from '../guests';
+import { isConfirmed } from '../plan-status';
+import { canAccessPlan, authenticateFeedToken } from '../auth';
+import { runChatTurn } from './chat';
+
+// Invites are small; anything larger is not a calendar file
+const MAX_IMPORT_BYTES = 1024 * 1024;
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
+
+function calendarResponse(body: string, filename?: string): Response {
+	return new Response(body, {
+		headers: {
+			'Content-Type': 'text/calendar; charset=utf-8',
+			...(filename ? { 'Content-Disposition': `attachment; filename="${filename}"` } : {}),
+		},
+	});
+}
+
+/**
+ * GET /api/events/:id/calendar.ics
+ *
+ * Public, so it has the event details but not the guest list or budget
+ */
+export async function handleEventCalendar(id: string, env: Env): Promise<Response> {
+	try {
+		const eventPlan = await getEventStore(env).getPlan(id);
+		if (!eventPlan) {
+			return new Response('Event not found', { status: 404 });
+		}
+
+		const calendar = buildCalendar([eventPlan], {
+			defaultTimeZone: getEventTimeZone(env),
+			reminderOffsets: parseReminderOffsets(env.REMINDER_OFFSETS),
+			// Guests download this from the RSVP page without signing in
+			guestView: true,
+		});
+		const filename = eventPlan.title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'event';
+		return calendarResponse(calendar, `${filename}.ics`);
+	} catch (error) {
+		console.error('Error exporting event calendar:', error);
+		return new Response('Failed to export event', { status: 500 });
+	}
+}
+
+/**
+ * GET /api/calendar.ics?token=<feed token>
+ *
+ * The user's approved plans as a subscribable feed. Calendar apps cannot
+ * sign in, so the secret token from /api/calendar/feed identifies the user.
+ */
+export async function handleCalendarFeed(request: Request, env: Env): Promise<Response> {
+	try {
+		const token = new URL(request.url).searchParams.get('token');
+		const user = token ? await authenticateFeedToken(env, token) : null;
+		if (!user) {
+			return new Response('Calendar feed not found', { status: 404 });
+		}
+
+		const plans = (await getEventStore(env).listPlans()).filter(
+			// Completed events stay so calendars keep their history; cancelled ones drop out
+			(plan) => canAccessPlan(user, plan) && (isConfirmed(plan.status) || plan.status === 'completed'),
+		);
+
+		return calendarResponse(buildCalendar(plans, {
+			name: 'Event Plans',
+			defaultTimeZone: getEventTimeZone(env),
+			reminderOffsets: parseReminderOffsets(env.REMINDER_OFFSETS),
+		}));
+	} catch (error) {
+		console.error('Error building calendar feed:', error);
+		return new Response('Failed to build calendar feed', { status: 500 });
+	}
+}
+
+/**
+ * GET /api/calendar/feed returns the user's feed URL, and
+ * POST /api/calendar/feed/reset replaces its token, e.g. after the URL leaked
+ */
+export async function handleCalendarFeedUrl(request: Request, env: Env, user: AuthUser, reset: boolean = false): Promise<Response> {
+	try {
+		const token = await getEventStore(env).getFeedToken(user.id, reset);
+		const origin = env.PUBLIC_URL?.replace(/\/+$/, '') ?? new URL(request.url).origin;
+		return jsonResponse({ url: `${origin}/api/calendar.ics?token=${token}` });
+	} catch (error) {
+		console.error('Error getting calendar feed URL:', error);
+		return jsonResponse({ error: 'Failed to get calendar feed URL' }, 500);
+	}
+}
+
+/**
+ * Reads the uploaded calendar, sent either as a multipart "file" field
+ * or as the raw request body
+ */
+async function readCalendarUpload(request: Request): Promise<string> {
+	if (request.headers.get('Content-Type')?.includes('multipart/form-data')) {
+		const file = (await request.formData()).get('file');
+		return typeof file === 'string' ? file : (await file?.text()) ?? '';
+	}
+	return await request.text();
+}
+
+function describeImportedPlan(plan: EventPlan): string {
+	return [
+		`Title: ${plan.title}`,
+		`Date: ${plan.date}`,
+		plan.time && `Time: ${plan.time}${plan.timeZone ? ` (${plan.timeZone})` : ''}`,
+		plan.venue && `Location: ${plan.venue}`,
+		plan.guests.length > 0 && `Attendees (${plan.guests.length}): ${guestNames(plan.guests).join(', ')}`,
+		plan.description && `Description: ${plan.description}`,
+	]
+		.filter(Boolean)
+		.join('\n');
+}
+
+/**
+ * POST /api/events/import
+ *
+ * Imports the first VEVENT of an iCalendar upload as a draft plan and
+ * starts a chat session working on it, so the model can fill in the
+ * timeline and budget. `warnings` lists anything that was not carried
+ * over exactly, e.g. a time zone that is not recognised.
+ */
+export async function handleImportCalendar(request: Request, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		if (Number(request.headers.get('Content-Length') ?? 0) > MAX_IMPORT_BYTES) {
+			return jsonResponse({ error: 'Calendar file is too large' }, 413);
+		}
+
+		const text = await readCalendarUpload(request);
+		if (text.length > MAX_IMPORT_BYTES) {
+			return jsonResponse({ error: 'Calendar file is too large' }, 413);
+		}
+
+		const events = parseCalendarEvents(text);
+		const timeZone = getEventTimeZone(env);
+		const imported = events
+			.map((event) => calendarEventToPlanFields(event, timeZone))
+			.find((candidate) => candidate !== null);
+
+		if (!imported) {
+			return jsonResponse({ error: 'No event with a start date was found in the calendar data' }, 400);
+		}
+		const { warnings, ...fields } = imported;
+
+		const now = new Date().toISOString();
+		const draft: EventPlan = {
+			...fields,
+			id: crypto.randomUUID(),
+			timeline: [],
+			budget: 0,
+			status: 'draft',
+			ownerId: user.id,
+			createdAt: now,
+			updatedAt: now,
+		};
+		const store = getEventStore(env);
+		await store.savePlan(draft);
+
+		const sessionId = crypto.randomUUID();
+		const session = getChatSession(env, sessionId);
+		await session.claim(user.id);
+		await session.setActivePlan(draft.id);
+
+		const seedMessage = `I imported this event from a calendar invite:\n${describeImportedPlan(draft)}\n\n${warnings.map((warning) => `Note: ${warning}\n\n`).join('')}Please build a full plan around it: add a timeline of preparation tasks and set a realistic budget.`;
+
+		try {
+			const result = await runChatTurn(env, sessionId, seedMessage);
+			return jsonResponse({
+				...result,
+				eventPlan: result.eventPlan ?? (await store.getPlan(draft.id)) ?? draft,
+				needsApproval: true,
+				importedEvents: events.length,
+				warnings,
+			}, 201);
+		} catch (error) {
+			// The draft and session exist, so the user can continue in the chat
+			console.error('Error running chat turn for imported event:', error);
+			return jsonResponse({
+				sessionId,
+				response: `I imported "${draft.title}". Tell me more about it and I'll add a timeline and budget.`,
+				eventPlan: draft,
+				needsApproval: true,
+				importedEvents: events.length,
+				warnings,
+			}, 201);
+		}
+	} catch (error) {
+		console.error('Error importing calendar:', error);
+		return jsonResponse({ error: 'Failed to import calendar' }, 500);
+	}
+}
@@ -3,149 +3,447 @@
  * 
  * Handles chat requests, event plan generation, and AI interactions
  */
-import { Env, ChatMessage, EventPlan } from '../types';
+import { Env, ChatMessage, EventPlan, AuthUser } from '../types';
+import { getEventStore } from '../event-store';
+import { getChatSession, ChatSession, SessionContext } from '../chat-session';
+import { extractEventPlan } from '../plan-extraction';
+import { describeGuestsForModel } from '../guests';
+import { isUnderReview } from '../plan-status';
+import { CHAT_TOOLS, executeChatTool, ToolCall, ToolContext, ToolMessage } from '../chat-tools';
 
 // Model ID for Workers AI model
 const MODEL_ID = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
 
+// Tool rounds allowed before the model must give a final answer
+const MAX_TOOL_ROUNDS = 5;
+
 // Enhanced system prompt for event planning
-const SYSTEM_PROMPT = `You are an expert AI event planning assistant with access to web search capabilities. Your role is to help users plan events by:
+const SYSTEM_PROMPT = `You are an expert AI event planning assistant with access to web search and event plan tools. Your role is to help users plan events by:
 
 1. Extracting key details from user requests (event type, date, guest count, budget, venue preferences)
 2. Creating detailed event plans with timelines and suggestions
 3. Providing practical advice for event organization
-4. When users ask about finding specific resources (like "museum tickets", "venues", "catering"), you can suggest web searches
-5. When you have enough information to create a comprehensive event plan, respond with a JSON structure
-
-When users ask questions about finding resources like:
-- "How can I find museum tickets?"
-- "Where can I book a venue?"
-- "How do I find catering services?"
-- "Where to buy party supplies?"
-
-You can suggest that they can search for these resources and provide helpful search terms. For example:
-"I can help you search for museum tickets! You could search for '[museum name] tickets booking' or 'buy [museum name] tickets online'."
-
-When creating an event plan, respond with this EXACT JSON format (use "create_event" as the action):
-{
-  "action": "create_event",
-  "event": {
-    "title": "Event Title",
-    "date": "YYYY-MM-DD",
-    "time": "HH:MM AM/PM (if mentioned)",
-    "type": "Event type (birthday, wedding, corporate, trip, etc.)",
-    "guests": ["guest1", "guest2"] or [],
-    "timeline": ["task 1: description", "task 2: description"],
-    "budget": 1000,
-    "venue": "Venue suggestion or description (or destination for trips)",
-    "description": "Brief description of the event"
-  },
-  "response": "Your helpful response explaining the plan to the user"
-}
+4. Searching the web for specific resources (like "museum tickets", "venues", "catering") when users ask to find them
+5. Saving a comprehensive event plan once you have enough information
+
+You can use these tools:
+- search_web: find venues, tickets, catering, supplies or general information. Use it when users ask where to find or book something instead of only suggesting search terms.
+- extract_page: read a web page, such as a search result, to check prices, capacity or availability.
+- create_event_plan: save a new event plan for the user to review. Include a title, date (YYYY-MM-DD), time ("HH:MM AM/PM") if mentioned, type, guests, timeline tasks (each with a title and how many days before the event it is due), a numeric budget, the currency, a budget breakdown (budgetItems by category with estimated amounts), venue and description. Use it for trips, vacations and travel plans too.
+- edit_event_plan: change the current event plan when the user asks to add, remove, swap or move timeline tasks, assign tasks, mark them done or change when they are due, change the budget or currency, add or adjust budget line items (including actual amounts spent) or set the venue. Pass its id and the user's instruction.
 
-IMPORTANT: Always use "create_event" as the action and "event" as the object key, even for trips, vacations, or travel plans.
+When the current plan has RSVPs, base catering quantities, venue capacity and budget suggestions on its headcount (guests going plus their plus-ones) rather than the number of invitations, and respect guests' dietary notes.
+
+After using tools, reply to the user in plain text explaining what you found or the plan you saved. Never show tool call JSON to the user.
 
 For regular conversation without enough details for a complete plan, respond normally with helpful event planning advice and ask for missing information.
 
-Be friendly, practical, and focus on creating realistic, well-organized event plans. When appropriate, suggest web searches for finding specific resources.`;
+Be friendly, practical, and focus on creating realistic, well-organized event plans.`;
+
+/**
+ * Message sent to the model during the tool loop
+ */
+type AgentMessage = ChatMessage | ToolMessage;
+
+/**
+ * Model output when tools are available
+ */
+interface AgentModelOutput {
+	response?: string | object;
+	tool_calls?: ToolCall[];
+}
+
+/**
+ * Outcome of the tool loop for one chat turn
+ */
+interface AgentResult {
+	responseText: string;
+	eventPlan?: EventPlan;
+}
+
+/**
+ * Builds the model context from the server-held session history and the
+ * conversation's current plan
+ */
+async function buildModelMessages(env: Env, context: SessionContext): Promise<ChatMessage[]> {
+	let systemContent = SYSTEM_PROMPT;
+
+	if (context.summary) {
+		systemContent += `\n\nSummary of the earlier conversation:\n${context.summary}`;
+	}
+
+	if (context.activePlanId) {
+		const plan = await getEventStore(env).getPlan(context.activePlanId);
+		if (plan) {
+			systemContent += `\n\nCurrent event plan (id: ${plan.id}):\n${JSON.stringify(plan)}\n${describeGuestsForModel(plan.guests)}`;
+		}
+	}
+
+	return [{ role: 'system', content: systemContent }, ...context.messages];
+}
+
+function responseToText(response: string | object | undefined): string {
+	return typeof response === 'string' ? response : response ? JSON.stringify(response) : '';
+}
+
+/**
+ * Yields the data payload of each event in a Server-Sent Events stream
+ */
+async function* readSSEData(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+	const reader = stream.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+
+		buffer += decoder.decode(value, { stream: true });
+		const lines = buffer.split('\n');
+		buffer = lines.pop() ?? '';
+
+		for (const line of lines) {
+			if (line.startsWith('data:')) {
+				yield line.slice(5).trim();
+			}
+		}
+	}
+
+	if (buffer.startsWith('data:')) {
+		yield buffer.slice(5).trim();
+	}
+}
+
+/**
+ * Generates the final answer without tools, passing each token on as it
+ * arrives, and returns the whole text
+ */
+async function streamFinalAnswer(
+	env: Env,
+	messages: AgentMessage[],
+	onToken: (token: string) => Promise<void>,
+): Promise<string> {
+	const stream = (await env.AI.run(MODEL_ID, {
+		messages,
+		max_tokens: 1024,
+		stream: true,
+	})) as ReadableStream<Uint8Array>;
+
+	let responseText = '';
+	for await (const data of readSSEData(stream)) {
+		if (data === '[DONE]') {
+			break;
+		}
+
+		const { response: token } = JSON.parse(data) as { response?: string };
+		if (token) {
+			responseText += token;
+			await onToken(token);
+		}
+	}
+	return responseText;
+}
+
+/**
+ * Calls the model with the chat tools, executing any requested tool calls
+ * and feeding their results back until it produces a final answer.
+ * A reply without tool calls is the answer and is passed on as it is.
+ * Only when the model is still calling tools after the last round is the
+ * answer generated again without tools, and streamed.
+ *
+ * @param onToolCall Notified before each tool runs, e.g. to report progress
+ * @param onToken Receives the final answer, token by token when it is streamed
+ */
+async function runAgentLoop(
+	env: Env,
+	session: DurableObjectStub<ChatSession>,
+	messages: ChatMessage[],
+	ownerId: string | undefined,
+	onToolCall?: (call: ToolCall) => Promise<void>,
+	onToken?: (token: string) => Promise<void>,
+): Promise<AgentResult> {
+	const agentMessages: AgentMessage[] = [...messages];
+	const toolContext: ToolContext = { env, session, ownerId };
+
+	for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+		const output = (await env.AI.run(MODEL_ID, {
+			messages: agentMessages,
+			max_tokens: 1024,
+			tools: CHAT_TOOLS,
+		})) as AgentModelOutput;
+
+		const toolCalls = output.tool_calls ?? [];
+		if (toolCalls.length === 0) {
+			const responseText = responseToText(output.response);
+			if (onToken && responseText) {
+				await onToken(responseText);
+			}
+			return { responseText, eventPlan: toolContext.eventPlan };
+		}
+
+		agentMessages.push({ role: 'assistant', content: JSON.stringify(toolCalls) });
+
+		for (const call of toolCalls) {
+			console.log('Model requested tool:', call.name, call.arguments);
+			await onToolCall?.(call);
+			agentMessages.push(await executeChatTool(toolContext, call));
+		}
+	}
+
+	// Out of tool rounds: tools are withheld so the model has to reply
+	if (onToken) {
+		return { responseText: await streamFinalAnswer(env, agentMessages, onToken), eventPlan: toolContext.eventPlan };
+	}
+	const output = (await env.AI.run(MODEL_ID, { messages: agentMessages, max_tokens: 1024 })) as AgentModelOutput;
+	return { responseText: responseToText(output.response), eventPlan: toolContext.eventPlan };
+}
 
 /**
- * Handles chat API requests
+ * Final result of a chat turn, sent as JSON or as the last SSE event
+ */
+export interface ChatResult {
+	sessionId: string;
+	response: string;
+	eventPlan?: EventPlan;
+	needsApproval?: boolean;
+}
+
+/**
+ * Turns the agent's final answer into a chat result and records the reply
+ * in the session. Plans the model wrote as JSON instead of calling
+ * create_event_plan are still extracted and stored as drafts.
+ */
+async function finalizeChatResponse(
+	env: Env,
+	session: DurableObjectStub<ChatSession>,
+	sessionId: string,
+	messages: ChatMessage[],
+	agentResult: AgentResult,
+	ownerId: string | undefined,
+): Promise<ChatResult> {
+	console.log('AI Raw Response:', agentResult.responseText);
+	const extraction = await extractEventPlan(env, messages, agentResult.responseText);
+	let eventPlan = agentResult.eventPlan;
+
+	if (!eventPlan && extraction.event) {
+		console.log('Event plan detected! Creating approval response');
+
+		// Create a draft event plan
+		eventPlan = {
+			id: crypto.randomUUID(),
+			...extraction.event,
+			status: 'draft',
+			ownerId,
+			createdAt: new Date().toISOString(),
+			updatedAt: new Date().toISOString(),
+		};
+
+		console.log('Final event plan:', eventPlan);
+
+		// Persist the draft so approval can work from its id
+		await getEventStore(env).savePlan(eventPlan);
+		await session.setActivePlan(eventPlan.id);
+	}
+
+	await session.addMessages([{ role: 'assistant', content: extraction.response }]);
+
+	if (eventPlan) {
+		return {
+			sessionId,
+			response: extraction.response,
+			eventPlan: eventPlan,
+			needsApproval: isUnderReview(eventPlan.status),
+		};
+	}
+
+	return { sessionId, response: extraction.response };
+}
+
+/**
+ * Adds a user message to a session and runs one full turn of the agent.
+ * Also used to start sessions seeded from other sources, such as
+ * calendar imports.
+ */
+export async function runChatTurn(env: Env, sessionId: string, message: string): Promise<ChatResult> {
+	const session = getChatSession(env, sessionId);
+	const context = await session.addMessages([{ role: 'user', content: message }]);
+	const messages = await buildModelMessages(env, context);
+
+	const agentResult = await runAgentLoop(env, session, messages, context.ownerId);
+	return await finalizeChatResponse(env, session, sessionId, messages, agentResult, context.ownerId);
+}
+
+/**
+ * Streams progress to the client as Server-Sent Events. Emits a `tool`
+ * event as each tool starts, `token` events as the reply is generated, then a
+ * single `done` event carrying the ChatResult (or an `error` event if
+ * the turn fails).
+ */
+function streamChatResponse(
+	env: Env,
+	ctx: ExecutionContext,
+	session: DurableObjectStub<ChatSession>,
+	sessionId: string,
+	messages: ChatMessage[],
+	ownerId: string | undefined,
+): Response {
+	const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+	const writer = writable.getWriter();
+	const encoder = new TextEncoder();
+
+	const send = (event: string, data: unknown) =>
+		writer.write(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+	const pump = async () => {
+		try {
+			const agentResult = await runAgentLoop(
+				env,
+				session,
+				messages,
+				ownerId,
+				(call) => send('tool', { name: call.name, arguments: call.arguments }),
+				(token) => send('token', { token }),
+			);
+
+			await send('done', await finalizeChatResponse(env, session, sessionId, messages, agentResult, ownerId));
+		} catch (error) {
+			console.error('Error streaming chat response:', error);
+			await send('error', { error: 'Failed to process request' });
+		} finally {
+			await writer.close();
+		}
+	};
+
+	ctx.waitUntil(pump());
+
+	return new Response(readable, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+		},
+	});
+}
+
+/**
+ * Handles chat API requests. Pass `stream: true` to receive progress and
+ * the reply as Server-Sent Events instead of a single JSON body.
  */
 export async function handleChatRequest(
 	request: Request,
 	env: Env,
+	ctx: ExecutionContext,
+	user: AuthUser,
 ): Promise<Response> {
 	try {
 		// Parse JSON request body
-		const { messages = [] } = (await request.json()) as {
-			messages: ChatMessage[];
+		const body = (await request.json()) as {
+			sessionId?: string;
+			message?: string;
+			messages?: ChatMessage[];
+			stream?: boolean;
 		};
 
-		// Add system prompt if not present
-		if (!messages.some((msg) => msg.role === 'system')) {
-			messages.unshift({ role: 'system', content: SYSTEM_PROMPT });
+		// Older clients send the whole transcript; only their latest user turn is used
+		const message =
+			body.message ?? body.messages?.filter((msg) => msg.role === 'user').pop()?.content;
+
+		if (!message) {
+			return new Response(
+				JSON.stringify({ error: 'message is required' }),
+				{
+					status: 400,
+					headers: { 'content-type': 'application/json' },
+				},
+			);
 		}
 
-		const response = await env.AI.run(
-			MODEL_ID,
-			{
-				messages,
-				max_tokens: 1024,
-			},
+		const sessionId = body.sessionId || crypto.randomUUID();
+		const session = getChatSession(env, sessionId);
+		if (!(await session.claim(user.id)) && !user.isAdmin) {
+			return sessionNotFound();
+		}
+
+		if (body.stream) {
+			const context = await session.addMessages([{ role: 'user', content: message }]);
+			const messages = await buildModelMessages(env, context);
+			return streamChatResponse(env, ctx, session, sessionId, messages, context.ownerId);
+		}
+
+		const result = await runChatTurn(env, sessionId, message);
+
+		return new Response(JSON.stringify(result), {
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		console.error('Error processing chat request:', error);
+		return new Response(
+			JSON.stringify({ error: 'Failed to process request' }),
 			{
-				returnRawResponse: false,
+				status: 500,
+				headers: { 'content-type': 'application/json' },
 			},
-		) as { response: string };
+		);
+	}
+}
 
-		// Check if the response contains an event plan
-		try {
-			const responseText = response.response;
-			console.log('AI Raw Response:', responseText);
-			
-			let jsonText = responseText;
-			let parsedResponse;
-
-			// Try to extract JSON from markdown code blocks if present
-			const codeBlockMatch = responseText.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-			if (codeBlockMatch) {
-				jsonText = codeBlockMatch[1];
-				console.log('Extracted JSON from code block:', jsonText);
-			}
+/**
+ * Sessions of other users are reported as missing
+ */
+function sessionNotFound(): Response {
+	return new Response(JSON.stringify({ error: 'Session not found' }), {
+		status: 404,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
 
-			// Try parsing the extracted or original text
-			try {
-				parsedResponse = JSON.parse(jsonText);
-			} catch (parseError) {
-				console.log('JSON parsing failed:', parseError);
-				throw parseError;
-			}
-			
-			if ((parsedResponse.action === 'create_event' || parsedResponse.action === 'create_trip') && 
-			    (parsedResponse.event || parsedResponse.trip)) {
-				console.log('Event plan detected! Creating approval response');
-				
-				// Use either event or trip data
-				const eventData = parsedResponse.event || parsedResponse.trip;
-				
-				// Create a draft event plan
-				const eventPlan: EventPlan = {
-					id: crypto.randomUUID(),
-					...eventData,
-					status: 'draft',
-					createdAt: new Date().toISOString(),
-					updatedAt: new Date().toISOString(),
-				};
-
-				console.log('Final event plan:', eventPlan);
-
-				return new Response(JSON.stringify({
-					response: parsedResponse.response,
-					eventPlan: eventPlan,
-					needsApproval: true
-				}), {
-					headers: { 'Content-Type': 'application/json' },
-				});
-			}
-		} catch (e) {
-			console.log('JSON parsing failed or no event plan found:', e);
-			// Not JSON or doesn't contain event plan - treat as regular response
+/**
+ * Returns the stored history for a session so clients can resume it
+ */
+export async function handleGetSession(sessionId: string, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const { summary, messages, ownerId } = await getChatSession(env, sessionId).getContext();
+		if (ownerId !== user.id && !user.isAdmin) {
+			return sessionNotFound();
 		}
+		return new Response(JSON.stringify({ sessionId, summary, messages }), {
+			headers: { 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		console.error('Error loading chat session:', error);
+		return new Response(
+			JSON.stringify({ error: 'Failed to load session' }),
+			{
+				status: 500,
+				headers: { 'content-type': 'application/json' },
+			},
+		);
+	}
+}
 
-		// Return regular response
-		return new Response(JSON.stringify({ 
-			response: response.response
-		}), {
+/**
+ * Clears a session so the user can start over
+ */
+export async function handleDeleteSession(sessionId: string, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const session = getChatSession(env, sessionId);
+		const { ownerId } = await session.getContext();
+		if (ownerId !== user.id && !user.isAdmin) {
+			return sessionNotFound();
+		}
+		await session.clear();
+		return new Response(JSON.stringify({ success: true }), {
 			headers: { 'Content-Type': 'application/json' },
 		});
 	} catch (error) {
-		console.error('Error processing chat request:', error);
+		console.error('Error clearing chat session:', error);
 		return new Response(
-			JSON.stringify({ error: 'Failed to process request' }),
+			JSON.stringify({ error: 'Failed to clear session' }),
 			{
 				status: 500,
 				headers: { 'content-type': 'application/json' },
 			},
 		);
 	}
-}
\ No newline at end of file
+}
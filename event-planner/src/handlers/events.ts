@@ -1,83 +1,626 @@
 /**
  * Event Approval Handler
- * 
- * Handles event approval and Slack integration
+ *
+ * Handles stored event plan CRUD, event approval, status changes, pinned
+ * vendors and Slack integration
  */
-import { Env, EventPlan } from '../types';
+import { Env, EventPlan, StatusActor, AuthUser } from '../types';
 import { SlackService } from '../slack';
+import { getEventStore } from '../event-store';
+import { getSlackToken } from '../slack-installations';
+import { isValidTimeZone } from '../event-time';
+import { normalizeBudget, normalizeDate } from '../plan-extraction';
+import { normalizeCurrency, validateBudgetItems } from '../budget';
+import { normalizeGuests } from '../guests';
+import { normalizeTimeline, validateTaskChanges } from '../tasks';
+import { validateNewVendor, validateVendorChanges } from '../vendors';
+import { canAccessPlan, authorizeSlackChannel } from '../auth';
+import { ensureBotInChannel, describeSlackError } from '../slack-channels';
+import { editEventPlan, diffPlans, PlanEditError, PlanEditConflictError } from '../plan-editing';
+import { approvePlan, transitionPlanStatus, notifyStatusChange, isEventStatus, PlanStatusError } from '../plan-status';
+
+// Fields a client may set when creating or editing a plan
+const EDITABLE_FIELDS = [
+	'title',
+	'date',
+	'time',
+	'timeZone',
+	'guests',
+	'timeline',
+	'budget',
+	'currency',
+	'budgetItems',
+	'venue',
+	'description',
+	'type',
+	'slackChannelId',
+] as const;
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
+
+function webActor(user: AuthUser): StatusActor {
+	return { source: 'web', userId: user.id, name: user.email };
+}
+
+/**
+ * Copies only editable fields from a request body
+ */
+function pickEditableFields(body: Record<string, unknown>): Partial<EventPlan> {
+	const changes: Record<string, unknown> = {};
+	for (const field of EDITABLE_FIELDS) {
+		if (body[field] !== undefined) {
+			changes[field] = body[field];
+		}
+	}
+	return changes as Partial<EventPlan>;
+}
+
+/**
+ * Validates the fields that are set, normalizing the title, date, budget,
+ * currency, budget items, guests and timeline tasks in place. Guests keep
+ * their ids only if they are in the `existing` plan. Returns an error message, if any.
+ */
+function validateFields(fields: Partial<EventPlan>, existing?: EventPlan): string | null {
+	if (fields.title !== undefined) {
+		if (typeof fields.title !== 'string' || !fields.title.trim()) {
+			return '"title" must be a non-empty string';
+		}
+		fields.title = fields.title.trim();
+	}
+
+	if (fields.date !== undefined) {
+		const date = normalizeDate(fields.date);
+		if (!date) {
+			return `Invalid date: ${fields.date}`;
+		}
+		fields.date = date;
+	}
+
+	if (fields.budget !== undefined) {
+		const budget = normalizeBudget(fields.budget);
+		if (budget === null) {
+			return '"budget" must be a non-negative amount';
+		}
+		fields.budget = budget;
+	}
+
+	if (fields.timeZone && !isValidTimeZone(fields.timeZone)) {
+		return `Unknown time zone: ${fields.timeZone}`;
+	}
+
+	if (fields.currency !== undefined) {
+		const currency = normalizeCurrency(fields.currency);
+		if (!currency) {
+			return `Unknown currency: ${fields.currency}`;
+		}
+		fields.currency = currency;
+	}
+
+	if (fields.guests !== undefined) {
+		const guests = normalizeGuests(fields.guests, existing?.guests);
+		if (!guests) {
+			return 'Invalid guests: each guest must be a name or an object with a "name" and a valid "rsvp"';
+		}
+		fields.guests = guests;
+	}
+
+	if (fields.timeline !== undefined) {
+		const timeline = normalizeTimeline(fields.timeline);
+		if (!timeline) {
+			return 'Invalid timeline: each task must be a description or an object with a "title"';
+		}
+		fields.timeline = timeline;
+	}
+
+	if (fields.budgetItems !== undefined) {
+		const { items, errors } = validateBudgetItems(fields.budgetItems);
+		if (!items) {
+			return `Invalid budget items: ${errors.join('; ')}`;
+		}
+		fields.budgetItems = items;
+	}
+
+	return null;
+}
+
+/**
+ * GET /api/events
+ */
+export async function handleListEvents(env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const events = (await getEventStore(env).listPlans()).filter((plan) => canAccessPlan(user, plan));
+		return jsonResponse({ events });
+	} catch (error) {
+		console.error('Error listing events:', error);
+		return jsonResponse({ error: 'Failed to list events' }, 500);
+	}
+}
 
 /**
- * Handles event approval and Slack posting
+ * POST /api/events
+ */
+export async function handleCreateEvent(request: Request, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const body = (await request.json()) as Record<string, unknown>;
+		const fields = pickEditableFields(body);
+
+		if (!fields.title || !fields.date) {
+			return jsonResponse({ error: 'title and date are required' }, 400);
+		}
+		const error = validateFields(fields);
+		if (error) {
+			return jsonResponse({ error }, 400);
+		}
+		const channelError = fields.slackChannelId && (await authorizeSlackChannel(env, user, fields.slackChannelId));
+		if (channelError) {
+			return jsonResponse({ error: channelError }, 403);
+		}
+
+		const now = new Date().toISOString();
+		const eventPlan: EventPlan = {
+			guests: [],
+			timeline: [],
+			budget: 0,
+			...fields,
+			id: crypto.randomUUID(),
+			title: fields.title,
+			date: fields.date,
+			status: 'draft',
+			ownerId: user.id,
+			createdAt: now,
+			updatedAt: now,
+		};
+
+		await getEventStore(env).savePlan(eventPlan);
+		return jsonResponse({ eventPlan }, 201);
+	} catch (error) {
+		console.error('Error creating event:', error);
+		return jsonResponse({ error: 'Failed to create event' }, 500);
+	}
+}
+
+/**
+ * GET /api/events/:id
+ */
+export async function handleGetEvent(id: string, env: Env): Promise<Response> {
+	try {
+		const eventPlan = await getEventStore(env).getPlan(id);
+		if (!eventPlan) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		return jsonResponse({ eventPlan });
+	} catch (error) {
+		console.error('Error fetching event:', error);
+		return jsonResponse({ error: 'Failed to fetch event' }, 500);
+	}
+}
+
+/**
+ * PATCH /api/events/:id
+ *
+ * Changes to the plan's content are recorded as a new version, so they
+ * show up in its history and can be rolled back
+ */
+export async function handleUpdateEvent(id: string, request: Request, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const body = (await request.json()) as Record<string, unknown>;
+		const changes = pickEditableFields(body);
+		const store = getEventStore(env);
+		const existing = await store.getPlan(id);
+		if (!existing) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		const error = validateFields(changes, existing);
+		if (error) {
+			return jsonResponse({ error }, 400);
+		}
+
+		if (changes.slackChannelId) {
+			// Cancellations and reminders are posted to the plan's channel
+			const channelError = await authorizeSlackChannel(env, user, changes.slackChannelId, existing.slackTeamId);
+			if (channelError) {
+				return jsonResponse({ error: channelError }, 403);
+			}
+		}
+
+		const eventPlan = await store.editPlan(id, changes);
+		if (!eventPlan) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		return jsonResponse({ eventPlan });
+	} catch (error) {
+		console.error('Error updating event:', error);
+		return jsonResponse({ error: 'Failed to update event' }, 500);
+	}
+}
+
+/**
+ * DELETE /api/events/:id
+ */
+export async function handleDeleteEvent(id: string, env: Env): Promise<Response> {
+	try {
+		const deleted = await getEventStore(env).deletePlan(id);
+		if (!deleted) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		return jsonResponse({ success: true });
+	} catch (error) {
+		console.error('Error deleting event:', error);
+		return jsonResponse({ error: 'Failed to delete event' }, 500);
+	}
+}
+
+/**
+ * POST /api/events/:id/edit
+ *
+ * Applies a natural-language edit instruction as a versioned patch
+ */
+export async function handleEditEvent(id: string, request: Request, env: Env): Promise<Response> {
+	try {
+		const { instruction } = (await request.json()) as { instruction?: string };
+		if (!instruction?.trim()) {
+			return jsonResponse({ error: 'instruction is required' }, 400);
+		}
+
+		const result = await editEventPlan(env, id, instruction);
+		return jsonResponse(result);
+	} catch (error) {
+		if (error instanceof PlanEditError) {
+			return jsonResponse({ error: error.message }, error instanceof PlanEditConflictError ? 409 : 422);
+		}
+		console.error('Error editing event:', error);
+		return jsonResponse({ error: 'Failed to edit event' }, 500);
+	}
+}
+
+/**
+ * PATCH /api/events/:id/tasks/:taskId
+ *
+ * Body: any of { title, done, dueDaysBefore, assignee, assigneeSlackId }.
+ * Task progress does not create a new plan version.
+ */
+export async function handleUpdateTask(
+	id: string,
+	taskId: string,
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+): Promise<Response> {
+	try {
+		const body = (await request.json()) as Record<string, unknown>;
+		const { changes, error } = validateTaskChanges(body);
+		if (!changes) {
+			return jsonResponse({ error }, 400);
+		}
+
+		const store = getEventStore(env);
+		const existing = await store.getPlan(id);
+		if (!existing) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		if (!existing.timeline.some((task) => task.id === taskId)) {
+			return jsonResponse({ error: 'Task not found' }, 404);
+		}
+
+		const eventPlan = (await store.updateTasks(id, { [taskId]: changes }))!;
+		ctx.waitUntil(refreshSlackPlanMessage(eventPlan, env));
+
+		return jsonResponse({ eventPlan, task: eventPlan.timeline.find((task) => task.id === taskId) });
+	} catch (error) {
+		console.error('Error updating task:', error);
+		return jsonResponse({ error: 'Failed to update task' }, 500);
+	}
+}
+
+/**
+ * POST /api/events/:id/vendors
+ *
+ * Pins a search result to a plan as a vendor
+ */
+export async function handleAddVendor(id: string, request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+	try {
+		const body = (await request.json()) as Record<string, unknown>;
+		const { vendor: details, error } = validateNewVendor(body);
+		if (!details) {
+			return jsonResponse({ error }, 400);
+		}
+
+		const result = await getEventStore(env).addVendor(id, details);
+		if (!result) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		ctx.waitUntil(refreshSlackPlanMessage(result.plan, env));
+
+		return jsonResponse({ eventPlan: result.plan, vendor: result.vendor }, 201);
+	} catch (error) {
+		console.error('Error adding vendor:', error);
+		return jsonResponse({ error: 'Failed to add vendor' }, 500);
+	}
+}
+
+/**
+ * PATCH /api/events/:id/vendors/:vendorId
+ *
+ * Updates a vendor's category, quote, booking status or notes
+ */
+export async function handleUpdateVendor(
+	id: string,
+	vendorId: string,
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+): Promise<Response> {
+	try {
+		const body = (await request.json()) as Record<string, unknown>;
+		const { changes, error } = validateVendorChanges(body);
+		if (!changes) {
+			return jsonResponse({ error }, 400);
+		}
+
+		const result = await getEventStore(env).updateVendor(id, vendorId, changes);
+		if (!result) {
+			return jsonResponse({ error: 'Event or vendor not found' }, 404);
+		}
+		ctx.waitUntil(refreshSlackPlanMessage(result.plan, env));
+
+		return jsonResponse({ eventPlan: result.plan, vendor: result.vendor });
+	} catch (error) {
+		console.error('Error updating vendor:', error);
+		return jsonResponse({ error: 'Failed to update vendor' }, 500);
+	}
+}
+
+/**
+ * DELETE /api/events/:id/vendors/:vendorId
+ */
+export async function handleRemoveVendor(id: string, vendorId: string, env: Env, ctx: ExecutionContext): Promise<Response> {
+	try {
+		const eventPlan = await getEventStore(env).removeVendor(id, vendorId);
+		if (!eventPlan) {
+			return jsonResponse({ error: 'Event or vendor not found' }, 404);
+		}
+		ctx.waitUntil(refreshSlackPlanMessage(eventPlan, env));
+
+		return jsonResponse({ eventPlan });
+	} catch (error) {
+		console.error('Error removing vendor:', error);
+		return jsonResponse({ error: 'Failed to remove vendor' }, 500);
+	}
+}
+
+/**
+ * Re-renders a plan's Slack message, if it has one, so RSVPs and task
+ * progress show up there
+ */
+export async function refreshSlackPlanMessage(plan: EventPlan, env: Env): Promise<void> {
+	if (!plan.slackChannelId || !plan.slackMessageTs) {
+		return;
+	}
+
+	const token = await getSlackToken(env, plan.slackTeamId);
+	if (!token) {
+		console.log('No Slack token for plan:', plan.id);
+		return;
+	}
+
+	const result = await new SlackService(token, env.PUBLIC_URL).refreshEventPlan(plan);
+	if (!result.ok) {
+		console.error('Failed to refresh Slack plan message:', result.error);
+	}
+}
+
+/**
+ * GET /api/events/:id/versions
+ *
+ * Lists stored versions, each with its diff from the previous version
+ */
+export async function handleListEventVersions(id: string, env: Env): Promise<Response> {
+	try {
+		const versions = await getEventStore(env).listVersions(id);
+		if (versions.length === 0) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+
+		return jsonResponse({
+			versions: versions.map((entry, index) => ({
+				...entry,
+				diff: index > 0 ? diffPlans(versions[index - 1].plan, entry.plan) : [],
+			})),
+		});
+	} catch (error) {
+		console.error('Error listing event versions:', error);
+		return jsonResponse({ error: 'Failed to list event versions' }, 500);
+	}
+}
+
+/**
+ * POST /api/events/:id/rollback
+ */
+export async function handleRollbackEvent(id: string, request: Request, env: Env): Promise<Response> {
+	try {
+		const { version } = (await request.json()) as { version?: number };
+		if (typeof version !== 'number') {
+			return jsonResponse({ error: 'version is required' }, 400);
+		}
+
+		const eventPlan = await getEventStore(env).rollback(id, version);
+		if (!eventPlan) {
+			return jsonResponse({ error: 'Event or version not found' }, 404);
+		}
+		return jsonResponse({ eventPlan });
+	} catch (error) {
+		console.error('Error rolling back event:', error);
+		return jsonResponse({ error: 'Failed to roll back event' }, 500);
+	}
+}
+
+/**
+ * POST /api/events/:id/status
+ *
+ * Body: { status, reason? }. Moves the plan to a new status if the
+ * lifecycle allows it; otherwise responds 409.
+ */
+export async function handleChangeStatus(
+	id: string,
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+	user: AuthUser,
+): Promise<Response> {
+	try {
+		const body = (await request.json()) as Record<string, unknown>;
+		if (!isEventStatus(body.status)) {
+			return jsonResponse({ error: '"status" must be one of draft, in_review, approved, published, completed or cancelled' }, 400);
+		}
+		if (body.reason !== undefined && typeof body.reason !== 'string') {
+			return jsonResponse({ error: '"reason" must be a string' }, 400);
+		}
+
+		if (!(await getEventStore(env).getPlan(id))) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+
+		const reason = body.reason?.trim() || undefined;
+		const { plan, transition } = await transitionPlanStatus(env, id, body.status, webActor(user), { reason });
+		ctx.waitUntil(notifyStatusChange(plan, transition, env));
+
+		return jsonResponse({ eventPlan: plan, transition });
+	} catch (error) {
+		if (error instanceof PlanStatusError) {
+			return jsonResponse({ error: error.message }, 409);
+		}
+		console.error('Error changing event status:', error);
+		return jsonResponse({ error: 'Failed to change event status' }, 500);
+	}
+}
+
+/**
+ * GET /api/events/:id/history
+ *
+ * The plan's status changes, oldest first
+ */
+export async function handleGetStatusHistory(id: string, env: Env): Promise<Response> {
+	try {
+		const store = getEventStore(env);
+		const eventPlan = await store.getPlan(id);
+		if (!eventPlan) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+
+		return jsonResponse({ status: eventPlan.status, transitions: await store.listTransitions(id) });
+	} catch (error) {
+		console.error('Error fetching event history:', error);
+		return jsonResponse({ error: 'Failed to fetch event history' }, 500);
+	}
+}
+
+/**
+ * Handles event approval and Slack posting for a stored plan. Approval
+ * moves the plan through review to approved, and to published once it is
+ * posted to Slack; discarding cancels it. The app joins a public channel
+ * it is not in yet before posting.
  */
 export async function handleEventApproval(
 	request: Request,
 	env: Env,
+	ctx: ExecutionContext,
+	user: AuthUser,
 ): Promise<Response> {
 	try {
-		const { eventPlan, slackChannelId, approved } = (await request.json()) as {
-			eventPlan: EventPlan;
+		const body = (await request.json()) as Record<string, unknown>;
+		const { eventId, slackChannelId, slackTeamId, approved } = body as {
+			eventId: string;
 			slackChannelId?: string;
+			/** Workspace to post to; defaults to the plan's workspace */
+			slackTeamId?: string;
 			approved: boolean;
 		};
 
+		if (!eventId) {
+			return jsonResponse({ success: false, error: 'eventId is required' }, 400);
+		}
+
+		const stored = await getEventStore(env).getPlan(eventId);
+		if (!stored || !canAccessPlan(user, stored)) {
+			return jsonResponse({ success: false, error: 'Event not found' }, 404);
+		}
+
+		const actor = webActor(user);
+
 		if (!approved) {
-			return new Response(JSON.stringify({ 
-				success: true, 
-				message: 'Event plan discarded' 
-			}), {
-				headers: { 'Content-Type': 'application/json' },
+			const { plan, transition } = await transitionPlanStatus(env, eventId, 'cancelled', actor, {
+				reason: 'Discarded during review',
+			});
+			ctx.waitUntil(notifyStatusChange(plan, transition, env));
+			return jsonResponse({
+				success: true,
+				message: 'Event plan discarded',
+				eventPlan: plan
 			});
 		}
 
-		// Update event status
-		eventPlan.status = 'approved';
-		eventPlan.updatedAt = new Date().toISOString();
-		
-		// If Slack channel provided, post to Slack
-		if (slackChannelId && env.SLACK_BOT_TOKEN) {
-			eventPlan.slackChannelId = slackChannelId;
-			
-			const slackService = new SlackService(env.SLACK_BOT_TOKEN);
-			const result = await slackService.postEventPlan(eventPlan);
-			
-			if (result.ok) {
-				eventPlan.status = 'sent_to_slack';
-				eventPlan.updatedAt = new Date().toISOString();
-				
-				return new Response(JSON.stringify({ 
-					success: true, 
-					message: 'Event plan approved and sent to Slack!',
-					eventPlan: eventPlan
-				}), {
-					headers: { 'Content-Type': 'application/json' },
-				});
-			} else {
-				return new Response(JSON.stringify({ 
-					success: false, 
-					error: `Failed to post to Slack: ${result.error}`,
-					eventPlan: eventPlan
-				}), {
-					status: 400,
-					headers: { 'Content-Type': 'application/json' },
-				});
-			}
+		if (!slackChannelId) {
+			return jsonResponse({
+				success: true,
+				message: 'Event plan approved!',
+				eventPlan: await approvePlan(env, stored, actor)
+			});
 		}
 
-		return new Response(JSON.stringify({ 
-			success: true, 
-			message: 'Event plan approved!',
+		// The channel is checked before approving, so a refused post leaves the plan as it was
+		const teamId = slackTeamId ?? stored.slackTeamId;
+		const channelError = await authorizeSlackChannel(env, user, slackChannelId, teamId);
+		if (channelError) {
+			return jsonResponse({ success: false, error: channelError }, 403);
+		}
+
+		const token = await getSlackToken(env, teamId);
+		if (!token) {
+			return jsonResponse({ success: false, error: 'Slack is not connected for this workspace' }, 400);
+		}
+		const slackService = new SlackService(token, env.PUBLIC_URL ?? new URL(request.url).origin);
+		const { channelId, error: joinError } = await ensureBotInChannel(env, slackService, teamId, slackChannelId);
+		if (!channelId) {
+			return jsonResponse({ success: false, error: `Cannot post to ${slackChannelId}: ${joinError}` }, 400);
+		}
+
+		let eventPlan = await approvePlan(env, stored, actor);
+
+		// Posted as it will look once published
+		const result = await slackService.postEventPlan({ ...eventPlan, slackChannelId: channelId, status: 'published' });
+		if (!result.ok) {
+			return jsonResponse({
+				success: false,
+				error: `Failed to post to Slack: ${describeSlackError(result.error)}`,
+				eventPlan: eventPlan
+			}, 400);
+		}
+
+		eventPlan = (await transitionPlanStatus(env, eventId, 'published', actor, {
+			changes: {
+				slackChannelId: channelId,
+				slackTeamId: teamId,
+				slackMessageTs: result.ts,
+				// The plan message starts its conversation thread
+				slackThreadTs: result.ts,
+			},
+		})).plan;
+
+		return jsonResponse({
+			success: true,
+			message: 'Event plan approved and sent to Slack!',
 			eventPlan: eventPlan
-		}), {
-			headers: { 'Content-Type': 'application/json' },
 		});
 	} catch (error) {
+		if (error instanceof PlanStatusError) {
+			return jsonResponse({ success: false, error: error.message }, 409);
+		}
 		console.error('Error handling event approval:', error);
-		return new Response(
-			JSON.stringify({ error: 'Failed to process event approval' }),
-			{
-				status: 500,
-				headers: { 'content-type': 'application/json' },
-			},
-		);
+		return jsonResponse({ error: 'Failed to process event approval' }, 500);
 	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,101 @@
+/**
+ * RSVP Handler
+ *
+ * Backs the shareable RSVP page (public/rsvp.html). Anyone with the link
+ * can see the event details and headcount and answer; the guest list
+ * itself is not exposed. Answers also refresh the plan's Slack message.
+ */
+import { Env, EventPlan } from '../types';
+import { getEventStore } from '../event-store';
+import { summarizeRsvps, validateRsvpResponse, describeHeadcount } from '../guests';
+import { refreshSlackPlanMessage } from './events';
+import { isConfirmed, describeStatus } from '../plan-status';
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
+
+/**
+ * The part of a plan shown to guests
+ */
+function publicEventDetails(plan: EventPlan) {
+	const { going, maybe, declined, invited, headcount } = summarizeRsvps(plan.guests);
+	return {
+		id: plan.id,
+		title: plan.title,
+		date: plan.date,
+		time: plan.time,
+		timeZone: plan.timeZone,
+		venue: plan.venue,
+		description: plan.description,
+		rsvps: { going, maybe, declined, invited, headcount },
+		headcount: describeHeadcount(plan.guests),
+	};
+}
+
+/**
+ * GET /api/events/:id/rsvp
+ */
+export async function handleGetRsvp(id: string, env: Env): Promise<Response> {
+	try {
+		const eventPlan = await getEventStore(env).getPlan(id);
+		if (!eventPlan) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		return jsonResponse({ event: publicEventDetails(eventPlan) });
+	} catch (error) {
+		console.error('Error fetching RSVP details:', error);
+		return jsonResponse({ error: 'Failed to fetch event' }, 500);
+	}
+}
+
+/**
+ * POST /api/events/:id/rsvp
+ *
+ * Body: { name, email?, status: "going" | "maybe" | "declined", dietaryNotes?, plusOnes?, guestId? }.
+ * The returned guest id lets the page update the same RSVP later; without
+ * it, the answer is added as a new guest. Only approved and published
+ * events take RSVPs.
+ */
+export async function handleSubmitRsvp(
+	id: string,
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+): Promise<Response> {
+	try {
+		const body = (await request.json()) as Record<string, unknown>;
+		const { response, error } = validateRsvpResponse(body);
+		if (!response) {
+			return jsonResponse({ error }, 400);
+		}
+
+		const store = getEventStore(env);
+		const eventPlan = await store.getPlan(id);
+		if (!eventPlan) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		if (!isConfirmed(eventPlan.status)) {
+			return jsonResponse({ error: `This event is ${describeStatus(eventPlan.status).toLowerCase()} and is not taking RSVPs` }, 409);
+		}
+
+		const result = await store.recordRsvp(id, { ...response, matchByIdOnly: true });
+		if (!result) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+
+		// Keeps the headcount in the Slack message current
+		ctx.waitUntil(refreshSlackPlanMessage(result.plan, env));
+
+		return jsonResponse({
+			guest: { id: result.guest.id, name: result.guest.name, rsvp: result.guest.rsvp },
+			event: publicEventDetails(result.plan),
+		});
+	} catch (error) {
+		console.error('Error recording RSVP:', error);
+		return jsonResponse({ error: 'Failed to record RSVP' }, 500);
+	}
+}
@@ -4,6 +4,7 @@
  * Uses AI to generate compact search queries from user messages or AI responses
  */
 import { Env } from '../types';
+import { enforceRateLimit } from '../rate-limiter';
 
 const MODEL_ID = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
 
@@ -35,6 +36,11 @@ export async function handleSearchQueryGeneration(request: Request, env: Env): P
 			return new Response('Method not allowed', { status: 405 });
 		}
 
+		const limited = await enforceRateLimit(request, env, 'search-query');
+		if (limited) {
+			return limited;
+		}
+
 		const { message } = await request.json() as { message: string };
 
 		if (!message) {
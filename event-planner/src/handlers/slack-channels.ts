@@ -0,0 +1,57 @@
+/**
+ * Slack Channels Handler
+ *
+ * Backs the channel picker on the web app's approval card. Admins see
+ * every channel the app can see; other users only the channels they are
+ * a member of, since those are the ones they may post plans to.
+ */
+import { Env, AuthUser } from '../types';
+import { SlackService } from '../slack';
+import { getSlackToken } from '../slack-installations';
+import { listWorkspaceChannels, describeSlackError } from '../slack-channels';
+import { listUserSlackChannels } from '../auth';
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
+
+/**
+ * GET /api/slack/channels
+ *
+ * Query: `team` picks the workspace (defaults to SLACK_BOT_TOKEN's) and
+ * `refresh=1` skips the cache, e.g. right after creating a channel.
+ * Each channel has an id, name, isPrivate and isMember (whether the app
+ * is in it already).
+ */
+export async function handleListSlackChannels(request: Request, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const url = new URL(request.url);
+		const teamId = url.searchParams.get('team') || undefined;
+		const token = await getSlackToken(env, teamId);
+		if (!token) {
+			return jsonResponse({ error: 'Slack is not connected for this workspace' }, 404);
+		}
+
+		const slack = new SlackService(token);
+		const { channels, error } = await listWorkspaceChannels(env, slack, teamId, url.searchParams.get('refresh') === '1');
+		if (!channels) {
+			return jsonResponse({ error: `Could not list Slack channels: ${describeSlackError(error)}` }, 502);
+		}
+		if (user.isAdmin) {
+			return jsonResponse({ channels });
+		}
+
+		const membership = await listUserSlackChannels(slack, user);
+		if (!membership.channels) {
+			return jsonResponse({ error: membership.error }, 403);
+		}
+		const memberOf = new Set(membership.channels.map((channel) => channel.id));
+		return jsonResponse({ channels: channels.filter((channel) => memberOf.has(channel.id)) });
+	} catch (error) {
+		console.error('Error listing Slack channels:', error);
+		return jsonResponse({ error: 'Failed to list Slack channels' }, 500);
+	}
+}
@@ -0,0 +1,305 @@
+/**
+ * Slack Slash Command Handler
+ *
+ * Serves the /plan command, which opens a modal for structured event
+ * intake. Submitted details are sent to the planning model and the
+ * resulting plan is posted to the channel the command was used in.
+ */
+import { Env, EventPlan, ChatMessage } from '../types';
+import { verifySlackRequest, SlackService } from '../slack';
+import { getEventStore } from '../event-store';
+import { getSlackToken } from '../slack-installations';
+import { extractEventPlan, normalizeTime } from '../plan-extraction';
+import { placeholderGuests } from '../guests';
+import { transitionPlanStatus } from '../plan-status';
+import { SYSTEM_PROMPT } from './slack';
+
+const MODEL_ID = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+/**
+ * callback_id of the /plan modal, used to route its view_submission
+ */
+export const PLAN_MODAL_CALLBACK_ID = 'plan_event_modal';
+
+// Each input block holds a single element whose action_id matches its block_id
+const FIELDS = {
+	title: 'title',
+	date: 'date',
+	time: 'time',
+	guests: 'guest_count',
+	budget: 'budget',
+	venue: 'venue',
+	notes: 'notes',
+} as const;
+
+/**
+ * Subset of the Slack view_submission payload used here
+ */
+export interface ViewSubmissionPayload {
+	type: 'view_submission';
+	user: { id: string };
+	team?: { id: string };
+	view: {
+		callback_id: string;
+		private_metadata?: string;
+		state: {
+			values: Record<string, Record<string, {
+				value?: string | null;
+				selected_date?: string | null;
+				selected_time?: string | null;
+			}>>;
+		};
+	};
+}
+
+/**
+ * Details entered in the /plan modal
+ */
+interface PlanIntake {
+	title: string;
+	date: string;
+	time?: string;
+	guestCount?: number;
+	budget?: number;
+	venue?: string;
+	notes?: string;
+}
+
+function inputBlock(blockId: string, label: string, element: object, optional: boolean = false) {
+	return {
+		type: 'input',
+		block_id: blockId,
+		optional,
+		label: { type: 'plain_text', text: label },
+		element: { ...element, action_id: blockId },
+	};
+}
+
+/**
+ * Builds the /plan modal. The originating channel travels in private_metadata.
+ */
+function buildPlanModal(channelId: string, initialTitle: string) {
+	return {
+		type: 'modal',
+		callback_id: PLAN_MODAL_CALLBACK_ID,
+		private_metadata: JSON.stringify({ channelId }),
+		title: { type: 'plain_text', text: 'Plan an event' },
+		submit: { type: 'plain_text', text: 'Create plan' },
+		close: { type: 'plain_text', text: 'Cancel' },
+		blocks: [
+			inputBlock(FIELDS.title, 'Title', {
+				type: 'plain_text_input',
+				...(initialTitle ? { initial_value: initialTitle } : {}),
+			}),
+			inputBlock(FIELDS.date, 'Date', { type: 'datepicker' }),
+			inputBlock(FIELDS.time, 'Start time', { type: 'timepicker' }, true),
+			inputBlock(FIELDS.guests, 'Guest count', { type: 'number_input', is_decimal_allowed: false, min_value: '1' }, true),
+			inputBlock(FIELDS.budget, 'Budget', { type: 'number_input', is_decimal_allowed: true, min_value: '0' }, true),
+			inputBlock(FIELDS.venue, 'Venue', { type: 'plain_text_input' }, true),
+			inputBlock(FIELDS.notes, 'Anything else?', { type: 'plain_text_input', multiline: true }, true),
+		],
+	};
+}
+
+/**
+ * Handles the /plan slash command by opening the intake modal
+ */
+export async function handleSlackCommand(
+	request: Request,
+	env: Env,
+): Promise<Response> {
+	try {
+		const body = await request.text();
+
+		if (!(await verifySlackRequest(request, body, env.SLACK_SIGNING_SECRET))) {
+			return new Response('Invalid signature', { status: 401 });
+		}
+
+		const params = new URLSearchParams(body);
+		const command = params.get('command');
+		const triggerId = params.get('trigger_id');
+		const channelId = params.get('channel_id');
+		const token = await getSlackToken(env, params.get('team_id') ?? undefined);
+
+		console.log('Slack command received:', command);
+
+		if (command !== '/plan') {
+			return new Response(`Sorry, I don't know the ${command} command.`);
+		}
+
+		if (!triggerId || !channelId || !token) {
+			return new Response('Sorry, I could not open the planning form.');
+		}
+
+		// The trigger id expires after 3 seconds, so the modal is opened before responding
+		const slackService = new SlackService(token);
+		const result = await slackService.openView(
+			triggerId,
+			buildPlanModal(channelId, params.get('text')?.trim() ?? ''),
+		);
+
+		if (!result.ok) {
+			console.error('Failed to open plan modal:', result.error);
+			return new Response(`Sorry, I could not open the planning form (${result.error}).`);
+		}
+
+		return new Response('');
+	} catch (error) {
+		console.error('Error handling Slack command:', error);
+		return new Response('Error', { status: 500 });
+	}
+}
+
+/**
+ * Reads the submitted modal values
+ */
+function readPlanIntake(payload: ViewSubmissionPayload): PlanIntake {
+	const values = payload.view.state.values;
+	const field = (id: string) => values[id]?.[id];
+	const text = (id: string) => field(id)?.value?.trim() || undefined;
+	const number = (id: string) => {
+		const value = text(id);
+		return value !== undefined ? Number(value) : undefined;
+	};
+
+	return {
+		title: text(FIELDS.title) ?? '',
+		date: field(FIELDS.date)?.selected_date ?? '',
+		time: normalizeTime(field(FIELDS.time)?.selected_time) ?? undefined,
+		guestCount: number(FIELDS.guests),
+		budget: number(FIELDS.budget),
+		venue: text(FIELDS.venue),
+		notes: text(FIELDS.notes),
+	};
+}
+
+function describeIntake(intake: PlanIntake): string {
+	return [
+		`Title: ${intake.title}`,
+		`Date: ${intake.date}`,
+		intake.time && `Start time: ${intake.time}`,
+		intake.guestCount !== undefined && `Guest count: ${intake.guestCount}`,
+		intake.budget !== undefined && `Budget: ${intake.budget}`,
+		intake.venue && `Venue: ${intake.venue}`,
+		intake.notes && `Notes: ${intake.notes}`,
+	]
+		.filter(Boolean)
+		.join('\n');
+}
+
+/**
+ * Handles submission of the /plan modal. Returns the response body for
+ * Slack: validation errors keep the modal open, anything else closes it
+ * while the plan is generated in the background.
+ */
+export function handlePlanModalSubmission(
+	payload: ViewSubmissionPayload,
+	env: Env,
+	ctx: ExecutionContext,
+): Response {
+	const intake = readPlanIntake(payload);
+
+	if (!intake.title || !intake.date) {
+		return new Response(JSON.stringify({
+			response_action: 'errors',
+			errors: {
+				...(!intake.title ? { [FIELDS.title]: 'Please enter a title' } : {}),
+				...(!intake.date ? { [FIELDS.date]: 'Please pick a date' } : {}),
+			},
+		}), {
+			headers: { 'Content-Type': 'application/json' },
+		});
+	}
+
+	const { channelId } = JSON.parse(payload.view.private_metadata || '{}') as { channelId?: string };
+	ctx.waitUntil(createPlanFromIntake(intake, channelId, payload.user.id, payload.team?.id, env));
+
+	return new Response('');
+}
+
+/**
+ * Sends the intake to the planning model and posts the resulting plan.
+ * Values the user entered always win over the model's suggestions.
+ */
+async function createPlanFromIntake(
+	intake: PlanIntake,
+	channelId: string | undefined,
+	userId: string,
+	teamId: string | undefined,
+	env: Env,
+) {
+	const token = await getSlackToken(env, teamId);
+	if (!token) {
+		console.log('No Slack token for team:', teamId);
+		return;
+	}
+
+	const slackService = new SlackService(token, env.PUBLIC_URL);
+	// Failures are reported in a DM when the channel is unknown
+	const channel = channelId ?? userId;
+
+	try {
+		const messages: ChatMessage[] = [
+			{ role: 'system', content: SYSTEM_PROMPT },
+			{
+				role: 'user',
+				content: `Create a complete event plan with these details. Respond with the create_event JSON.\n\n${describeIntake(intake)}`,
+			},
+		];
+
+		const response = (await env.AI.run(MODEL_ID, { messages, max_tokens: 1000 })) as {
+			response: string | object;
+		};
+		const extraction = await extractEventPlan(env, messages, response.response);
+
+		if (!extraction.event) {
+			await slackService.postMessage({ channel, text: extraction.response });
+			return;
+		}
+
+		const guests = intake.guestCount !== undefined && extraction.event.guests.length !== intake.guestCount
+			? placeholderGuests(intake.guestCount)
+			: extraction.event.guests;
+
+		const now = new Date().toISOString();
+		const eventPlan: EventPlan = {
+			...extraction.event,
+			id: crypto.randomUUID(),
+			title: intake.title,
+			date: intake.date,
+			time: intake.time ?? extraction.event.time,
+			budget: intake.budget ?? extraction.event.budget,
+			venue: intake.venue ?? extraction.event.venue,
+			guests,
+			status: 'draft',
+			slackChannelId: channel,
+			slackTeamId: teamId,
+			createdAt: now,
+			updatedAt: now,
+		};
+
+		const store = getEventStore(env);
+		await store.savePlan(eventPlan);
+
+		const result = await slackService.postEventPlan({ ...eventPlan, status: 'in_review' });
+		if (result.ok) {
+			// The plan message starts its conversation thread, where the channel reviews it
+			await transitionPlanStatus(env, eventPlan.id, 'in_review', { source: 'slack', userId }, {
+				reason: 'Posted in Slack for review',
+				changes: { slackMessageTs: result.ts, slackThreadTs: result.ts },
+			});
+		} else {
+			console.error('Failed to post plan from /plan:', result.error);
+			await slackService.postMessage({
+				channel: userId,
+				text: `I created "${eventPlan.title}" but couldn't post it to <#${channel}> (${result.error}). Try inviting me to the channel.`,
+			});
+		}
+	} catch (error) {
+		console.error('Error creating plan from /plan intake:', error);
+		await slackService.postMessage({
+			channel: userId,
+			text: 'Sorry, I ran into a problem creating your event plan. Please try /plan again.',
+		});
+	}
+}
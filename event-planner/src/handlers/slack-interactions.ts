@@ -0,0 +1,292 @@
+/**
+ * Slack Interactions Handler
+ *
+ * Handles block_actions payloads from the Approve / Request changes /
+ * Discard buttons on plans under review, the task checkboxes, RSVP and
+ * Mark completed / Cancel event buttons on approved ones, and submissions
+ * of the /plan modal
+ */
+import { Env, EventPlan, SlackMessage, RsvpStatus, StatusActor } from '../types';
+import {
+	verifySlackRequest,
+	SlackService,
+	PLAN_ACTIONS,
+	RSVP_ACTIONS,
+	TASKS_BLOCK_PREFIX,
+	TASK_ACTION_PREFIX,
+} from '../slack';
+import { getEventStore } from '../event-store';
+import { getSlackToken } from '../slack-installations';
+import { TaskChanges } from '../tasks';
+import {
+	approvePlan,
+	transitionPlanStatus,
+	notifyStatusChange,
+	isUnderReview,
+	isClosed,
+	describeStatus,
+	PlanStatusError,
+} from '../plan-status';
+import { handlePlanModalSubmission, PLAN_MODAL_CALLBACK_ID, ViewSubmissionPayload } from './slack-commands';
+
+/**
+ * Subset of the Slack block_actions payload used here
+ */
+interface BlockActionsPayload {
+	type: 'block_actions';
+	user: { id: string; username?: string; name?: string };
+	team?: { id: string };
+	channel?: { id: string };
+	container?: { channel_id?: string; message_ts?: string };
+	message?: { ts: string };
+	actions: Array<{
+		action_id: string;
+		value?: string;
+		block_id?: string;
+		/** Set for checkboxes: every option checked after the change */
+		selected_options?: Array<{ value: string }>;
+	}>;
+}
+
+/**
+ * Message and user a button action came from
+ */
+interface ActionSource {
+	channel: string;
+	messageTs: string;
+	user: string;
+	teamId?: string;
+}
+
+/**
+ * Handles Slack interactivity requests. Slack expects an acknowledgement
+ * within 3 seconds, so the action itself runs after the response.
+ */
+export async function handleSlackInteraction(
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+): Promise<Response> {
+	try {
+		const body = await request.text();
+
+		if (!(await verifySlackRequest(request, body, env.SLACK_SIGNING_SECRET))) {
+			return new Response('Invalid signature', { status: 401 });
+		}
+
+		// Interactivity payloads arrive form-encoded as a single JSON field
+		const payloadText = new URLSearchParams(body).get('payload');
+		if (!payloadText) {
+			return new Response('Missing payload', { status: 400 });
+		}
+
+		const payload = JSON.parse(payloadText);
+		console.log('Slack interaction received:', payload.type);
+
+		if (payload.type === 'block_actions') {
+			ctx.waitUntil(handleBlockActions(payload as BlockActionsPayload, env));
+		}
+
+		if (payload.type === 'view_submission' && payload.view?.callback_id === PLAN_MODAL_CALLBACK_ID) {
+			return handlePlanModalSubmission(payload as ViewSubmissionPayload, env, ctx);
+		}
+
+		return new Response('');
+	} catch (error) {
+		console.error('Error handling Slack interaction:', error);
+		return new Response('Error', { status: 500 });
+	}
+}
+
+/**
+ * Whether an action came from the channel and workspace the plan was
+ * posted to. Plan ids travel in button values, so without this check
+ * anyone in another workspace with the app installed could act on any plan.
+ */
+function isPostedIn(eventPlan: EventPlan, channel: string, teamId: string | undefined): boolean {
+	return eventPlan.slackChannelId === channel && (!eventPlan.slackTeamId || eventPlan.slackTeamId === teamId);
+}
+
+/**
+ * Moves the plan through its status lifecycle, records an RSVP or task
+ * progress, and updates the original message in place
+ */
+async function handleBlockActions(payload: BlockActionsPayload, env: Env) {
+	const action = payload.actions[0];
+	const channel = payload.channel?.id ?? payload.container?.channel_id;
+	const messageTs = payload.container?.message_ts ?? payload.message?.ts;
+	const user = payload.user.id;
+	const teamId = payload.team?.id;
+	// Checkboxes have no value, so their block carries the plan id
+	const planId = action?.value
+		?? (action?.block_id?.startsWith(TASKS_BLOCK_PREFIX) ? action.block_id.slice(TASKS_BLOCK_PREFIX.length) : undefined);
+
+	if (!action || !planId || !channel || !messageTs) {
+		console.log('Ignoring incomplete block action');
+		return;
+	}
+
+	try {
+		const token = await getSlackToken(env, teamId);
+		if (!token) {
+			console.log('No Slack token for team:', teamId);
+			return;
+		}
+
+		const store = getEventStore(env);
+		const slackService = new SlackService(token, env.PUBLIC_URL);
+		const eventPlan = await store.getPlan(planId);
+		if (eventPlan && !isPostedIn(eventPlan, channel, teamId)) {
+			console.log(`Ignoring action on plan ${planId} from channel ${channel} it was not posted in`);
+			return;
+		}
+		const rsvp = rsvpStatus(action.action_id);
+
+		let message: SlackMessage;
+
+		if (!eventPlan) {
+			message = textMessage(channel, 'This event plan no longer exists.');
+		} else if (isClosed(eventPlan.status)) {
+			// Refresh the message so the buttons go away
+			message = slackService.formatEventMessage(eventPlan, `This event is already ${describeStatus(eventPlan.status).toLowerCase()}.`);
+		} else if (rsvp) {
+			message = await applyRsvpAction(rsvp, eventPlan, payload.user, slackService, env);
+		} else if (action.action_id.startsWith(TASK_ACTION_PREFIX)) {
+			const taskIds = action.action_id.slice(TASK_ACTION_PREFIX.length).split(',');
+			message = await applyTaskToggle(taskIds, action.selected_options ?? [], eventPlan, user, slackService, env);
+		} else {
+			message = await applyPlanAction(action.action_id, eventPlan, { channel, messageTs, user, teamId }, slackService, env);
+		}
+
+		const result = await slackService.updateMessage({ ...message, channel, ts: messageTs });
+		if (!result.ok) {
+			console.error('Failed to update Slack message:', result.error);
+		}
+	} catch (error) {
+		console.error('Error processing block action:', error);
+	}
+}
+
+/**
+ * Applies a lifecycle button action to a plan and returns the replacement
+ * message. Actions the plan's status does not allow (e.g. two people
+ * approving at once) leave it unchanged and say why.
+ */
+async function applyPlanAction(
+	actionId: string,
+	eventPlan: EventPlan,
+	source: ActionSource,
+	slackService: SlackService,
+	env: Env,
+): Promise<SlackMessage> {
+	const { channel, messageTs, user, teamId } = source;
+	const actor: StatusActor = { source: 'slack', userId: user };
+	const location = { slackChannelId: channel, slackTeamId: teamId, slackMessageTs: messageTs };
+	const reviewActions: string[] = [PLAN_ACTIONS.approve, PLAN_ACTIONS.requestChanges, PLAN_ACTIONS.discard];
+
+	if (reviewActions.includes(actionId) && !isUnderReview(eventPlan.status)) {
+		// Someone else already decided; refresh the message so the buttons go away
+		return slackService.formatEventMessage(eventPlan, `This plan has already been ${describeStatus(eventPlan.status).toLowerCase()}.`);
+	}
+
+	try {
+		switch (actionId) {
+			case PLAN_ACTIONS.approve: {
+				// The plan is already in the channel, so approval also publishes it
+				await approvePlan(env, eventPlan, actor);
+				const { plan } = await transitionPlanStatus(env, eventPlan.id, 'published', actor, { changes: location });
+				return slackService.formatEventMessage(plan, `✅ Approved by <@${user}>`);
+			}
+			case PLAN_ACTIONS.requestChanges: {
+				const updated = eventPlan.status === 'in_review'
+					? (await transitionPlanStatus(env, eventPlan.id, 'draft', actor, { reason: 'Changes requested', changes: location })).plan
+					: (await getEventStore(env).updatePlan(eventPlan.id, location))!;
+				return slackService.formatEventMessage(
+					updated,
+					`✏️ <@${user}> requested changes. Mention me in this plan's thread with what should change, e.g. "swap tasks 2 and 3".`,
+				);
+			}
+			case PLAN_ACTIONS.discard:
+				// Replacing the plan message is the channel's notice, so nothing else is posted
+				await transitionPlanStatus(env, eventPlan.id, 'cancelled', actor, { reason: 'Discarded during review' });
+				return textMessage(channel, `🗑️ The event plan "${eventPlan.title}" was discarded by <@${user}>.`);
+			case PLAN_ACTIONS.complete: {
+				const { plan } = await transitionPlanStatus(env, eventPlan.id, 'completed', actor);
+				return slackService.formatEventMessage(plan, `🏁 Marked completed by <@${user}>`);
+			}
+			case PLAN_ACTIONS.cancel: {
+				const { plan, transition } = await transitionPlanStatus(env, eventPlan.id, 'cancelled', actor, { changes: location });
+				await notifyStatusChange(plan, transition, env);
+				return slackService.formatEventMessage(plan, `🚫 Cancelled by <@${user}>`);
+			}
+			default:
+				console.log('Unknown Slack action:', actionId);
+				return slackService.formatEventMessage(eventPlan);
+		}
+	} catch (error) {
+		if (!(error instanceof PlanStatusError)) {
+			throw error;
+		}
+		const current = await getEventStore(env).getPlan(eventPlan.id);
+		return current ? slackService.formatEventMessage(current, `⚠️ ${error.message}`) : textMessage(channel, 'This event plan no longer exists.');
+	}
+}
+
+function rsvpStatus(actionId: string): RsvpStatus | undefined {
+	return (Object.keys(RSVP_ACTIONS) as (keyof typeof RSVP_ACTIONS)[]).find((status) => RSVP_ACTIONS[status] === actionId);
+}
+
+/**
+ * Records the clicking user's RSVP and returns the plan message with the
+ * updated headcount. The user is matched to a guest by Slack id, email or name.
+ */
+async function applyRsvpAction(
+	status: RsvpStatus,
+	eventPlan: EventPlan,
+	user: BlockActionsPayload['user'],
+	slackService: SlackService,
+	env: Env,
+): Promise<SlackMessage> {
+	const profile = await slackService.getUserProfile(user.id);
+	const result = await getEventStore(env).recordRsvp(eventPlan.id, {
+		status,
+		slackUserId: user.id,
+		name: profile?.name ?? user.name ?? user.username,
+		email: profile?.email?.toLowerCase(),
+	});
+
+	return slackService.formatEventMessage(result?.plan ?? eventPlan);
+}
+
+/**
+ * Marks the tasks of one checkbox group done or not done to match the
+ * checked options, and returns the refreshed plan message
+ */
+async function applyTaskToggle(
+	taskIds: string[],
+	selected: Array<{ value: string }>,
+	eventPlan: EventPlan,
+	user: string,
+	slackService: SlackService,
+	env: Env,
+): Promise<SlackMessage> {
+	const checked = new Set(selected.map((option) => option.value));
+	const updates: Record<string, TaskChanges> = {};
+	for (const task of eventPlan.timeline) {
+		const done = checked.has(task.id);
+		if (taskIds.includes(task.id) && task.done !== done) {
+			updates[task.id] = done ? { done, completedBy: user } : { done };
+		}
+	}
+
+	const updated = Object.keys(updates).length > 0 ? await getEventStore(env).updateTasks(eventPlan.id, updates) : eventPlan;
+	return slackService.formatEventMessage(updated ?? eventPlan);
+}
+
+function textMessage(channel: string, text: string): SlackMessage {
+	return {
+		channel,
+		text,
+		blocks: [{ type: 'section', text: { type: 'mrkdwn', text } }],
+	};
+}
@@ -0,0 +1,130 @@
+/**
+ * Slack OAuth Handler
+ *
+ * Serves the "Add to Slack" install flow so other workspaces can install
+ * the bot. /slack/install redirects to Slack's consent screen and
+ * /slack/oauth exchanges the returned code for that workspace's bot token.
+ */
+import { Env } from '../types';
+import { generateSlackOAuthURL, exchangeSlackOAuthCode } from '../slack';
+import { getSlackInstallations } from '../slack-installations';
+
+// Scopes used by the event, interaction and command handlers
+const SLACK_BOT_SCOPES = [
+	'app_mentions:read',
+	'channels:history',
+	'groups:history',
+	'chat:write',
+	'commands',
+	'im:write',
+	// Matches users who RSVP from Slack to guests by name and email
+	'users:read',
+	'users:read.email',
+	// Checks that web users post plans only to channels they are in
+	'channels:read',
+	'groups:read',
+	// Joins a public channel before posting a plan there
+	'channels:join',
+];
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * A small status page. The title and message are plain text, since they
+ * can include the workspace name.
+ */
+function htmlResponse(title: string, message: string, status: number = 200): Response {
+	const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="font-family: sans-serif; max-width: 480px; margin: 80px auto; text-align: center;">
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(message)}</p>
+</body>
+</html>`;
+	return new Response(html, {
+		status,
+		headers: { 'Content-Type': 'text/html; charset=utf-8' },
+	});
+}
+
+function redirectUri(request: Request): string {
+	return `${new URL(request.url).origin}/slack/oauth`;
+}
+
+/**
+ * GET /slack/install
+ */
+export async function handleSlackInstall(request: Request, env: Env): Promise<Response> {
+	if (!env.SLACK_CLIENT_ID || !env.SLACK_CLIENT_SECRET) {
+		return htmlResponse('Slack install unavailable', 'The Slack app credentials are not configured.', 500);
+	}
+
+	const state = await getSlackInstallations(env).createState();
+	return Response.redirect(
+		generateSlackOAuthURL(env.SLACK_CLIENT_ID, SLACK_BOT_SCOPES, redirectUri(request), state),
+		302,
+	);
+}
+
+/**
+ * GET /slack/oauth
+ */
+export async function handleSlackOAuthCallback(request: Request, env: Env): Promise<Response> {
+	try {
+		if (!env.SLACK_CLIENT_ID || !env.SLACK_CLIENT_SECRET) {
+			return htmlResponse('Slack install unavailable', 'The Slack app credentials are not configured.', 500);
+		}
+
+		const params = new URL(request.url).searchParams;
+		const code = params.get('code');
+		const state = params.get('state');
+
+		if (params.get('error')) {
+			return htmlResponse('Installation cancelled', 'The app was not added to your workspace.', 400);
+		}
+
+		const installations = getSlackInstallations(env);
+		if (!code || !state || !(await installations.consumeState(state))) {
+			return htmlResponse('Installation failed', 'This install link is invalid or has expired. Please start again.', 400);
+		}
+
+		const result = await exchangeSlackOAuthCode(
+			env.SLACK_CLIENT_ID,
+			env.SLACK_CLIENT_SECRET,
+			code,
+			redirectUri(request),
+		);
+
+		if (!result.ok || !result.access_token || !result.team?.id) {
+			console.error('Slack OAuth exchange failed:', result.error);
+			return htmlResponse('Installation failed', `Slack rejected the installation (${result.error ?? 'unknown error'}).`, 400);
+		}
+
+		await installations.saveInstallation({
+			teamId: result.team.id,
+			teamName: result.team.name,
+			botToken: result.access_token,
+			botUserId: result.bot_user_id,
+			scope: result.scope,
+			installedBy: result.authed_user?.id,
+			installedAt: new Date().toISOString(),
+		});
+
+		console.log('Slack app installed for team:', result.team.id);
+		return htmlResponse(
+			'Event Planner installed',
+			`The bot was added to ${result.team.name ?? 'your workspace'}. Invite it to a channel and mention it to start planning.`,
+		);
+	} catch (error) {
+		console.error('Error completing Slack OAuth:', error);
+		return htmlResponse('Installation failed', 'Something went wrong. Please try again.', 500);
+	}
+}
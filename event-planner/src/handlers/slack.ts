@@ -3,11 +3,20 @@
  * 
  * Handles incoming Slack webhook events and advanced message processing
  */
-import { Env } from '../types';
-import { verifySlackSignature, SlackService } from '../slack';
-
-// Re-use the same system prompt as chat handler
-const SYSTEM_PROMPT = `You are an expert AI event planning assistant. Your role is to help users plan events by:
+import { Env, EventPlan, ChatMessage } from '../types';
+import { verifySlackRequest, SlackService, PLAN_BLOCK_PREFIX } from '../slack';
+import { getEventStore } from '../event-store';
+import { extractEventPlan, normalizeBudget } from '../plan-extraction';
+import { editEventPlan, describePlanDiff, PlanEditError } from '../plan-editing';
+import { getChatSession, ChatSession, SessionContext } from '../chat-session';
+import { getSlackEventLog } from '../slack-event-log';
+import { getSlackInstallations, getSlackToken } from '../slack-installations';
+import { describeGuestsForModel } from '../guests';
+import { parseTaskCommand, TaskCommand, TaskChanges } from '../tasks';
+import { transitionPlanStatus } from '../plan-status';
+
+// Re-use the same system prompt as chat handler (also used by the /plan command)
+export const SYSTEM_PROMPT = `You are an expert AI event planning assistant. Your role is to help users plan events by:
 
 1. Extracting key details from user requests (event type, date, guest count, budget, venue preferences)
 2. Creating detailed event plans with timelines and suggestions
@@ -23,92 +32,102 @@ When creating an event plan, respond with this EXACT JSON format:
     "time": "HH:MM AM/PM (if mentioned)",
     "type": "Event type (birthday, wedding, corporate, etc.)",
     "guests": ["guest1", "guest2"] or [],
-    "timeline": ["task 1: description", "task 2: description"],
+    "timeline": [
+      { "title": "Book the venue", "dueDaysBefore": 30 },
+      { "title": "Send invitations", "dueDaysBefore": 21 },
+      { "title": "Confirm catering headcount", "dueDaysBefore": 3 }
+    ],
     "budget": 1000,
+    "currency": "USD",
+    "budgetItems": [
+      { "category": "venue", "description": "Venue rental", "estimated": 400 },
+      { "category": "catering", "description": "Food and drinks", "estimated": 450 },
+      { "category": "decor", "description": "Decorations", "estimated": 150 }
+    ],
     "venue": "Venue suggestion or description",
     "description": "Brief description of the event"
   },
   "response": "Your helpful response explaining the plan to the user"
 }
 
+Budget item categories are venue, catering, decor, entertainment, rentals, staff, travel, supplies and other. "budget" is the total spending limit and the items should add up to no more than it.
+
+When the event plan discussed in the thread has RSVPs, base catering quantities, venue capacity and budget suggestions on its headcount (guests going plus their plus-ones) rather than the number of invitations, and respect guests' dietary notes.
+
 For regular conversation without enough details for a complete plan, respond normally with helpful event planning advice and ask for missing information.
 
 Be friendly, practical, and focus on creating realistic, well-organized event plans.`;
 
 const MODEL_ID = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
 
+// Message subtypes that carry new user text; all others are ignored
+const HANDLED_MESSAGE_SUBTYPES = ['thread_broadcast', 'file_share'];
+
 /**
- * Handles Slack webhook events
+ * Handles Slack webhook events. Slack retries any delivery that is not
+ * acknowledged within three seconds, so events are claimed in the event
+ * log and processed after the response is sent.
  */
 export async function handleSlackWebhook(
 	request: Request,
 	env: Env,
+	ctx: ExecutionContext,
 ): Promise<Response> {
 	try {
 		const body = await request.text();
-		console.log('Slack webhook received raw body:', body);
-
-		// Verify Slack signature if signing secret is available
-		if (env.SLACK_SIGNING_SECRET) {
-			const timestamp = request.headers.get('X-Slack-Request-Timestamp') || '';
-			const signature = request.headers.get('X-Slack-Signature') || '';
-			
-			const isValid = await verifySlackSignature(
-				env.SLACK_SIGNING_SECRET,
-				timestamp,
-				body,
-				signature
-			);
-			
-			if (!isValid) {
-				return new Response('Invalid signature', { status: 401 });
-			}
+
+		// Verify Slack signature
+		if (!(await verifySlackRequest(request, body, env.SLACK_SIGNING_SECRET))) {
+			return new Response('Invalid signature', { status: 401 });
 		}
-		
-		// URL verification challenge
+
+		let payload: any;
 		try {
-			const payload = JSON.parse(body);
-			console.log('Parsed Slack payload:', JSON.stringify(payload, null, 2));
+			payload = JSON.parse(body);
+		} catch (e) {
+			console.log('Failed to parse Slack payload:', e);
+			return new Response('Invalid payload', { status: 400 });
+		}
 
-			if (payload.type === 'url_verification') {
-				console.log('URL verification challenge');
-				return new Response(payload.challenge);
-			}
+		// URL verification challenge
+		if (payload.type === 'url_verification') {
+			console.log('URL verification challenge');
+			return new Response(payload.challenge);
+		}
 
-			// Handle message events
-			if (payload.type === 'event_callback' && payload.event) {
-				const event = payload.event;
-				console.log('Event received type:', event.type);
-				console.log('Full event data:', JSON.stringify(event, null, 2));
-
-				// Log ALL message events (including bot messages)
-				if (event.type === 'message') {
-					console.log('MESSAGE RECEIVED:');
-					console.log('   - Channel:', event.channel);
-					console.log('   - User:', event.user);
-					console.log('   - Text:', event.text);
-					console.log('   - Timestamp:', event.ts);
-					console.log('   - Is Bot:', !!event.bot_id);
-					console.log('   - Subtype:', event.subtype);
-				}
+		if (payload.type !== 'event_callback' || !payload.event) {
+			return new Response('OK');
+		}
 
-				// Handle user messages (ignore bot's own messages)
-				if (event.type === 'message' && !event.bot_id && event.text) {
-					console.log('💬 Processing USER message from:', event.user);
-					await handleSlackMessage(event, env);
-				}
+		const event = payload.event;
+		const teamId: string | undefined = payload.team_id;
+		const retryNum = request.headers.get('X-Slack-Retry-Num');
+		console.log('Event received:', event.type, event.subtype ?? '', payload.event_id, retryNum ? `(retry ${retryNum})` : '');
 
-				// Handle app mentions
-				if (event.type === 'app_mention' && event.text) {
-					console.log('Bot mentioned:', event.text);
-					await handleSlackMention(event, env);
-				}
+		if (event.type === 'app_uninstalled' && teamId) {
+			console.log('Slack app uninstalled for team:', teamId);
+			ctx.waitUntil(getSlackInstallations(env).deleteInstallation(teamId));
+			return new Response('OK');
+		}
+
+		// Messages that mention the bot also arrive as app_mention events
+		const botUserId: string | undefined = payload.authorizations?.[0]?.user_id;
+		if (!shouldHandleEvent(event, botUserId)) {
+			return new Response('OK');
+		}
+
+		if (payload.event_id) {
+			const claimed = await getSlackEventLog(env).claim(
+				payload.event_id,
+				retryNum ? Number(retryNum) : undefined,
+			);
+			if (!claimed) {
+				console.log('Skipping duplicate Slack event:', payload.event_id);
+				return new Response('OK');
 			}
-			
-		} catch (e) {
-			console.log('Failed to parse Slack payload:', e);
 		}
-		
+
+		ctx.waitUntil(processSlackEvent(event, teamId, env));
 		return new Response('OK');
 	} catch (error) {
 		console.error('Error handling Slack webhook:', error);
@@ -116,11 +135,89 @@ export async function handleSlackWebhook(
 	}
 }
 
+/**
+ * Filters out events the bot must not answer: anything posted by a bot
+ * (including its own replies), edits, deletions and other message subtypes,
+ * and plain messages that mention the bot, which arrive again as app_mention
+ */
+function shouldHandleEvent(event: any, botUserId: string | undefined): boolean {
+	if (!event.text) {
+		return false;
+	}
+
+	if (event.bot_id || event.bot_profile || (botUserId && event.user === botUserId)) {
+		return false;
+	}
+
+	if (event.type === 'app_mention') {
+		return true;
+	}
+
+	if (event.type === 'message') {
+		// message_changed, message_deleted, bot_message, channel_join, ...
+		if (event.subtype && !HANDLED_MESSAGE_SUBTYPES.includes(event.subtype)) {
+			return false;
+		}
+		return !(botUserId && event.text.includes(`<@${botUserId}>`));
+	}
+
+	return false;
+}
+
+/**
+ * Runs the handler for an accepted event with the token of the
+ * workspace it came from
+ */
+async function processSlackEvent(event: any, teamId: string | undefined, env: Env) {
+	try {
+		const token = await getSlackToken(env, teamId);
+		if (!token) {
+			console.log('No Slack token for team:', teamId);
+			return;
+		}
+
+		const workspace: SlackWorkspace = { teamId, token };
+		if (event.type === 'app_mention') {
+			console.log('Bot mentioned:', event.text);
+			await handleSlackConversation(event, workspace, env);
+		} else {
+			console.log('💬 Processing USER message from:', event.user);
+			await handleSlackMessage(event, workspace, env);
+		}
+	} catch (error) {
+		console.error('Error processing Slack event:', error);
+	}
+}
+
+/**
+ * Workspace an event came from and the bot token to answer it with
+ */
+interface SlackWorkspace {
+	teamId?: string;
+	token: string;
+}
+
+/**
+ * Each Slack thread is its own conversation, keyed by the thread's root timestamp
+ */
+function slackThreadSessionId(channel: string, threadTs: string): string {
+	return `slack:${channel}:${threadTs}`;
+}
+
 /**
  * Handle regular messages in channels where bot is present
  */
-async function handleSlackMessage(event: any, env: Env) {
-	const { text, channel, user } = event;
+async function handleSlackMessage(event: any, workspace: SlackWorkspace, env: Env) {
+	const { text, channel, thread_ts } = event;
+
+	// Thread replies continue a conversation the bot is already part of
+	if (thread_ts) {
+		const context = await getChatSession(env, slackThreadSessionId(channel, thread_ts)).getContext();
+		if (context.messages.length > 0 || context.activePlanId) {
+			await handleSlackConversation(event, workspace, env);
+		}
+		return;
+	}
 
 	// Simple keyword detection for event planning
 	const eventKeywords = ['plan', 'event', 'party', 'meeting', 'celebration'];
@@ -130,46 +227,26 @@ async function handleSlackMessage(event: any, env: Env) {
 
 	if (hasEventKeyword) {
 		console.log('Event planning keywords detected');
-
-		// Process with AI
-		const messages = [
-			{ role: 'system', content: SYSTEM_PROMPT },
-			{ role: 'user', content: text },
-		];
-
-		try {
-			const response = await env.AI.run(MODEL_ID, {
-				messages,
-				max_tokens: 512,
-			});
-			const aiResponse = (response as { response: string }).response;
-
-			// Send AI response back to Slack
-			const slackService = new SlackService(env.SLACK_BOT_TOKEN!);
-			await slackService.postMessage({
-				channel: channel,
-				text: aiResponse,
-			});
-
-			console.log('AI response sent to Slack');
-		} catch (error) {
-			console.error('Error processing message:', error);
-		}
+		await handleSlackConversation(event, workspace, env);
 	}
 }
 
 /**
- * Handle direct mentions of the bot (@botname)
+ * Handles a message addressed to the bot. Replies go into the message's
+ * thread, and the thread's history and linked plan are used as context,
+ * so several plans can be discussed in one channel at the same time.
  */
-async function handleSlackMention(event: any, env: Env) {
-	const { text, channel, user, ts } = event;
+async function handleSlackConversation(event: any, workspace: SlackWorkspace, env: Env) {
+	const { text, channel, ts } = event;
+	const threadTs: string = event.thread_ts ?? ts;
+	const slackService = new SlackService(workspace.token, env.PUBLIC_URL);
 
 	// Remove the bot mention from the text
 	const cleanText = text.replace(/<@[A-Z0-9]+>/g, '').trim();
 
-	console.log('Processing mention:', cleanText);
+	console.log('Processing message in thread', threadTs, ':', cleanText);
 
-	// Check if this is a request to modify a recent event plan
+	// Check if this is a request to modify the thread's event plan
 	const isEventModification =
 		cleanText.toLowerCase().includes('swap') ||
 		cleanText.toLowerCase().includes('change') ||
@@ -178,67 +255,42 @@ async function handleSlackMention(event: any, env: Env) {
 		cleanText.toLowerCase().includes('move') ||
 		cleanText.toLowerCase().includes('history');
 
-	let messages: any[] = [];
+	try {
+		const session = getChatSession(env, slackThreadSessionId(channel, threadTs));
+		const context = await session.getContext();
+		const eventPlan = await findThreadPlan(env, workspace.token, session, context, channel, event.thread_ts);
+		console.log('Thread event plan found:', eventPlan ? 'YES' : 'NO');
+
+		// Task commands such as "done 3" or "assign 2 to @sam"; only the leading bot mention is dropped
+		const taskCommand = eventPlan && parseTaskCommand(text.replace(/^\s*<@[A-Z0-9]+>\s*/, ''));
+		if (taskCommand) {
+			const reply = await applySlackTaskCommand(taskCommand, eventPlan, event.user, channel, threadTs, slackService, env);
+			await session.addMessages([
+				{ role: 'user', content: cleanText },
+				{ role: 'assistant', content: reply },
+			]);
+			return;
+		}
 
-	if (isEventModification && env.SLACK_BOT_TOKEN) {
-		// Try to get recent channel context to understand what event they're referring to
-		console.log('Attempting to get channel context for modification request');
-		try {
-			const channelHistory = await getRecentChannelMessages(
-				channel,
-				env.SLACK_BOT_TOKEN
-			);
-			console.log('Channel history retrieved:', channelHistory.length, 'messages');
-
-			const recentEventPlan = findRecentEventPlan(channelHistory);
-			console.log('Recent event plan found:', recentEventPlan ? 'YES' : 'NO');
-
-			if (recentEventPlan) {
-				// Create a focused context for modification
-				const timelineText =
-					recentEventPlan.timeline
-						?.slice(0, 7)
-						.map((item: string, idx: number) => `${idx + 1}. ${item.replace(/^\d+\.\s*/, '')}`)
-						.join('\n') || 'No timeline available';
-
-				const focusedContext = `You are helping modify this event plan:
-
-Title: ${recentEventPlan.title}
-Current Timeline:
-${timelineText}
-
-The user wants to modify it. Be helpful and specific.`;
-
-				messages = [
-					{ role: 'system', content: focusedContext },
-					{ role: 'user', content: cleanText },
-				];
-			} else {
-				console.log('No recent event plan found in channel history');
-				messages = [
-					{ role: 'system', content: SYSTEM_PROMPT },
-					{
-						role: 'user',
-						content: `${cleanText} (Note: I don't see a recent event plan in this channel. Could you provide more context about what event you're referring to?)`,
-					},
-				];
-			}
-		} catch (error) {
-			console.log('Error getting channel context:', error);
-			messages = [
-				{ role: 'system', content: SYSTEM_PROMPT },
+		// Stored plans are edited with a structured, versioned patch
+		if (isEventModification && eventPlan) {
+			const reply = await applySlackPlanEdit(eventPlan, cleanText, channel, threadTs, slackService, env);
+			await session.addMessages([
 				{ role: 'user', content: cleanText },
-			];
+				{ role: 'assistant', content: reply },
+			]);
+			return;
 		}
-	} else {
-		// Regular event planning request
-		messages = [
-			{ role: 'system', content: SYSTEM_PROMPT },
-			{ role: 'user', content: cleanText },
+
+		const userContent = isEventModification && !eventPlan
+			? `${cleanText} (Note: I don't see an event plan in this thread. Could you provide more context about what event you're referring to?)`
+			: cleanText;
+		const messages: ChatMessage[] = [
+			{ role: 'system', content: buildThreadSystemPrompt(context.summary, eventPlan) },
+			...context.messages,
+			{ role: 'user', content: userContent },
 		];
-	}
 
-	try {
 		console.log('Sending to AI with messages:', JSON.stringify(messages, null, 2));
 
 		// Add timeout wrapper for AI call
@@ -251,51 +303,57 @@ The user wants to modify it. Be helpful and specific.`;
 		const response = await Promise.race([aiCall, timeoutPromise]);
 		console.log('AI request completed successfully');
 
-		let aiResponse = (response as { response: string }).response;
+		const aiResponse = (response as { response: string }).response;
 		console.log('AI Raw Response received:', aiResponse);
 
 		// Check if it's an event plan
-		let parsedResponse;
-		try {
-			if (typeof aiResponse === 'object') {
-				parsedResponse = aiResponse;
-			} else {
-				parsedResponse = JSON.parse(aiResponse);
-			}
-
-			if (parsedResponse.action === 'create_event' && parsedResponse.event) {
-				console.log('AI returned event plan - sending to Slack as rich message');
-
-				// Create event plan and send rich message
-				const eventPlan = {
-					id: crypto.randomUUID(),
-					...parsedResponse.event,
-					status: 'draft' as const,
-					slackChannelId: channel,
-					createdAt: new Date().toISOString(),
-					updatedAt: new Date().toISOString(),
-				};
-
-				const slackService = new SlackService(env.SLACK_BOT_TOKEN!);
-				const result = await slackService.postEventPlan(eventPlan);
-				console.log('Event plan sent to Slack, result:', result);
-				return;
+		const extraction = await extractEventPlan(env, messages, aiResponse);
+		await session.addMessages([
+			{ role: 'user', content: cleanText },
+			{ role: 'assistant', content: extraction.response },
+		]);
+
+		if (extraction.event) {
+			console.log('AI returned event plan - sending to Slack thread as rich message');
+
+			// Create event plan and send rich message
+			const newPlan: EventPlan = {
+				id: crypto.randomUUID(),
+				...extraction.event,
+				status: 'draft',
+				slackChannelId: channel,
+				slackTeamId: workspace.teamId,
+				slackThreadTs: threadTs,
+				createdAt: new Date().toISOString(),
+				updatedAt: new Date().toISOString(),
+			};
+			await getEventStore(env).savePlan(newPlan);
+			await session.setActivePlan(newPlan.id);
+
+			const result = await slackService.postEventPlan({ ...newPlan, status: 'in_review' });
+			console.log('Event plan sent to Slack, result:', result);
+
+			if (result.ok && result.ts) {
+				// The channel reviews the plan with the buttons on its message
+				await transitionPlanStatus(env, newPlan.id, 'in_review', { source: 'slack', userId: event.user }, {
+					reason: 'Posted in Slack for review',
+					changes: { slackMessageTs: result.ts },
+				});
 			}
-		} catch (e) {
-			console.log('Not a JSON event plan - sending as regular message');
+			return;
 		}
 
 		// Send regular AI response
-		console.log('Sending regular AI response to Slack:', aiResponse);
-		const slackService = new SlackService(env.SLACK_BOT_TOKEN!);
+		console.log('Sending regular AI response to Slack:', extraction.response);
 		const result = await slackService.postMessage({
 			channel: channel,
-			text: aiResponse,
+			text: extraction.response,
+			thread_ts: threadTs,
 		});
 
 		console.log('AI response sent to Slack, result:', result);
 	} catch (error) {
-		console.error('Error processing mention:', error);
+		console.error('Error processing Slack conversation:', error);
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
 		// Send error message to user
@@ -307,10 +365,10 @@ The user wants to modify it. Be helpful and specific.`;
 		}
 
 		try {
-			const slackService = new SlackService(env.SLACK_BOT_TOKEN!);
 			await slackService.postMessage({
 				channel: channel,
 				text: fallbackMessage,
+				thread_ts: threadTs,
 			});
 			console.log('Error message sent to user');
 		} catch (slackError) {
@@ -320,12 +378,140 @@ The user wants to modify it. Be helpful and specific.`;
 }
 
 /**
- * Get recent messages from a Slack channel to provide context
+ * Builds the system prompt for a thread, including its summary and plan
  */
-async function getRecentChannelMessages(channel: string, token: string) {
+function buildThreadSystemPrompt(summary: string | undefined, eventPlan: EventPlan | null): string {
+	let systemContent = SYSTEM_PROMPT;
+
+	if (summary) {
+		systemContent += `\n\nSummary of the earlier conversation in this thread:\n${summary}`;
+	}
+
+	if (eventPlan) {
+		systemContent += `\n\nEvent plan discussed in this thread (id: ${eventPlan.id}):\n${JSON.stringify(eventPlan)}\n${describeGuestsForModel(eventPlan.guests)}`;
+	}
+
+	return systemContent;
+}
+
+/**
+ * Returns the stored plan linked to a thread. Threads started from a plan
+ * posted elsewhere (web approval, /plan) are linked on first use by
+ * reading the plan id from the thread's messages.
+ */
+async function findThreadPlan(
+	env: Env,
+	token: string,
+	session: DurableObjectStub<ChatSession>,
+	context: SessionContext,
+	channel: string,
+	threadTs: string | undefined,
+): Promise<EventPlan | null> {
+	const store = getEventStore(env);
+
+	if (context.activePlanId) {
+		return await store.getPlan(context.activePlanId);
+	}
+
+	if (!threadTs) {
+		return null;
+	}
+
+	const threadMessages = await getThreadMessages(channel, threadTs, token);
+	const postedPlan = findRecentEventPlan(threadMessages);
+	const eventPlan = postedPlan?.id ? await store.getPlan(postedPlan.id) : null;
+
+	if (eventPlan) {
+		await session.setActivePlan(eventPlan.id);
+	}
+	return eventPlan;
+}
+
+/**
+ * Applies a message as an edit to the thread's plan, posts the changes
+ * into the thread and returns the reply for the conversation history
+ */
+async function applySlackPlanEdit(
+	eventPlan: EventPlan,
+	instruction: string,
+	channel: string,
+	threadTs: string,
+	slackService: SlackService,
+	env: Env,
+): Promise<string> {
 	try {
-		console.log('Fetching channel history for channel:', channel);
-		const url = `https://slack.com/api/conversations.history?channel=${channel}&limit=5`;
+		const { eventPlan: updated, patch, diff } = await editEventPlan(env, eventPlan.id, instruction);
+		const updateText = `${patch.summary} (version ${updated.version})\n${describePlanDiff(diff)}`;
+		await slackService.postEventUpdate(channel, updateText, updated, threadTs);
+		return updateText;
+	} catch (error) {
+		if (!(error instanceof PlanEditError)) {
+			throw error;
+		}
+
+		await slackService.postMessage({ channel, text: error.message, thread_ts: threadTs });
+		return error.message;
+	}
+}
+
+/**
+ * Marks a task done or assigns it from a thread command, posts a
+ * confirmation into the thread and refreshes the plan message. Returns
+ * the reply for the conversation history.
+ */
+async function applySlackTaskCommand(
+	command: TaskCommand,
+	eventPlan: EventPlan,
+	user: string,
+	channel: string,
+	threadTs: string,
+	slackService: SlackService,
+	env: Env,
+): Promise<string> {
+	const task = eventPlan.timeline[command.number - 1];
+	let reply: string;
+
+	if (!task) {
+		reply = `This plan has ${eventPlan.timeline.length} tasks, so there is no task ${command.number}.`;
+	} else {
+		let changes: TaskChanges;
+		if (command.action === 'complete') {
+			changes = command.done ? { done: true, completedBy: user } : { done: false };
+			reply = command.done
+				? `✅ Task ${command.number} "${task.title}" marked done by <@${user}>.`
+				: `↩️ Task ${command.number} "${task.title}" reopened.`;
+		} else if (!command.assignee) {
+			changes = { assignee: undefined };
+			reply = `Task ${command.number} "${task.title}" is now unassigned.`;
+		} else {
+			// "me" and Slack mentions are stored with the user id so the assignee gets pinged
+			const mention = command.assignee.match(/^<@([A-Z0-9]+)(?:\|[^>]*)?>$/);
+			const slackId = /^me$/i.test(command.assignee) ? user : mention?.[1];
+			const name = slackId ? (await slackService.getUserProfile(slackId))?.name ?? slackId : command.assignee;
+			changes = { assignee: name, assigneeSlackId: slackId };
+			reply = `👤 Task ${command.number} "${task.title}" assigned to ${slackId ? `<@${slackId}>` : name}.`;
+		}
+
+		const updated = await getEventStore(env).updateTasks(eventPlan.id, { [task.id]: changes });
+		if (updated) {
+			const result = await slackService.refreshEventPlan(updated);
+			if (!result.ok) {
+				console.log('Plan message not refreshed:', result.error);
+			}
+		}
+	}
+
+	await slackService.postMessage({ channel, text: reply, thread_ts: threadTs });
+	return reply;
+}
+
+/**
+ * Get the messages of a Slack thread, oldest first
+ */
+async function getThreadMessages(channel: string, threadTs: string, token: string) {
+	try {
+		console.log('Fetching thread replies for', channel, threadTs);
+		const url = `https://slack.com/api/conversations.replies?channel=${channel}&ts=${threadTs}&limit=50`;
 
 		const response = await fetch(url, {
 			headers: {
@@ -349,30 +535,21 @@ async function getRecentChannelMessages(channel: string, token: string) {
 		console.log('Retrieved', data.messages?.length || 0, 'messages');
 		return data.messages || [];
 	} catch (error) {
-		console.log('Error fetching channel history:', error);
+		console.log('Error fetching thread replies:', error);
 		return [];
 	}
 }
 
 /**
- * Find the most recent event plan in channel messages
+ * Find the event plan posted among Slack messages
  */
 function findRecentEventPlan(messages: any[]) {
 	console.log('Searching for event plans in', messages.length, 'messages');
 
 	for (const message of messages) {
-		// Check for event plan indicators in blocks or text
+		// Posted plans carry their id in the header's block_id, whatever their title
 		if (message.blocks) {
-			const hasEventHeader = message.blocks.some((block: any) => {
-				if (block.type === 'header') {
-					return (
-						block.text?.text?.includes('🎉') ||
-						block.text?.text?.includes('Party') ||
-						block.text?.text?.includes('Event')
-					);
-				}
-				return false;
-			});
+			const hasEventHeader = message.blocks.some((block: any) => block.block_id?.startsWith(PLAN_BLOCK_PREFIX));
 
 			if (hasEventHeader) {
 				console.log('Found event plan message! Extracting details...');
@@ -380,7 +557,7 @@ function findRecentEventPlan(messages: any[]) {
 			}
 		}
 
-		// Fallback: check text content
+		// Fallback for messages posted before plans carried their id
 		if (
 			message.text &&
 			(message.text.includes('Event Plan:') ||
@@ -404,10 +581,14 @@ function extractEventFromBlocks(blocks: any[]) {
 		const eventPlan: any = {};
 
 		// Extract title from header
-		const headerBlock = blocks.find((block) => block.type === 'header');
+		const headerBlock =
+			blocks.find((block) => block.block_id?.startsWith(PLAN_BLOCK_PREFIX)) ?? blocks.find((block) => block.type === 'header');
 		if (headerBlock?.text?.text) {
 			eventPlan.title = headerBlock.text.text.replace(/🎉\s*/, '').trim();
 		}
+		if (headerBlock?.block_id?.startsWith(PLAN_BLOCK_PREFIX)) {
+			eventPlan.id = headerBlock.block_id.slice(PLAN_BLOCK_PREFIX.length);
+		}
 
 		// Extract details from section fields
 		const sectionBlocks = blocks.filter((block) => block.type === 'section');
@@ -423,7 +604,8 @@ function extractEventFromBlocks(blocks: any[]) {
 					} else if (text.includes('Budget:')) {
 						const lines = text.split('\n');
 						const budgetText = lines[1]?.trim();
-						eventPlan.budget = budgetText?.replace(/[$,]/g, '');
+						// Amounts are formatted with a currency symbol, e.g. "€1,500"
+						eventPlan.budget = normalizeBudget(budgetText) ?? 0;
 					} else if (text.includes('Venue:')) {
 						const lines = text.split('\n');
 						eventPlan.venue = lines[1]?.trim();
@@ -0,0 +1,160 @@
+/**
+ * Venue Research Handler
+ *
+ * Starts venue research jobs for a plan, reports their progress and
+ * attaches a finished shortlist to the plan
+ */
+import { Env, VenueResearch, AuthUser } from '../types';
+import { getEventStore } from '../event-store';
+import { enforceRateLimit } from '../rate-limiter';
+import { buildVenueCriteria, buildVenueQuery, formatVenueTable } from '../venue-research';
+import { getVenueResearch, DEFAULT_MAX_CANDIDATES, MAX_CANDIDATES } from '../venue-research-agent';
+import { canAccessPlan } from '../auth';
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { 'Content-Type': 'application/json' },
+	});
+}
+
+/**
+ * A job is only visible to those who can see its plan
+ */
+async function canAccessResearch(env: Env, user: AuthUser, research: VenueResearch): Promise<boolean> {
+	const plan = await getEventStore(env).getPlan(research.planId);
+	return plan !== null && canAccessPlan(user, plan);
+}
+
+function withTable(research: VenueResearch): { research: VenueResearch; table: string | null } {
+	return {
+		research,
+		table: research.shortlist.length > 0 ? formatVenueTable(research.shortlist, research.criteria.currency) : null,
+	};
+}
+
+/**
+ * POST /api/events/:id/venue-research
+ *
+ * Starts researching venues for a plan. Takes an optional `location`
+ * (defaults to the plan's venue) and `maxCandidates`; responds 202 with
+ * the job, which runs in the background.
+ */
+export async function handleStartVenueResearch(planId: string, request: Request, env: Env): Promise<Response> {
+	try {
+		const body = (await request.json().catch(() => ({}))) as { location?: unknown; maxCandidates?: unknown };
+		if (body.location !== undefined && typeof body.location !== 'string') {
+			return jsonResponse({ error: '"location" must be a string' }, 400);
+		}
+		if (body.maxCandidates !== undefined && (!Number.isInteger(body.maxCandidates) || (body.maxCandidates as number) < 1)) {
+			return jsonResponse({ error: '"maxCandidates" must be a positive whole number' }, 400);
+		}
+
+		const plan = await getEventStore(env).getPlan(planId);
+		if (!plan) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+
+		const criteria = buildVenueCriteria(plan, body.location);
+		if (!criteria) {
+			return jsonResponse({ error: 'Give a location or set the plan\'s venue to research venues' }, 400);
+		}
+
+		const limited = await enforceRateLimit(request, env, 'venue-research');
+		if (limited) {
+			return limited;
+		}
+
+		const jobId = crypto.randomUUID();
+		const maxCandidates = Math.min((body.maxCandidates as number | undefined) ?? DEFAULT_MAX_CANDIDATES, MAX_CANDIDATES);
+		const research = await getVenueResearch(env, jobId).start(jobId, planId, criteria, buildVenueQuery(criteria), maxCandidates);
+		console.log(`Started venue research ${jobId} for plan ${planId}`);
+
+		return jsonResponse({ research }, 202);
+	} catch (error) {
+		console.error('Error starting venue research:', error);
+		return jsonResponse({ error: 'Failed to start venue research' }, 500);
+	}
+}
+
+/**
+ * GET /api/venue-research/:jobId
+ *
+ * The job's progress, with a markdown comparison table once it has a shortlist
+ */
+export async function handleGetVenueResearch(jobId: string, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const research = await getVenueResearch(env, jobId).getResearch();
+		if (!research || !(await canAccessResearch(env, user, research))) {
+			return jsonResponse({ error: 'Venue research not found' }, 404);
+		}
+		return jsonResponse(withTable(research));
+	} catch (error) {
+		console.error('Error getting venue research:', error);
+		return jsonResponse({ error: 'Failed to get venue research' }, 500);
+	}
+}
+
+/**
+ * POST /api/venue-research/:jobId/resume
+ *
+ * Restarts a failed job from the step it stopped on
+ */
+export async function handleResumeVenueResearch(jobId: string, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const job = getVenueResearch(env, jobId);
+		const existing = await job.getResearch();
+		if (!existing || !(await canAccessResearch(env, user, existing))) {
+			return jsonResponse({ error: 'Venue research not found' }, 404);
+		}
+
+		const research = await job.resume();
+		if (!research) {
+			return jsonResponse({ error: 'Venue research not found' }, 404);
+		}
+		return jsonResponse(withTable(research));
+	} catch (error) {
+		console.error('Error resuming venue research:', error);
+		return jsonResponse({ error: 'Failed to resume venue research' }, 500);
+	}
+}
+
+/**
+ * POST /api/venue-research/:jobId/attach
+ *
+ * Attaches the job's shortlist to its plan. An optional `urls` list keeps
+ * only those venues, in shortlist order.
+ */
+export async function handleAttachVenueResearch(jobId: string, request: Request, env: Env, user: AuthUser): Promise<Response> {
+	try {
+		const body = (await request.json().catch(() => ({}))) as { urls?: unknown };
+		if (body.urls !== undefined && (!Array.isArray(body.urls) || !body.urls.every((url) => typeof url === 'string'))) {
+			return jsonResponse({ error: '"urls" must be a list of venue URLs' }, 400);
+		}
+
+		const research = await getVenueResearch(env, jobId).getResearch();
+		if (!research || !(await canAccessResearch(env, user, research))) {
+			return jsonResponse({ error: 'Venue research not found' }, 404);
+		}
+		if (research.status !== 'completed') {
+			return jsonResponse({ error: 'Venue research has not finished yet' }, 409);
+		}
+
+		const urls = body.urls as string[] | undefined;
+		const venueShortlist = urls
+			? research.shortlist.filter((option) => urls.includes(option.url)).map((option, index) => ({ ...option, rank: index + 1 }))
+			: research.shortlist;
+		if (venueShortlist.length === 0) {
+			return jsonResponse({ error: 'None of the given venues are on the shortlist' }, 400);
+		}
+
+		const eventPlan = await getEventStore(env).updatePlan(research.planId, { venueShortlist });
+		if (!eventPlan) {
+			return jsonResponse({ error: 'Event not found' }, 404);
+		}
+		return jsonResponse({ eventPlan });
+	} catch (error) {
+		console.error('Error attaching venue research:', error);
+		return jsonResponse({ error: 'Failed to attach venue research' }, 500);
+	}
+}
@@ -0,0 +1,102 @@
+/**
+ * Headless Browser
+ *
+ * Opens headless browser sessions through the Browser Rendering binding,
+ * or Browserbase when only BROWSERBASE_API_KEY is set. Sessions are
+ * capped per isolate and closed when the work is done or times out, so a
+ * slow page cannot hold on to one of the few sessions the account allows.
+ */
+import puppeteer, { Browser } from '@cloudflare/puppeteer';
+import { Env } from './types';
+
+// Browser Rendering allows only a few concurrent sessions per account
+const MAX_CONCURRENT_SESSIONS = 2;
+
+// How long to wait for a free session before giving up
+const SESSION_WAIT_MS = 5000;
+
+let activeSessions = 0;
+const waiting: Array<() => void> = [];
+
+/**
+ * Thrown when no session is free in time or the work runs over its time limit
+ */
+export class BrowserSessionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BrowserSessionError';
+	}
+}
+
+export function isHeadlessBrowserConfigured(env: Env): boolean {
+	return Boolean(env.BROWSER || env.BROWSERBASE_API_KEY);
+}
+
+/**
+ * Name of the backend sessions run on, e.g. for search result sources
+ */
+export function headlessBrowserName(env: Env): string {
+	return env.BROWSER ? 'browser_rendering' : 'browserbase';
+}
+
+async function acquireSession(): Promise<void> {
+	if (activeSessions < MAX_CONCURRENT_SESSIONS) {
+		activeSessions++;
+		return;
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		const grant = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		const timer = setTimeout(() => {
+			waiting.splice(waiting.indexOf(grant), 1);
+			reject(new BrowserSessionError('No headless browser session available'));
+		}, SESSION_WAIT_MS);
+		waiting.push(grant);
+	});
+}
+
+function releaseSession(): void {
+	// The slot passes straight to the next waiter, if any
+	const next = waiting.shift();
+	if (next) {
+		next();
+	} else {
+		activeSessions--;
+	}
+}
+
+async function openBrowser(env: Env): Promise<Browser> {
+	if (env.BROWSER) {
+		return await puppeteer.launch(env.BROWSER);
+	}
+	return await puppeteer.connect({ browserWSEndpoint: `wss://connect.browserbase.com?apiKey=${env.BROWSERBASE_API_KEY}` });
+}
+
+/**
+ * Runs `work` with a browser session, closing it afterwards. Throws
+ * BrowserSessionError if no session frees up in time or `work` takes
+ * longer than `timeoutMs`.
+ */
+export async function withHeadlessBrowser<T>(env: Env, timeoutMs: number, work: (browser: Browser) => Promise<T>): Promise<T> {
+	if (!isHeadlessBrowserConfigured(env)) {
+		throw new BrowserSessionError('No headless browser is configured');
+	}
+
+	await acquireSession();
+	let browser: Browser | undefined;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	try {
+		browser = await openBrowser(env);
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(() => reject(new BrowserSessionError(`Headless browser work timed out after ${timeoutMs}ms`)), timeoutMs);
+		});
+		return await Promise.race([work(browser), timeout]);
+	} finally {
+		clearTimeout(timer);
+		await browser?.close().catch((error) => console.error('Failed to close headless browser:', error));
+		releaseSession();
+	}
+}
@@ -8,6 +8,15 @@
  */
 import { Env } from './types';
 import { router } from './router';
+import { runScheduledReminders } from './reminders';
+
+export { EventPlanStore } from './event-store';
+export { ChatSession } from './chat-session';
+export { SlackEventLog } from './slack-event-log';
+export { SlackInstallationStore } from './slack-installations';
+export { SearchCache } from './search-cache';
+export { RateLimiter } from './rate-limiter';
+export { VenueResearchAgent } from './venue-research-agent';
 
 export default {
 	/**
@@ -20,4 +29,15 @@ export default {
 	): Promise<Response> {
 		return router(request, env, ctx);
 	},
+
+	/**
+	 * Cron trigger handler: posts event reminders and overdue-task nudges
+	 */
+	async scheduled(
+		controller: ScheduledController,
+		env: Env,
+		ctx: ExecutionContext,
+	): Promise<void> {
+		ctx.waitUntil(runScheduledReminders(env, new Date(controller.scheduledTime)));
+	},
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,251 @@
+/**
+ * Page Extraction
+ *
+ * Pulls the readable parts out of a venue or vendor page: a cleaned
+ * title, the main text with navigation, footers and link lists left out
+ * (in the spirit of Readability), and links for booking, tickets or
+ * enquiries. Pages are fetched directly first; when that yields little
+ * text, as with sites that render client-side, the page is rendered in a
+ * headless browser instead.
+ */
+import { Env, ExtractedPage, PageLink } from './types';
+import { withHeadlessBrowser, isHeadlessBrowserConfigured } from './headless-browser';
+
+const FETCH_TIMEOUT_MS = 10000;
+
+// Rendering a page includes waiting for its scripts to load content
+const RENDER_TIMEOUT_MS = 20000;
+
+// Below this much main text a fetched page is assumed to render client-side
+const MIN_STATIC_TEXT_LENGTH = 400;
+
+const MAX_CONTENT_LENGTH = 4000;
+
+const MAX_BOOKING_LINKS = 10;
+
+const BROWSER_USER_AGENT =
+	'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// Elements that never hold the main content
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'select'];
+
+// Block elements whose text becomes a paragraph of the extracted content
+const BLOCK_PATTERN = /<(p|li|h[1-6]|td|th|dd|dt|blockquote|pre|div|section)\b[^>]*>([\s\S]*?)(?=<\/?(?:p|li|h[1-6]|td|th|dd|dt|blockquote|pre|div|section|ul|ol|table|tr)\b)/gi;
+
+// Paragraphs shorter than this are kept only if they are headings or hold a price or capacity
+const MIN_PARAGRAPH_LENGTH = 40;
+
+// Paragraphs where most of the text is link text are menus or link lists
+const MAX_LINK_DENSITY = 0.5;
+
+const BOOKING_LINK_PATTERN = /\b(book|booking|reserv|ticket|enquir|inquir|availability|quote|request|check.?out|buy|order|hire|rent|contact)/i;
+
+// Title parts that name the page type rather than the place
+const GENERIC_TITLE_PARTS = /^(home|homepage|welcome|index|official site|official website)$/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	quot: '"',
+	apos: "'",
+	lt: '<',
+	gt: '>',
+	nbsp: ' ',
+	ndash: '–',
+	mdash: '—',
+	rsquo: '’',
+	lsquo: '‘',
+	hellip: '…',
+	pound: '£',
+	euro: '€',
+};
+
+export function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] === '#') {
+			const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+			return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+		}
+		const name = code.toLowerCase();
+		return Object.prototype.hasOwnProperty.call(NAMED_ENTITIES, name) ? NAMED_ENTITIES[name] : entity;
+	});
+}
+
+function toText(html: string): string {
+	return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function removeBoilerplate(html: string): string {
+	let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+	for (const tag of BOILERPLATE_TAGS) {
+		cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+	}
+	return cleaned;
+}
+
+/**
+ * Page title without the site name and separators, e.g. "The Grand Hall"
+ * for "The Grand Hall | Venues in Leeds | HireSpace". Prefers og:title.
+ */
+export function cleanTitle(html: string): string {
+	const ogTitle = html.match(/<meta[^>]+property=["']og:title["'][^>]*content=["']([^"']+)["']/i)
+		?? html.match(/<meta[^>]+content=["']([^"']+)["'][^>]*property=["']og:title["']/i);
+	const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+	const raw = toText(ogTitle?.[1] ?? titleTag?.[1] ?? '');
+	if (!raw) {
+		return 'No title';
+	}
+
+	const parts = raw.split(/\s+[|·•–—-]\s+|\s*::\s*/).map((part) => part.trim()).filter(Boolean);
+	return parts.find((part) => !GENERIC_TITLE_PARTS.test(part)) ?? raw;
+}
+
+/**
+ * The main text of a page. Uses <main> or the longest <article> when the
+ * page has one; otherwise keeps the paragraphs that read like content.
+ */
+export function extractMainText(html: string): string {
+	const body = removeBoilerplate(html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html);
+
+	const containers = [
+		...(body.match(/<main\b[^>]*>[\s\S]*?<\/main>/gi) ?? []),
+		...(body.match(/<article\b[^>]*>[\s\S]*?<\/article>/gi) ?? []),
+	];
+	const container = containers.sort((a, b) => toText(b).length - toText(a).length)[0];
+	const source = container && toText(container).length >= MIN_STATIC_TEXT_LENGTH ? container : body;
+
+	const paragraphs: string[] = [];
+	// The trailing tag ends the last block
+	for (const [, tag, inner] of `${source}<p>`.matchAll(BLOCK_PATTERN)) {
+		const text = toText(inner);
+		if (!text || paragraphs[paragraphs.length - 1] === text) {
+			continue;
+		}
+
+		const linkText = [...inner.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)].map((match) => toText(match[1])).join('');
+		if (linkText.length / text.length > MAX_LINK_DENSITY) {
+			continue;
+		}
+
+		const isHeading = /^h[1-6]$/i.test(tag);
+		// Short lines are often the facts we want, e.g. "Capacity: 120" or "From £45pp"
+		const hasFact = /\d/.test(text) && /capacity|guests|people|seated|standing|price|from|per|[$£€]/i.test(text);
+		if (text.length >= MIN_PARAGRAPH_LENGTH || isHeading || hasFact) {
+			paragraphs.push(text);
+		}
+	}
+
+	const content = paragraphs.length > 0 ? paragraphs.join('\n') : toText(source);
+	return content.slice(0, MAX_CONTENT_LENGTH);
+}
+
+/**
+ * Links for booking, tickets, enquiries or contact, resolved against the
+ * page URL. Same-page anchors and scripts are left out.
+ */
+export function extractBookingLinks(html: string, pageUrl: string): PageLink[] {
+	const links: PageLink[] = [];
+	const seen = new Set<string>();
+
+	for (const [, attributes, inner] of html.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+		const href = attributes.match(/href=["']([^"']+)["']/i)?.[1];
+		if (!href || href.startsWith('#') || /^(javascript|data):/i.test(href)) {
+			continue;
+		}
+
+		let url: URL;
+		try {
+			url = new URL(decodeEntities(href), pageUrl);
+		} catch {
+			continue;
+		}
+		if (!['http:', 'https:', 'mailto:', 'tel:'].includes(url.protocol)) {
+			continue;
+		}
+
+		const text = toText(inner) || toText(attributes.match(/aria-label=["']([^"']+)["']/i)?.[1] ?? '');
+		if (!BOOKING_LINK_PATTERN.test(text) && !BOOKING_LINK_PATTERN.test(url.pathname)) {
+			continue;
+		}
+
+		const key = url.href.replace(/#.*$/, '');
+		if (seen.has(key)) {
+			continue;
+		}
+		seen.add(key);
+		links.push({ text: (text || url.hostname).slice(0, 100), url: key });
+		if (links.length >= MAX_BOOKING_LINKS) {
+			break;
+		}
+	}
+
+	return links;
+}
+
+function parsePage(html: string, url: string, renderedWith: ExtractedPage['renderedWith']): ExtractedPage {
+	return {
+		url,
+		title: cleanTitle(html),
+		content: extractMainText(html),
+		bookingLinks: extractBookingLinks(html, url),
+		renderedWith,
+	};
+}
+
+async function fetchPage(url: string): Promise<ExtractedPage | null> {
+	const response = await fetch(url, {
+		headers: {
+			'User-Agent': BROWSER_USER_AGENT,
+			'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+		},
+		signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		console.log('Failed to fetch page:', response.status);
+		return null;
+	}
+
+	const contentType = response.headers.get('Content-Type') ?? '';
+	if (contentType && !contentType.includes('html')) {
+		console.log('Not an HTML page:', contentType);
+		return null;
+	}
+
+	// Redirects are followed, so links resolve against the final URL
+	return parsePage(await response.text(), response.url || url, 'fetch');
+}
+
+async function renderPage(env: Env, url: string): Promise<ExtractedPage> {
+	return await withHeadlessBrowser(env, RENDER_TIMEOUT_MS, async (browser) => {
+		const page = await browser.newPage();
+		await page.setUserAgent(BROWSER_USER_AGENT);
+		// Booking widgets often load after the page itself, so wait for the network to settle
+		await page.goto(url, { waitUntil: 'networkidle2', timeout: RENDER_TIMEOUT_MS });
+		return parsePage(await page.content(), page.url(), 'browser');
+	});
+}
+
+/**
+ * Extracts a page, rendering it in a headless browser when a plain fetch
+ * fails or returns too little text and a browser is configured
+ */
+export async function extractPage(env: Env, url: string): Promise<ExtractedPage | null> {
+	let fetched: ExtractedPage | null = null;
+	try {
+		fetched = await fetchPage(url);
+	} catch (error) {
+		console.error('Fetching page failed for', url, ':', error instanceof Error ? error.message : error);
+	}
+
+	if ((fetched && fetched.content.length >= MIN_STATIC_TEXT_LENGTH) || !isHeadlessBrowserConfigured(env)) {
+		return fetched;
+	}
+
+	try {
+		console.log('Rendering page in headless browser:', url);
+		const rendered = await renderPage(env, url);
+		return rendered.content.length > (fetched?.content.length ?? 0) ? rendered : fetched;
+	} catch (error) {
+		console.error('Rendering page failed for', url, ':', error instanceof Error ? error.message : error);
+		return fetched;
+	}
+}
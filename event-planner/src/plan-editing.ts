@@ -0,0 +1,471 @@
+/**
+ * Plan Editing
+ *
+ * Turns a natural-language edit instruction into a typed PlanPatch,
+ * applies patches to plans and diffs plan versions. Used by the web chat
+ * edit tool, the edit API and Slack mentions.
+ */
+import { Env, EventPlan, PlanPatch, PlanPatchOperation, PlanDiffEntry, BudgetItem, Guest, TimelineTask } from './types';
+import { normalizeBudget } from './plan-extraction';
+import { normalizeCurrency, validateBudgetItems, describeBudgetItem } from './budget';
+import { describeHeadcount, summarizeRsvps } from './guests';
+import { createTask, parseLeadTime, applyTaskChanges, normalizeDueDays } from './tasks';
+import { getEventStore } from './event-store';
+
+const MODEL_ID = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+// Number of times the model is asked to fix an invalid patch
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Fields compared when diffing two plan versions
+const DIFF_FIELDS: (keyof EventPlan)[] = [
+	'title',
+	'date',
+	'time',
+	'type',
+	'venue',
+	'budget',
+	'currency',
+	'budgetItems',
+	'description',
+	'guests',
+	'timeline',
+];
+
+const PATCH_PROMPT = `You edit event plans. Given the current plan and an instruction, respond with ONLY a JSON object describing the changes:
+{
+  "operations": [ ... ],
+  "summary": "One sentence describing the change"
+}
+
+Allowed operations (timeline indexes are zero-based):
+- { "op": "add_timeline_item", "item": "task description", "position": 2, "dueDaysBefore": 14, "assignee": "Sam" }   (position defaults to the end; dueDaysBefore is how many days before the event the task is due, 0 for the day of; position, dueDaysBefore and assignee are optional)
+- { "op": "remove_timeline_item", "index": 0 }
+- { "op": "update_timeline_item", "index": 0, "item": "new task description" }
+- { "op": "update_task", "index": 0, "done": true, "assignee": "Sam", "dueDaysBefore": 7 }   (include only the fields that change; use null to clear the assignee or due date)
+- { "op": "move_timeline_item", "from": 3, "to": 0 }
+- { "op": "swap_timeline_items", "first": 1, "second": 2 }
+- { "op": "set_budget", "budget": 1500 }   (the total spending limit)
+- { "op": "set_currency", "currency": "EUR" }   (ISO 4217 code)
+- { "op": "add_budget_item", "item": { "category": "catering", "description": "Buffet dinner", "estimated": 800, "actual": 750 } }   ("actual" optional; category is one of venue, catering, decor, entertainment, rentals, staff, travel, supplies, other)
+- { "op": "update_budget_item", "index": 0, "estimated": 900, "actual": 880, "description": "new description" }   (budget item indexes are zero-based; include only the fields that change)
+- { "op": "remove_budget_item", "index": 0 }
+- { "op": "set_venue", "venue": "Venue name" }
+
+Use as few operations as possible. If the instruction cannot be expressed with these operations, respond with an empty "operations" array and explain why in "summary".`;
+
+/**
+ * Thrown when an instruction cannot be turned into a valid patch
+ */
+export class PlanEditError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PlanEditError';
+	}
+}
+
+/**
+ * Thrown when the plan changed while an edit was being worked out
+ */
+export class PlanEditConflictError extends PlanEditError {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PlanEditConflictError';
+	}
+}
+
+function isIndex(value: unknown, length: number): value is number {
+	return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < length;
+}
+
+/**
+ * Validates raw operations against the plan they will be applied to,
+ * simulating each step so later indexes refer to the updated timeline
+ */
+export function validatePatchOperations(
+	plan: EventPlan,
+	rawOperations: unknown,
+): { operations?: PlanPatchOperation[]; errors: string[] } {
+	if (!Array.isArray(rawOperations)) {
+		return { errors: ['"operations" must be an array'] };
+	}
+
+	const errors: string[] = [];
+	const operations: PlanPatchOperation[] = [];
+	let timelineLength = plan.timeline?.length ?? 0;
+	let budgetItemCount = plan.budgetItems?.length ?? 0;
+
+	rawOperations.forEach((raw, position) => {
+		const op = raw as Record<string, unknown>;
+		const label = `operation ${position + 1}`;
+
+		switch (op?.op) {
+			case 'add_timeline_item': {
+				const dueDaysBefore = normalizeDueDays(op.dueDaysBefore);
+				if (typeof op.item !== 'string' || !op.item.trim()) {
+					errors.push(`${label}: "item" must be a non-empty string`);
+				} else if (op.position !== undefined && !isIndex(op.position, timelineLength + 1)) {
+					errors.push(`${label}: "position" must be between 0 and ${timelineLength}`);
+				} else if (dueDaysBefore === null) {
+					errors.push(`${label}: "dueDaysBefore" must be a non-negative whole number of days`);
+				} else {
+					operations.push({
+						op: 'add_timeline_item',
+						item: op.item.trim(),
+						position: op.position as number | undefined,
+						dueDaysBefore,
+						assignee: typeof op.assignee === 'string' && op.assignee.trim() ? op.assignee.trim() : undefined,
+					});
+					timelineLength++;
+				}
+				break;
+			}
+			case 'remove_timeline_item':
+				if (!isIndex(op.index, timelineLength)) {
+					errors.push(`${label}: "index" must be between 0 and ${timelineLength - 1}`);
+				} else {
+					operations.push({ op: 'remove_timeline_item', index: op.index });
+					timelineLength--;
+				}
+				break;
+			case 'update_timeline_item':
+				if (!isIndex(op.index, timelineLength)) {
+					errors.push(`${label}: "index" must be between 0 and ${timelineLength - 1}`);
+				} else if (typeof op.item !== 'string' || !op.item.trim()) {
+					errors.push(`${label}: "item" must be a non-empty string`);
+				} else {
+					operations.push({ op: 'update_timeline_item', index: op.index, item: op.item.trim() });
+				}
+				break;
+			case 'move_timeline_item':
+				if (!isIndex(op.from, timelineLength) || !isIndex(op.to, timelineLength)) {
+					errors.push(`${label}: "from" and "to" must be between 0 and ${timelineLength - 1}`);
+				} else {
+					operations.push({ op: 'move_timeline_item', from: op.from, to: op.to });
+				}
+				break;
+			case 'swap_timeline_items':
+				if (!isIndex(op.first, timelineLength) || !isIndex(op.second, timelineLength)) {
+					errors.push(`${label}: "first" and "second" must be between 0 and ${timelineLength - 1}`);
+				} else {
+					operations.push({ op: 'swap_timeline_items', first: op.first, second: op.second });
+				}
+				break;
+			case 'update_task': {
+				const dueDaysBefore = op.dueDaysBefore === null ? null : normalizeDueDays(op.dueDaysBefore);
+				if (!isIndex(op.index, timelineLength)) {
+					errors.push(`${label}: "index" must be between 0 and ${timelineLength - 1}`);
+				} else if (op.done !== undefined && typeof op.done !== 'boolean') {
+					errors.push(`${label}: "done" must be true or false`);
+				} else if (op.assignee !== undefined && op.assignee !== null && typeof op.assignee !== 'string') {
+					errors.push(`${label}: "assignee" must be a string or null`);
+				} else if (op.dueDaysBefore !== undefined && op.dueDaysBefore !== null && dueDaysBefore === null) {
+					errors.push(`${label}: "dueDaysBefore" must be a non-negative whole number of days or null`);
+				} else if (op.done === undefined && op.assignee === undefined && op.dueDaysBefore === undefined) {
+					errors.push(`${label}: set at least one of "done", "assignee" or "dueDaysBefore"`);
+				} else {
+					operations.push({
+						op: 'update_task',
+						index: op.index,
+						done: op.done as boolean | undefined,
+						assignee: typeof op.assignee === 'string' ? op.assignee.trim() || null : (op.assignee as null | undefined),
+						dueDaysBefore,
+					});
+				}
+				break;
+			}
+			case 'set_budget': {
+				const budget = normalizeBudget(op.budget);
+				if (budget === null) {
+					errors.push(`${label}: "budget" must be a non-negative number`);
+				} else {
+					operations.push({ op: 'set_budget', budget });
+				}
+				break;
+			}
+			case 'set_currency': {
+				const currency = normalizeCurrency(op.currency);
+				if (!currency) {
+					errors.push(`${label}: "currency" must be an ISO 4217 code such as "USD"`);
+				} else {
+					operations.push({ op: 'set_currency', currency });
+				}
+				break;
+			}
+			case 'add_budget_item': {
+				const { items, errors: itemErrors } = validateBudgetItems([op.item]);
+				if (!items) {
+					errors.push(...itemErrors.map((error) => `${label}: ${error}`));
+				} else {
+					operations.push({ op: 'add_budget_item', item: items[0] });
+					budgetItemCount++;
+				}
+				break;
+			}
+			case 'update_budget_item': {
+				const estimated = op.estimated === undefined ? undefined : normalizeBudget(op.estimated);
+				const actual = op.actual === undefined ? undefined : normalizeBudget(op.actual);
+				if (!isIndex(op.index, budgetItemCount)) {
+					errors.push(`${label}: "index" must be between 0 and ${budgetItemCount - 1}`);
+				} else if (estimated === null || actual === null) {
+					errors.push(`${label}: "estimated" and "actual" must be non-negative numbers`);
+				} else if (estimated === undefined && actual === undefined && typeof op.description !== 'string') {
+					errors.push(`${label}: set at least one of "estimated", "actual" or "description"`);
+				} else {
+					operations.push({
+						op: 'update_budget_item',
+						index: op.index,
+						estimated,
+						actual,
+						description: typeof op.description === 'string' && op.description.trim() ? op.description.trim() : undefined,
+					});
+				}
+				break;
+			}
+			case 'remove_budget_item':
+				if (!isIndex(op.index, budgetItemCount)) {
+					errors.push(`${label}: "index" must be between 0 and ${budgetItemCount - 1}`);
+				} else {
+					operations.push({ op: 'remove_budget_item', index: op.index });
+					budgetItemCount--;
+				}
+				break;
+			case 'set_venue':
+				if (typeof op.venue !== 'string' || !op.venue.trim()) {
+					errors.push(`${label}: "venue" must be a non-empty string`);
+				} else {
+					operations.push({ op: 'set_venue', venue: op.venue.trim() });
+				}
+				break;
+			default:
+				errors.push(`${label}: unknown op ${JSON.stringify(op?.op)}`);
+		}
+	});
+
+	return errors.length > 0 ? { errors } : { operations, errors };
+}
+
+/**
+ * Applies a patch to a plan, returning a new plan object
+ */
+export function applyPlanPatch(plan: EventPlan, patch: PlanPatch): EventPlan {
+	const updated: EventPlan = {
+		...plan,
+		timeline: (plan.timeline ?? []).map((task) => ({ ...task })),
+		budgetItems: (plan.budgetItems ?? []).map((item) => ({ ...item })),
+	};
+	const timeline = updated.timeline;
+	const budgetItems = updated.budgetItems!;
+
+	for (const operation of patch.operations) {
+		switch (operation.op) {
+			case 'add_timeline_item': {
+				// A lead time written into the text counts when none is given
+				const parsed = parseLeadTime(operation.item);
+				const task = createTask(operation.dueDaysBefore === undefined ? parsed.title : operation.item, timeline, {
+					dueDaysBefore: operation.dueDaysBefore ?? parsed.dueDaysBefore,
+					assignee: operation.assignee,
+				});
+				timeline.splice(operation.position ?? timeline.length, 0, task);
+				break;
+			}
+			case 'remove_timeline_item':
+				timeline.splice(operation.index, 1);
+				break;
+			case 'update_timeline_item':
+				timeline[operation.index] = { ...timeline[operation.index], title: operation.item };
+				break;
+			case 'move_timeline_item': {
+				const [item] = timeline.splice(operation.from, 1);
+				timeline.splice(operation.to, 0, item);
+				break;
+			}
+			case 'swap_timeline_items':
+				[timeline[operation.first], timeline[operation.second]] = [timeline[operation.second], timeline[operation.first]];
+				break;
+			case 'update_task': {
+				const { index, done, assignee, dueDaysBefore } = operation;
+				timeline[index] = applyTaskChanges(timeline[index], {
+					...(done !== undefined ? { done } : {}),
+					...(assignee !== undefined ? { assignee: assignee ?? undefined } : {}),
+					...(dueDaysBefore !== undefined ? { dueDaysBefore: dueDaysBefore ?? undefined } : {}),
+				});
+				break;
+			}
+			case 'set_budget':
+				updated.budget = operation.budget;
+				break;
+			case 'set_currency':
+				updated.currency = operation.currency;
+				break;
+			case 'add_budget_item':
+				budgetItems.push(operation.item);
+				break;
+			case 'update_budget_item': {
+				const item = budgetItems[operation.index];
+				budgetItems[operation.index] = {
+					...item,
+					...(operation.estimated !== undefined ? { estimated: operation.estimated } : {}),
+					...(operation.actual !== undefined ? { actual: operation.actual } : {}),
+					...(operation.description !== undefined ? { description: operation.description } : {}),
+				};
+				break;
+			}
+			case 'remove_budget_item':
+				budgetItems.splice(operation.index, 1);
+				break;
+			case 'set_venue':
+				updated.venue = operation.venue;
+				break;
+		}
+	}
+
+	// Plans without line items keep the field unset
+	if (!plan.budgetItems && budgetItems.length === 0) {
+		delete updated.budgetItems;
+	}
+
+	return updated;
+}
+
+/**
+ * Lists the fields that differ between two versions of a plan
+ */
+export function diffPlans(before: EventPlan, after: EventPlan): PlanDiffEntry[] {
+	return DIFF_FIELDS
+		.filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+		.map((field) => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Formats a diff as short human-readable lines, e.g. for Slack
+ */
+export function describePlanDiff(diff: PlanDiffEntry[]): string {
+	return diff
+		.map(({ field, before, after }) => {
+			if (field === 'budgetItems') {
+				const items = (after as BudgetItem[] | undefined) ?? [];
+				return `• *budget items* updated:\n${items.map((item, index) => `   ${index + 1}. ${describeBudgetItem(item)}`).join('\n')}`;
+			}
+			if (field === 'timeline') {
+				const tasks = (after as TimelineTask[] | undefined) ?? [];
+				return `• *timeline* updated:\n${tasks.map((task, index) => `   ${index + 1}. ${task.done ? '✓ ' : ''}${task.title}`).join('\n')}`;
+			}
+			if (field === 'guests') {
+				return `• *guests* updated: ${describeHeadcount((after as Guest[] | undefined) ?? [])}`;
+			}
+			if (Array.isArray(after)) {
+				return `• *${field}* updated:\n${after.map((item, index) => `   ${index + 1}. ${item}`).join('\n')}`;
+			}
+			return `• *${field}*: ${before ?? 'none'} → ${after ?? 'none'}`;
+		})
+		.join('\n');
+}
+
+function parsePatchJson(text: string): Record<string, unknown> | null {
+	const firstBrace = text.indexOf('{');
+	const lastBrace = text.lastIndexOf('}');
+	if (firstBrace === -1 || lastBrace <= firstBrace) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(text.slice(firstBrace, lastBrace + 1));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Asks the model to turn an edit instruction into a validated patch
+ *
+ * @throws PlanEditError if the model cannot produce a usable patch
+ */
+export async function generatePlanPatch(
+	env: Env,
+	plan: EventPlan,
+	instruction: string,
+): Promise<PlanPatch> {
+	const planContext = {
+		title: plan.title,
+		date: plan.date,
+		time: plan.time,
+		budget: plan.budget,
+		currency: plan.currency,
+		budgetItems: (plan.budgetItems ?? []).map((item, index) => ({ index, ...item })),
+		venue: plan.venue,
+		// RSVPs give the real numbers for catering and venue changes
+		headcount: describeHeadcount(plan.guests ?? []),
+		dietaryNotes: summarizeRsvps(plan.guests ?? []).dietaryNotes,
+		timeline: (plan.timeline ?? []).map((task, index) => ({
+			index,
+			title: task.title,
+			dueDaysBefore: task.dueDaysBefore,
+			assignee: task.assignee,
+			done: task.done,
+		})),
+	};
+
+	const messages = [
+		{ role: 'system', content: PATCH_PROMPT },
+		{ role: 'user', content: `Current plan:\n${JSON.stringify(planContext, null, 2)}\n\nInstruction: ${instruction}` },
+	];
+
+	for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+		const response = (await env.AI.run(MODEL_ID, { messages, max_tokens: 512 })) as {
+			response: string | object;
+		};
+		const text = typeof response.response === 'string' ? response.response : JSON.stringify(response.response);
+		const parsed = typeof response.response === 'object' ? (response.response as Record<string, unknown>) : parsePatchJson(text);
+
+		const summary = typeof parsed?.summary === 'string' ? parsed.summary : '';
+		const { operations, errors } = parsed
+			? validatePatchOperations(plan, parsed.operations)
+			: { operations: undefined, errors: ['the response is not valid JSON'] };
+
+		if (operations) {
+			if (operations.length === 0) {
+				throw new PlanEditError(summary || "I couldn't turn that request into a change to the plan.");
+			}
+			return { operations, summary: summary || 'Updated the event plan' };
+		}
+
+		console.log(`Plan patch failed validation (attempt ${attempt + 1}):`, errors);
+		messages.push(
+			{ role: 'assistant', content: text },
+			{ role: 'user', content: `That patch is invalid:\n- ${errors.join('\n- ')}\n\nRespond again with ONLY the corrected JSON object.` },
+		);
+	}
+
+	throw new PlanEditError("I couldn't work out how to apply that change. Could you rephrase it?");
+}
+
+/**
+ * Generates a patch for a stored plan from an instruction and stores the
+ * result as a new version
+ *
+ * @throws PlanEditError if the plan is missing or the instruction cannot be applied
+ * @throws PlanEditConflictError if the plan changed while the patch was generated
+ */
+export async function editEventPlan(
+	env: Env,
+	planId: string,
+	instruction: string,
+): Promise<{ eventPlan: EventPlan; patch: PlanPatch; diff: PlanDiffEntry[] }> {
+	const store = getEventStore(env);
+	const existing = await store.getPlan(planId);
+	if (!existing) {
+		throw new PlanEditError(`No event plan found with id ${planId}`);
+	}
+
+	const patch = await generatePlanPatch(env, existing, instruction);
+	const eventPlan = await store.applyPatch(planId, patch, existing.version ?? 1);
+	if (!eventPlan) {
+		throw new PlanEditError(`No event plan found with id ${planId}`);
+	}
+	if ('error' in eventPlan) {
+		throw new PlanEditConflictError(`${eventPlan.error}. Please try the change again.`);
+	}
+
+	return { eventPlan, patch, diff: diffPlans(existing, eventPlan) };
+}
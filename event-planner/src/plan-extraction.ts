@@ -0,0 +1,405 @@
+/**
+ * Event Plan Extraction
+ *
+ * Shared by the web chat and Slack handlers. Finds a create_event payload
+ * in model output, validates and normalizes it against the EventPlan
+ * schema, and re-prompts the model with the validation errors when the
+ * payload is malformed.
+ */
+import { Env, ChatMessage, EventPlan, Guest, TimelineTask } from './types';
+import { normalizeCurrency, validateBudgetItems, sumEstimated } from './budget';
+import { normalizeGuests, placeholderGuests } from './guests';
+import { normalizeTimeline } from './tasks';
+
+const MODEL_ID = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+// Number of times the model is asked to fix an invalid plan
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const DEFAULT_PLAN_RESPONSE = "Here's the event plan I put together for you!";
+
+/**
+ * Plan fields the model is responsible for producing
+ */
+export type EventPlanFields = Pick<
+	EventPlan,
+	'title' | 'date' | 'time' | 'guests' | 'timeline' | 'budget' | 'currency' | 'budgetItems' | 'venue' | 'description' | 'type'
+>;
+
+/**
+ * Result of extracting a plan from model output. `event` is only set when
+ * a valid plan was found.
+ */
+export interface PlanExtraction {
+	response: string;
+	event?: EventPlanFields;
+}
+
+interface PlanPayload {
+	action?: unknown;
+	event?: unknown;
+	trip?: unknown;
+	response?: unknown;
+}
+
+/**
+ * Locates and parses the JSON payload in model output, which may be bare,
+ * inside a fenced code block, or surrounded by prose
+ */
+function parsePlanPayload(text: string): PlanPayload | null {
+	const candidates: string[] = [];
+
+	const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+	if (codeBlockMatch) {
+		candidates.push(codeBlockMatch[1]);
+	}
+	candidates.push(text.trim());
+
+	const firstBrace = text.indexOf('{');
+	const lastBrace = text.lastIndexOf('}');
+	if (firstBrace !== -1 && lastBrace > firstBrace) {
+		candidates.push(text.slice(firstBrace, lastBrace + 1));
+	}
+
+	for (const candidate of candidates) {
+		try {
+			const parsed = JSON.parse(candidate);
+			if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+				return parsed as PlanPayload;
+			}
+		} catch {
+			// Try the next candidate
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Whether the model appears to have attempted a plan, even a malformed one
+ */
+function isPlanAttempt(text: string, payload: PlanPayload | null): boolean {
+	if (payload) {
+		return payload.action === 'create_event' || payload.action === 'create_trip' ||
+			payload.event !== undefined || payload.trip !== undefined;
+	}
+	return /"action"\s*:\s*"create_(event|trip)"/.test(text);
+}
+
+/**
+ * Normalizes a date to YYYY-MM-DD
+ */
+export function normalizeDate(value: unknown): string | null {
+	if (typeof value !== 'string' || !value.trim()) {
+		return null;
+	}
+
+	const trimmed = value.trim();
+	const isoMatch = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+	if (isoMatch) {
+		const [, year, month, day] = isoMatch;
+		const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+		if (date.getUTCMonth() !== Number(month) - 1) {
+			return null;
+		}
+		return date.toISOString().slice(0, 10);
+	}
+
+	// Other forms, e.g. "March 5, 2026", must name the year; without one
+	// Date.parse picks an arbitrary year such as 2001
+	if (!/\b\d{4}\b/.test(trimmed)) {
+		return null;
+	}
+	const parsed = new Date(trimmed);
+	if (Number.isNaN(parsed.getTime())) {
+		return null;
+	}
+	// Date.parse reads these as local midnight, so the local date is the one meant
+	const month = String(parsed.getMonth() + 1).padStart(2, '0');
+	const day = String(parsed.getDate()).padStart(2, '0');
+	return `${parsed.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Normalizes a time to "HH:MM AM/PM". Accepts 12-hour ("7pm", "7:30 PM")
+ * and 24-hour ("19:30") forms; for ranges the start time is kept.
+ */
+export function normalizeTime(value: unknown): string | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*([ap]\.?m\.?)?(?:\s*(?:-|–|to)\s*.+)?$/i);
+	if (!match) {
+		return null;
+	}
+
+	let hours = Number(match[1]);
+	const minutes = Number(match[2] ?? '0');
+	const meridiem = match[3]?.replace(/\./g, '').toUpperCase();
+
+	if (minutes > 59) {
+		return null;
+	}
+
+	if (meridiem) {
+		if (hours < 1 || hours > 12) {
+			return null;
+		}
+	} else {
+		if (hours > 23) {
+			return null;
+		}
+	}
+
+	let suffix = meridiem;
+	if (!suffix) {
+		suffix = hours >= 12 ? 'PM' : 'AM';
+		hours = hours % 12 || 12;
+	}
+
+	return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
+
+const BUDGET_MAGNITUDES: Record<string, number> = {
+	k: 1e3,
+	thousand: 1e3,
+	m: 1e6,
+	mn: 1e6,
+	million: 1e6,
+	bn: 1e9,
+	billion: 1e9,
+};
+
+/**
+ * Normalizes a budget such as 1500, "$1,500", "1.5k" or "2 million" to a
+ * number. Negative amounts are rejected.
+ */
+export function normalizeBudget(value: unknown): number | null {
+	if (typeof value === 'number') {
+		return Number.isFinite(value) && value >= 0 ? value : null;
+	}
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const match = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)(?:\s*(k|thousand|mn|m|million|bn|billion)\b)?/i);
+	// A minus sign before the amount, e.g. "-400" or "-$400"
+	if (!match || /[-−]/.test(value.slice(0, value.search(/\d/)))) {
+		return null;
+	}
+
+	const amount = Number(match[1]) * (match[2] ? BUDGET_MAGNITUDES[match[2].toLowerCase()] : 1);
+	return Number.isFinite(amount) ? amount : null;
+}
+
+function normalizeStringList(value: unknown): string[] | null {
+	if (value === undefined || value === null) {
+		return [];
+	}
+	if (typeof value === 'string') {
+		return value.split('\n').map((item) => item.trim()).filter((item) => item.length > 0);
+	}
+	if (!Array.isArray(value)) {
+		return null;
+	}
+
+	const items: string[] = [];
+	for (const item of value) {
+		if (typeof item === 'string' || typeof item === 'number') {
+			items.push(String(item).trim());
+		} else if (item && typeof item === 'object' && typeof (item as { name?: unknown }).name === 'string') {
+			items.push((item as { name: string }).name.trim());
+		} else {
+			return null;
+		}
+	}
+	return items.filter((item) => item.length > 0);
+}
+
+function optionalString(value: unknown): string | undefined {
+	if (typeof value !== 'string') {
+		return undefined;
+	}
+	const trimmed = value.trim();
+	return trimmed && !/^(tbd|n\/a|none)$/i.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * Validates raw event data against the EventPlan schema, normalizing
+ * dates, times, budgets and lists. Returns the errors found, if any.
+ */
+export function validateEventPlanFields(
+	data: unknown,
+): { value?: EventPlanFields; errors: string[] } {
+	if (!data || typeof data !== 'object' || Array.isArray(data)) {
+		return { errors: ['"event" must be an object'] };
+	}
+
+	const raw = data as Record<string, unknown>;
+	const errors: string[] = [];
+
+	const title = optionalString(raw.title);
+	if (!title) {
+		errors.push('"title" is required and must be a non-empty string');
+	}
+
+	const date = normalizeDate(raw.date);
+	if (!date) {
+		errors.push('"date" is required and must be a valid date in YYYY-MM-DD format');
+	}
+
+	let time: string | undefined;
+	const rawTime = optionalString(raw.time);
+	if (rawTime) {
+		time = normalizeTime(rawTime) ?? undefined;
+		if (!time) {
+			errors.push('"time" must be in "HH:MM AM/PM" format');
+		}
+	}
+
+	let guests: Guest[] | null;
+	if (typeof raw.guests === 'number' && Number.isInteger(raw.guests) && raw.guests >= 0) {
+		// A bare headcount becomes placeholder entries so the count is kept
+		guests = placeholderGuests(raw.guests);
+	} else if (typeof raw.guests === 'string') {
+		guests = normalizeGuests(normalizeStringList(raw.guests));
+	} else {
+		guests = normalizeGuests(raw.guests);
+	}
+	if (!guests) {
+		errors.push('"guests" must be an array of guest names or objects with a "name" (or [] if unknown)');
+	}
+
+	const timeline: TimelineTask[] | null = typeof raw.timeline === 'string'
+		? normalizeTimeline(normalizeStringList(raw.timeline))
+		: normalizeTimeline(raw.timeline);
+	if (!timeline) {
+		errors.push('"timeline" must be an array of task descriptions or objects with a "title"');
+	}
+
+	let budget: number | null = 0;
+	if (raw.budget !== undefined && raw.budget !== null) {
+		budget = normalizeBudget(raw.budget);
+		if (budget === null) {
+			errors.push('"budget" must be a non-negative number');
+		}
+	}
+
+	let currency: string | undefined;
+	if (optionalString(raw.currency)) {
+		currency = normalizeCurrency(raw.currency) ?? undefined;
+		if (!currency) {
+			errors.push('"currency" must be an ISO 4217 code such as "USD"');
+		}
+	}
+
+	const { items: budgetItems, errors: budgetItemErrors } = validateBudgetItems(raw.budgetItems);
+	errors.push(...budgetItemErrors);
+
+	if (errors.length > 0) {
+		return { errors };
+	}
+
+	return {
+		value: {
+			title: title!,
+			date: date!,
+			time,
+			guests: guests!,
+			timeline: timeline!,
+			// Without a stated total, the line items define the budget
+			budget: budget! || sumEstimated(budgetItems!),
+			currency,
+			...(budgetItems!.length > 0 ? { budgetItems } : {}),
+			venue: optionalString(raw.venue),
+			description: optionalString(raw.description),
+			type: optionalString(raw.type),
+		},
+		errors: [],
+	};
+}
+
+/**
+ * Checks one model output for a plan. Returns null when the output is a
+ * plan attempt that failed validation, along with the errors.
+ */
+function checkModelOutput(text: string): { result: PlanExtraction | null; errors: string[] } {
+	const payload = parsePlanPayload(text);
+
+	if (!isPlanAttempt(text, payload)) {
+		return { result: { response: text }, errors: [] };
+	}
+	if (!payload) {
+		return { result: null, errors: ['the plan is not valid JSON'] };
+	}
+
+	const { value, errors } = validateEventPlanFields(payload.event ?? payload.trip);
+	if (!value) {
+		return { result: null, errors };
+	}
+
+	const response = typeof payload.response === 'string' && payload.response.trim()
+		? payload.response
+		: DEFAULT_PLAN_RESPONSE;
+
+	return { result: { response, event: value }, errors: [] };
+}
+
+/**
+ * Workers AI may return JSON output already parsed
+ */
+function outputToText(output: string | object | undefined): string {
+	return typeof output === 'object' ? JSON.stringify(output) : (output ?? '');
+}
+
+/**
+ * Extracts a validated event plan from model output. When the output is a
+ * malformed plan, the model is re-prompted with the validation errors up
+ * to MAX_REPAIR_ATTEMPTS times.
+ *
+ * @param messages The conversation that produced `responseText`
+ * @param responseText Model output; Workers AI may return JSON output already parsed
+ */
+export async function extractEventPlan(
+	env: Env,
+	messages: ChatMessage[],
+	responseText: string | object,
+): Promise<PlanExtraction> {
+	let text = outputToText(responseText);
+	let { result, errors } = checkModelOutput(text);
+	const repairMessages = [...messages];
+
+	for (let attempt = 1; !result && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+		console.log(`Event plan failed validation (attempt ${attempt}):`, errors);
+
+		repairMessages.push(
+			{ role: 'assistant', content: text },
+			{
+				role: 'user',
+				content: `Your event plan could not be used because:\n- ${errors.join('\n- ')}\n\nRespond again with ONLY the corrected JSON object using the "create_event" format. Do not add any other text.`,
+			},
+		);
+
+		try {
+			const response = (await env.AI.run(MODEL_ID, {
+				messages: repairMessages,
+				max_tokens: 1024,
+			})) as { response?: string | object };
+			text = outputToText(response.response);
+		} catch (error) {
+			console.error('Event plan repair request failed:', error);
+			break;
+		}
+
+		({ result, errors } = checkModelOutput(text));
+	}
+
+	if (!result) {
+		return {
+			response: "I tried to put together an event plan but couldn't get the details into shape. Could you confirm the event's title, date and budget?",
+		};
+	}
+
+	return result;
+}
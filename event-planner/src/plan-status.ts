@@ -0,0 +1,155 @@
+/**
+ * Plan Status
+ *
+ * The event plan lifecycle: draft -> in_review -> approved -> published ->
+ * completed, with cancellation allowed until a plan is completed. Every
+ * status change goes through the event store, which enforces these rules
+ * and keeps an audit log of who made each change and when.
+ */
+import { Env, EventPlan, EventStatus, StatusActor, StatusTransition } from './types';
+import { getEventStore } from './event-store';
+import { getSlackToken } from './slack-installations';
+import { SlackService } from './slack';
+
+/**
+ * Statuses each status may move to. Completed and cancelled plans are closed.
+ */
+export const STATUS_TRANSITIONS: Record<EventStatus, EventStatus[]> = {
+	draft: ['in_review', 'cancelled'],
+	// Sending a plan back to draft means changes were requested
+	in_review: ['draft', 'approved', 'cancelled'],
+	approved: ['published', 'cancelled'],
+	published: ['completed', 'cancelled'],
+	completed: [],
+	cancelled: [],
+};
+
+const STATUS_LABELS: Record<EventStatus, string> = {
+	draft: 'Draft',
+	in_review: 'In review',
+	approved: 'Approved',
+	published: 'Published',
+	completed: 'Completed',
+	cancelled: 'Cancelled',
+};
+
+/**
+ * Thrown when a plan cannot move to the requested status
+ */
+export class PlanStatusError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PlanStatusError';
+	}
+}
+
+export function isEventStatus(value: unknown): value is EventStatus {
+	return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STATUS_TRANSITIONS, value);
+}
+
+export function canTransition(from: EventStatus, to: EventStatus): boolean {
+	return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Drafts and plans in review, which can still be approved or discarded
+ */
+export function isUnderReview(status: EventStatus): boolean {
+	return status === 'draft' || status === 'in_review';
+}
+
+/**
+ * Approved and published plans: the event is going ahead
+ */
+export function isConfirmed(status: EventStatus): boolean {
+	return status === 'approved' || status === 'published';
+}
+
+export function isClosed(status: EventStatus): boolean {
+	return STATUS_TRANSITIONS[status].length === 0;
+}
+
+export function describeStatus(status: EventStatus): string {
+	return STATUS_LABELS[status];
+}
+
+/**
+ * Names an actor in Slack text, mentioning Slack users
+ */
+export function describeActor(actor: StatusActor): string {
+	if (actor.source === 'slack' && actor.userId) {
+		return `<@${actor.userId}>`;
+	}
+	if (actor.source === 'system') {
+		return 'the event planner';
+	}
+	return actor.name ?? 'someone on the web';
+}
+
+/**
+ * Moves a stored plan to a new status, optionally saving other fields
+ * (such as where it was posted) in the same step
+ */
+export async function transitionPlanStatus(
+	env: Env,
+	planId: string,
+	to: EventStatus,
+	actor: StatusActor,
+	options: { reason?: string; changes?: Partial<EventPlan> } = {},
+): Promise<{ plan: EventPlan; transition: StatusTransition }> {
+	const result = await getEventStore(env).transitionStatus(planId, to, actor, options.reason, options.changes);
+	if (!result) {
+		throw new PlanStatusError(`No event plan found with id ${planId}`);
+	}
+	if ('error' in result) {
+		throw new PlanStatusError(result.error);
+	}
+	return result;
+}
+
+/**
+ * Approves a draft or a plan in review. Drafts are submitted for review
+ * first, so the audit log always shows the full path; approving an
+ * approved plan again is a no-op.
+ */
+export async function approvePlan(env: Env, plan: EventPlan, actor: StatusActor): Promise<EventPlan> {
+	if (plan.status === 'approved') {
+		return plan;
+	}
+	if (plan.status === 'draft') {
+		await transitionPlanStatus(env, plan.id, 'in_review', actor);
+	}
+	return (await transitionPlanStatus(env, plan.id, 'approved', actor)).plan;
+}
+
+/**
+ * Shows a status change in Slack: the plan message is re-rendered, and a
+ * cancellation is also announced to the channel
+ */
+export async function notifyStatusChange(plan: EventPlan, transition: StatusTransition, env: Env): Promise<void> {
+	if (!plan.slackChannelId) {
+		return;
+	}
+
+	const token = await getSlackToken(env, plan.slackTeamId);
+	if (!token) {
+		console.log('No Slack token for plan:', plan.id);
+		return;
+	}
+
+	const slackService = new SlackService(token, env.PUBLIC_URL);
+	if (transition.to === 'cancelled') {
+		const reason = transition.reason ? `\nReason: ${transition.reason}` : '';
+		const result = await slackService.postEventCancellation(plan, `🚫 This event was cancelled by ${describeActor(transition.actor)}.${reason}`);
+		if (!result.ok) {
+			console.error('Failed to announce cancellation in Slack:', result.error);
+		}
+	}
+
+	if (plan.slackMessageTs) {
+		const result = await slackService.refreshEventPlan(plan);
+		if (!result.ok) {
+			console.error('Failed to refresh Slack plan message:', result.error);
+		}
+	}
+}
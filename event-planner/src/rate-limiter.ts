@@ -0,0 +1,103 @@
+/**
+ * Rate Limiter
+ *
+ * Durable Object counting requests per client in fixed time windows. Each
+ * client gets its own instance, keyed by IP address, so a burst from one
+ * browser cannot use up the limits of others. Over-limit requests get a
+ * 429 with a Retry-After header.
+ */
+import { DurableObject } from 'cloudflare:workers';
+import { Env } from './types';
+
+/**
+ * Limits for each rate-limited route
+ */
+export const RATE_LIMITS = {
+	// Each search can hit several providers and pages
+	'browser-search': { limit: 20, windowMs: 60 * 1000 },
+	// Each query generation is a model call
+	'search-query': { limit: 30, windowMs: 60 * 1000 },
+	// Each research job reads several pages and makes a model call per page
+	'venue-research': { limit: 5, windowMs: 10 * 60 * 1000 },
+} as const;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMITS;
+
+interface RateWindow {
+	startedAt: number;
+	count: number;
+	/** When the window ends and its counter can be deleted */
+	expiresAt: number;
+}
+
+export class RateLimiter extends DurableObject<Env> {
+	/**
+	 * Counts one request against a limit. Returns how many seconds to wait
+	 * when the limit is used up, or 0 when the request may go ahead.
+	 */
+	async consume(route: string, limit: number, windowMs: number): Promise<number> {
+		const now = Date.now();
+		const current = await this.ctx.storage.get<RateWindow>(route);
+		const window = current && now - current.startedAt < windowMs ? current : { startedAt: now, count: 0 };
+
+		if (window.count >= limit) {
+			return Math.max(1, Math.ceil((window.startedAt + windowMs - now) / 1000));
+		}
+
+		const updated: RateWindow = { startedAt: window.startedAt, count: window.count + 1, expiresAt: window.startedAt + windowMs };
+		await this.ctx.storage.put(route, updated);
+		await this.scheduleCleanup();
+		return 0;
+	}
+
+	/**
+	 * Deletes the counters of windows that have ended
+	 */
+	async alarm(): Promise<void> {
+		const now = Date.now();
+		const windows = await this.ctx.storage.list<RateWindow>();
+		// Counters stored before windows had an expiry are cleared too
+		const expired = [...windows].filter(([, window]) => (window.expiresAt ?? 0) <= now).map(([route]) => route);
+		await this.ctx.storage.delete(expired);
+		await this.scheduleCleanup();
+	}
+
+	/**
+	 * Sets the alarm for the earliest window to end, so counters are
+	 * cleared once this client goes quiet without cutting other windows short
+	 */
+	private async scheduleCleanup(): Promise<void> {
+		const windows = await this.ctx.storage.list<RateWindow>();
+		const expiries = [...windows.values()].map((window) => window.expiresAt ?? Date.now());
+		if (expiries.length === 0) {
+			return;
+		}
+		await this.ctx.storage.setAlarm(Math.min(...expiries));
+	}
+}
+
+/**
+ * Identifies the client a request came from
+ */
+function clientKey(request: Request): string {
+	return request.headers.get('CF-Connecting-IP') ?? 'unknown';
+}
+
+/**
+ * Counts a request against its route's limit. Returns a 429 response when
+ * the client is over the limit, or null to let the request through.
+ */
+export async function enforceRateLimit(request: Request, env: Env, route: RateLimitedRoute): Promise<Response | null> {
+	const { limit, windowMs } = RATE_LIMITS[route];
+	const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(clientKey(request)));
+	const retryAfter = await limiter.consume(route, limit, windowMs);
+	if (retryAfter === 0) {
+		return null;
+	}
+
+	console.log(`Rate limit hit on ${route}, retry after ${retryAfter}s`);
+	return new Response(JSON.stringify({ error: 'Too many requests, please slow down', retryAfter }), {
+		status: 429,
+		headers: { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+	});
+}
@@ -0,0 +1,163 @@
+/**
+ * Reminders
+ *
+ * Run by the cron trigger. Posts "event coming up" reminders for approved
+ * plans at the configured offsets before they start, and nudges the team
+ * about timeline tasks that are past their due date and not marked done.
+ * Everything is posted into the plan's Slack thread via postEventUpdate.
+ */
+import { Env, EventPlan, TimelineTask } from './types';
+import { SlackService } from './slack';
+import { getEventStore } from './event-store';
+import { getSlackToken } from './slack-installations';
+import { getEventStart, getEventTimeZone } from './event-time';
+import { describeHeadcount } from './guests';
+import { getTaskDueTime } from './tasks';
+import { isConfirmed } from './plan-status';
+
+// Used when REMINDER_OFFSETS is not set
+const DEFAULT_REMINDER_OFFSETS = '1w,1d,1h';
+
+// Overdue tasks are nudged at most this often per plan
+const NUDGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const UNIT_MS: Record<string, number> = {
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const UNIT_NAMES: Record<string, string> = { m: 'minute', h: 'hour', d: 'day', w: 'week' };
+
+/**
+ * How long before the event a reminder is sent, e.g. { label: '1d', ms: 86400000 }
+ */
+export interface ReminderOffset {
+	label: string;
+	ms: number;
+}
+
+/**
+ * Parses a comma-separated list such as "1w,1d,1h", largest offset first.
+ * Entries that are not a number followed by m, h, d or w are ignored.
+ */
+export function parseReminderOffsets(spec: string | undefined): ReminderOffset[] {
+	return (spec || DEFAULT_REMINDER_OFFSETS)
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase().match(/^(\d+)\s*([mhdw])$/))
+		.filter((match): match is RegExpMatchArray => match !== null && Number(match[1]) > 0)
+		.map((match) => ({ label: `${Number(match[1])}${match[2]}`, ms: Number(match[1]) * UNIT_MS[match[2]] }))
+		.sort((a, b) => b.ms - a.ms);
+}
+
+/**
+ * Describes the time left until the event in its largest whole unit,
+ * e.g. "3 days", "5 hours" or "40 minutes"
+ */
+export function describeTimeUntil(ms: number): string {
+	const unit = ['d', 'h'].find((candidate) => ms >= UNIT_MS[candidate]) ?? 'm';
+	const amount = Math.max(1, Math.round(ms / UNIT_MS[unit]));
+	return `${amount} ${UNIT_NAMES[unit]}${amount === 1 ? '' : 's'}`;
+}
+
+/**
+ * Lists timeline tasks that are past due and not marked done
+ */
+export function findOverdueTasks(plan: EventPlan, eventStart: Date, now: Date): TimelineTask[] {
+	return (plan.timeline ?? []).filter((task) => {
+		const due = getTaskDueTime(task, eventStart);
+		return !task.done && due !== null && due.getTime() <= now.getTime();
+	});
+}
+
+function describeOverdueTask(task: TimelineTask): string {
+	const owner = task.assigneeSlackId ? ` (<@${task.assigneeSlackId}>)` : task.assignee ? ` (${task.assignee})` : '';
+	return `• ${task.title}${owner}`;
+}
+
+/**
+ * Scans approved plans and posts any reminders and nudges that are due
+ */
+export async function runScheduledReminders(env: Env, now: Date = new Date()): Promise<void> {
+	const store = getEventStore(env);
+	const offsets = parseReminderOffsets(env.REMINDER_OFFSETS);
+
+	const plans = (await store.listPlans()).filter(
+		(plan) => isConfirmed(plan.status) && plan.slackChannelId,
+	);
+	console.log(`Checking reminders for ${plans.length} approved plans`);
+
+	for (const plan of plans) {
+		try {
+			await processPlanReminders(env, plan, offsets, now);
+		} catch (error) {
+			console.error(`Failed to process reminders for plan ${plan.id}:`, error);
+		}
+	}
+}
+
+async function processPlanReminders(
+	env: Env,
+	plan: EventPlan,
+	offsets: ReminderOffset[],
+	now: Date,
+): Promise<void> {
+	const start = getEventStart(plan, getEventTimeZone(env, plan));
+	if (!start || start.getTime() <= now.getTime()) {
+		return;
+	}
+
+	const untilStart = start.getTime() - now.getTime();
+	const sent = new Set(plan.remindersSent ?? []);
+	// When several offsets have passed at once (e.g. a plan approved late), a single reminder covers them all
+	const due = offsets.filter((offset) => offset.ms >= untilStart && !sent.has(offset.label));
+
+	const overdue = findOverdueTasks(plan, start, now);
+	const lastNudge = plan.lastNudgeAt ? new Date(plan.lastNudgeAt).getTime() : 0;
+	const shouldNudge = overdue.length > 0 && now.getTime() - lastNudge >= NUDGE_INTERVAL_MS;
+
+	if (due.length === 0 && !shouldNudge) {
+		return;
+	}
+
+	const token = await getSlackToken(env, plan.slackTeamId);
+	if (!token) {
+		console.log('No Slack token for plan:', plan.id);
+		return;
+	}
+
+	const slackService = new SlackService(token);
+	const changes: Partial<EventPlan> = {};
+
+	if (due.length > 0) {
+		const result = await slackService.postEventUpdate(
+			plan.slackChannelId!,
+			`⏰ Reminder: *${plan.title}* starts in ${describeTimeUntil(untilStart)} (${plan.date}${plan.time ? ` at ${plan.time}` : ''}).` +
+				(plan.guests?.length ? `\nGuests: ${describeHeadcount(plan.guests)}` : ''),
+			plan,
+		);
+		if (result.ok) {
+			changes.remindersSent = [...sent, ...due.map((offset) => offset.label)];
+		} else {
+			console.error('Failed to post reminder:', result.error);
+		}
+	}
+
+	if (shouldNudge) {
+		const result = await slackService.postEventUpdate(
+			plan.slackChannelId!,
+			`📋 These tasks are past due and not marked done yet:\n${overdue.map(describeOverdueTask).join('\n')}`,
+			plan,
+		);
+		if (result.ok) {
+			changes.lastNudgeAt = now.toISOString();
+		} else {
+			console.error('Failed to post task nudge:', result.error);
+		}
+	}
+
+	if (Object.keys(changes).length > 0) {
+		await getEventStore(env).updatePlan(plan.id, changes);
+	}
+}
@@ -4,11 +4,40 @@
  * Handles URL routing and request delegation
  */
 import { Env } from './types';
-import { handleChatRequest } from './handlers/chat';
-import { handleEventApproval } from './handlers/events';
+import { handleChatRequest, handleGetSession, handleDeleteSession } from './handlers/chat';
+import {
+	handleEventApproval,
+	handleListEvents,
+	handleCreateEvent,
+	handleGetEvent,
+	handleUpdateEvent,
+	handleDeleteEvent,
+	handleEditEvent,
+	handleListEventVersions,
+	handleRollbackEvent,
+	handleUpdateTask,
+	handleChangeStatus,
+	handleGetStatusHistory,
+	handleAddVendor,
+	handleUpdateVendor,
+	handleRemoveVendor,
+} from './handlers/events';
 import { handleSlackWebhook } from './handlers/slack';
+import { handleSlackInteraction } from './handlers/slack-interactions';
+import { handleSlackCommand } from './handlers/slack-commands';
+import { handleSlackInstall, handleSlackOAuthCallback } from './handlers/slack-oauth';
 import { handleBrowserSearch } from './handlers/browser';
 import { handleSearchQueryGeneration } from './handlers/search-query';
+import { handleEventCalendar, handleCalendarFeed, handleCalendarFeedUrl, handleImportCalendar } from './handlers/calendar';
+import { handleGetRsvp, handleSubmitRsvp } from './handlers/rsvp';
+import {
+	handleStartVenueResearch,
+	handleGetVenueResearch,
+	handleResumeVenueResearch,
+	handleAttachVenueResearch,
+} from './handlers/venue-research';
+import { handleListSlackChannels } from './handlers/slack-channels';
+import { authenticateRequest, authorizePlan, unauthorizedResponse } from './auth';
 
 /**
  * Main router function that delegates requests to appropriate handlers
@@ -27,14 +56,207 @@ export async function router(
 		return env.ASSETS.fetch(request);
 	}
 
+	// Guest RSVPs (public RSVP page)
+	const rsvpMatch = path.match(/^\/api\/events\/([^/]+)\/rsvp$/);
+	if (rsvpMatch) {
+		const eventId = decodeURIComponent(rsvpMatch[1]);
+		if (method === 'GET') {
+			return handleGetRsvp(eventId, env);
+		}
+		if (method === 'POST') {
+			return handleSubmitRsvp(eventId, request, env, ctx);
+		}
+	}
+
+	// Event calendar file (linked from the RSVP page)
+	const eventCalendarMatch = path.match(/^\/api\/events\/([^/]+)\/calendar\.ics$/);
+	if (eventCalendarMatch && method === 'GET') {
+		return handleEventCalendar(decodeURIComponent(eventCalendarMatch[1]), env);
+	}
+
+	// Calendar feed of a user's plans, opened with its secret token
+	if (path === '/api/calendar.ics' && method === 'GET') {
+		return handleCalendarFeed(request, env);
+	}
+
+	// Slack webhook endpoint
+	if (path === '/slack/events' && method === 'POST') {
+		return handleSlackWebhook(request, env, ctx);
+	}
+
+	// Slack slash commands (/plan)
+	if (path === '/slack/commands' && method === 'POST') {
+		return handleSlackCommand(request, env);
+	}
+
+	// Slack interactivity (plan buttons and modals)
+	if (path === '/slack/interactions' && method === 'POST') {
+		return handleSlackInteraction(request, env, ctx);
+	}
+
+	// Slack app installation (OAuth)
+	if (path === '/slack/install' && method === 'GET') {
+		return handleSlackInstall(request, env);
+	}
+
+	if (path === '/slack/oauth' && method === 'GET') {
+		return handleSlackOAuthCallback(request, env);
+	}
+
+	// Everything else needs a signed-in user
+	if (!path.startsWith('/api/')) {
+		return new Response('Method not allowed', { status: 405 });
+	}
+	const user = await authenticateRequest(request, env);
+	if (!user) {
+		return unauthorizedResponse();
+	}
+
+	// Routes on one plan are only open to its owner
+	const planMatch = path.match(/^\/api\/events\/([^/]+)/);
+	if (planMatch && planMatch[1] !== 'import') {
+		const denied = await authorizePlan(env, user, decodeURIComponent(planMatch[1]));
+		if (denied) {
+			return denied;
+		}
+	}
+
 	// API Routes
 	if (path === '/api/chat' && method === 'POST') {
-		return handleChatRequest(request, env);
+		return handleChatRequest(request, env, ctx, user);
+	}
+
+	// Chat sessions
+	const sessionMatch = path.match(/^\/api\/sessions\/([^/]+)$/);
+	if (sessionMatch) {
+		const sessionId = decodeURIComponent(sessionMatch[1]);
+		if (method === 'GET') {
+			return handleGetSession(sessionId, env, user);
+		}
+		if (method === 'DELETE') {
+			return handleDeleteSession(sessionId, env, user);
+		}
 	}
 
 	// Event approval and Slack integration
 	if (path === '/api/approve-event' && method === 'POST') {
-		return handleEventApproval(request, env);
+		return handleEventApproval(request, env, ctx, user);
+	}
+
+	// Channels for the approval card's channel picker
+	if (path === '/api/slack/channels' && method === 'GET') {
+		return handleListSlackChannels(request, env, user);
+	}
+
+	// Stored event plans
+	if (path === '/api/events') {
+		if (method === 'GET') {
+			return handleListEvents(env, user);
+		}
+		if (method === 'POST') {
+			return handleCreateEvent(request, env, user);
+		}
+	}
+
+	// Calendar import
+	if (path === '/api/events/import' && method === 'POST') {
+		return handleImportCalendar(request, env, user);
+	}
+
+	const eventMatch = path.match(/^\/api\/events\/([^/]+)$/);
+	if (eventMatch) {
+		const eventId = decodeURIComponent(eventMatch[1]);
+		if (method === 'GET') {
+			return handleGetEvent(eventId, env);
+		}
+		if (method === 'PATCH') {
+			return handleUpdateEvent(eventId, request, env, user);
+		}
+		if (method === 'DELETE') {
+			return handleDeleteEvent(eventId, env);
+		}
+	}
+
+	// Plan edits and version history
+	const eventActionMatch = path.match(/^\/api\/events\/([^/]+)\/(edit|versions|rollback)$/);
+	if (eventActionMatch) {
+		const eventId = decodeURIComponent(eventActionMatch[1]);
+		const action = eventActionMatch[2];
+		if (action === 'edit' && method === 'POST') {
+			return handleEditEvent(eventId, request, env);
+		}
+		if (action === 'versions' && method === 'GET') {
+			return handleListEventVersions(eventId, env);
+		}
+		if (action === 'rollback' && method === 'POST') {
+			return handleRollbackEvent(eventId, request, env);
+		}
+	}
+
+	// Status lifecycle and its audit log
+	const statusMatch = path.match(/^\/api\/events\/([^/]+)\/(status|history)$/);
+	if (statusMatch) {
+		const eventId = decodeURIComponent(statusMatch[1]);
+		if (statusMatch[2] === 'status' && method === 'POST') {
+			return handleChangeStatus(eventId, request, env, ctx, user);
+		}
+		if (statusMatch[2] === 'history' && method === 'GET') {
+			return handleGetStatusHistory(eventId, env);
+		}
+	}
+
+	// Timeline task progress
+	const taskMatch = path.match(/^\/api\/events\/([^/]+)\/tasks\/([^/]+)$/);
+	if (taskMatch && method === 'PATCH') {
+		return handleUpdateTask(decodeURIComponent(taskMatch[1]), decodeURIComponent(taskMatch[2]), request, env, ctx);
+	}
+
+	// Vendors pinned from search results
+	const vendorsMatch = path.match(/^\/api\/events\/([^/]+)\/vendors$/);
+	if (vendorsMatch && method === 'POST') {
+		return handleAddVendor(decodeURIComponent(vendorsMatch[1]), request, env, ctx);
+	}
+
+	const vendorMatch = path.match(/^\/api\/events\/([^/]+)\/vendors\/([^/]+)$/);
+	if (vendorMatch) {
+		const eventId = decodeURIComponent(vendorMatch[1]);
+		const vendorId = decodeURIComponent(vendorMatch[2]);
+		if (method === 'PATCH') {
+			return handleUpdateVendor(eventId, vendorId, request, env, ctx);
+		}
+		if (method === 'DELETE') {
+			return handleRemoveVendor(eventId, vendorId, env, ctx);
+		}
+	}
+
+	// Venue research jobs
+	const venueResearchStartMatch = path.match(/^\/api\/events\/([^/]+)\/venue-research$/);
+	if (venueResearchStartMatch && method === 'POST') {
+		return handleStartVenueResearch(decodeURIComponent(venueResearchStartMatch[1]), request, env);
+	}
+
+	const venueResearchMatch = path.match(/^\/api\/venue-research\/([^/]+)(?:\/(resume|attach))?$/);
+	if (venueResearchMatch) {
+		const jobId = decodeURIComponent(venueResearchMatch[1]);
+		const action = venueResearchMatch[2];
+		if (!action && method === 'GET') {
+			return handleGetVenueResearch(jobId, env, user);
+		}
+		if (action === 'resume' && method === 'POST') {
+			return handleResumeVenueResearch(jobId, env, user);
+		}
+		if (action === 'attach' && method === 'POST') {
+			return handleAttachVenueResearch(jobId, request, env, user);
+		}
+	}
+
+	// Calendar feed URL with the user's secret token
+	if (path === '/api/calendar/feed' && method === 'GET') {
+		return handleCalendarFeedUrl(request, env, user);
+	}
+
+	if (path === '/api/calendar/feed/reset' && method === 'POST') {
+		return handleCalendarFeedUrl(request, env, user, true);
 	}
 
 	// Browser search endpoint
@@ -47,16 +269,6 @@ export async function router(
 		return handleSearchQueryGeneration(request, env);
 	}
 
-	// Slack webhook endpoint
-	if (path === '/slack/events' && method === 'POST') {
-		return handleSlackWebhook(request, env);
-	}
-
 	// Handle method not allowed
-	if (path.startsWith('/api/') || path.startsWith('/slack/')) {
-		return new Response('Method not allowed', { status: 405 });
-	}
-
-	// Handle 404 for unmatched routes
-	return new Response('Not found', { status: 404 });
+	return new Response('Method not allowed', { status: 405 });
 }
\ No newline at end of file
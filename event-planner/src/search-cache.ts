@@ -0,0 +1,85 @@
+/**
+ * Search Cache
+ *
+ * Durable Object caching web search results and extracted pages, so
+ * repeated clicks on the same search do not hit the search providers
+ * (and get the worker throttled) or fetch the same page again. Slack
+ * channel lists for the channel picker are kept here too. Entries expire
+ * after a TTL and are pruned by an alarm.
+ */
+import { DurableObject } from 'cloudflare:workers';
+import { Env } from './types';
+
+const ENTRY_PREFIX = 'entry:';
+
+// How often expired entries are pruned while the cache holds any
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// All workers share one cache instance
+const CACHE_NAME = 'default';
+
+interface CacheEntry {
+	value: unknown;
+	expiresAt: number;
+}
+
+export class SearchCache extends DurableObject<Env> {
+	/**
+	 * Returns the cached value, or null when it is missing or expired
+	 */
+	async get(key: string): Promise<unknown> {
+		const entry = await this.ctx.storage.get<CacheEntry>(ENTRY_PREFIX + key);
+		if (!entry) {
+			return null;
+		}
+		if (entry.expiresAt <= Date.now()) {
+			await this.ctx.storage.delete(ENTRY_PREFIX + key);
+			return null;
+		}
+		return entry.value;
+	}
+
+	async put(key: string, value: unknown, ttlMs: number): Promise<void> {
+		const entry: CacheEntry = { value, expiresAt: Date.now() + ttlMs };
+		await this.ctx.storage.put(ENTRY_PREFIX + key, entry);
+
+		if ((await this.ctx.storage.getAlarm()) === null) {
+			await this.ctx.storage.setAlarm(Date.now() + PRUNE_INTERVAL_MS);
+		}
+	}
+
+	/**
+	 * Deletes expired entries and schedules the next pruning run
+	 */
+	async alarm(): Promise<void> {
+		const now = Date.now();
+		const entries = await this.ctx.storage.list<CacheEntry>({ prefix: ENTRY_PREFIX });
+		const expired = [...entries]
+			.filter(([, entry]) => entry.expiresAt <= now)
+			.map(([key]) => key);
+
+		// storage.delete accepts at most 128 keys per call
+		for (let i = 0; i < expired.length; i += 128) {
+			await this.ctx.storage.delete(expired.slice(i, i + 128));
+		}
+
+		if (entries.size > expired.length) {
+			await this.ctx.storage.setAlarm(Date.now() + PRUNE_INTERVAL_MS);
+		}
+	}
+}
+
+/**
+ * Lower-cases a query and collapses whitespace and punctuation, so
+ * "Leeds  venues!" and "leeds venues" share a cache entry
+ */
+export function normalizeQuery(query: string): string {
+	return query.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Returns a stub for the shared search cache
+ */
+export function getSearchCache(env: Env): DurableObjectStub<SearchCache> {
+	return env.SEARCH_CACHE.get(env.SEARCH_CACHE.idFromName(CACHE_NAME));
+}
@@ -0,0 +1,279 @@
+/**
+ * Search Providers
+ *
+ * Web search backends behind a common SearchProvider interface. Queries
+ * go through the chain configured in SEARCH_PROVIDERS in order: a
+ * provider that fails or finds nothing hands over to the next, and each
+ * result's `source` names the provider that answered. Providers without
+ * their credentials or bindings are left out of the chain.
+ */
+import { Env, SearchResult } from './types';
+import { withHeadlessBrowser, isHeadlessBrowserConfigured, headlessBrowserName } from './headless-browser';
+import { decodeEntities } from './page-extraction';
+
+// Chain used when SEARCH_PROVIDERS is not set; unconfigured providers are skipped
+const DEFAULT_CHAIN = ['brave', 'google', 'duckduckgo', 'browser'];
+
+// How long a single provider may take before the next one is tried
+const SEARCH_TIMEOUT_MS = 10000;
+
+const BROWSER_USER_AGENT =
+	'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+export interface SearchProvider {
+	/** Recorded as the `source` of every result this provider returns */
+	readonly name: string;
+	/** Throws when the backend fails, so the chain can fall back */
+	search(query: string, maxResults: number): Promise<SearchResult[]>;
+}
+
+/**
+ * Thrown when a search backend cannot be reached or rejects a query
+ */
+export class SearchProviderError extends Error {
+	constructor(provider: string, message: string) {
+		super(`${provider}: ${message}`);
+		this.name = 'SearchProviderError';
+	}
+}
+
+function truncateResult(result: SearchResult): SearchResult {
+	return {
+		...result,
+		title: result.title.slice(0, 100),
+		description: result.description.slice(0, 200),
+	};
+}
+
+/**
+ * Parses results from DuckDuckGo's HTML endpoint
+ */
+export function parseDuckDuckGoResults(html: string, maxResults: number, source: string): SearchResult[] {
+	const results: SearchResult[] = [];
+
+	const resultPattern = /<div class="result[^"]*">.*?<\/div>/gs;
+	const titlePattern = /<a[^>]*class="result__a"[^>]*href="([^"]*)"[^>]*>([^<]+)<\/a>/;
+	const snippetPattern = /<a[^>]*class="result__snippet"[^>]*>([^<]+)<\/a>/;
+
+	for (const resultBlock of html.match(resultPattern) ?? []) {
+		if (results.length >= maxResults) {
+			break;
+		}
+
+		const titleMatch = resultBlock.match(titlePattern);
+		const snippetMatch = resultBlock.match(snippetPattern);
+		if (!titleMatch || !titleMatch[1] || !titleMatch[2]) {
+			continue;
+		}
+
+		let url = decodeEntities(titleMatch[1]);
+		const title = decodeEntities(titleMatch[2].trim());
+		const description = snippetMatch ? decodeEntities(snippetMatch[1].trim()) : 'No description available';
+
+		// DuckDuckGo links go through a redirect that carries the real URL
+		if (url.startsWith('//duckduckgo.com/l/?')) {
+			url = new URLSearchParams(url.split('?')[1]).get('uddg') || url;
+		}
+
+		if (url && !url.includes('duckduckgo.com') && title.length > 0) {
+			results.push(truncateResult({ title, url, description, source }));
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Scrapes DuckDuckGo's HTML results page
+ */
+export class DuckDuckGoProvider implements SearchProvider {
+	readonly name = 'duckduckgo';
+
+	async search(query: string, maxResults: number): Promise<SearchResult[]> {
+		const response = await fetch(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`, {
+			headers: {
+				'User-Agent': BROWSER_USER_AGENT,
+				'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+				'Accept-Language': 'en-US,en;q=0.5',
+			},
+			signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+		});
+		if (!response.ok) {
+			throw new SearchProviderError(this.name, `request failed with ${response.status} ${response.statusText}`);
+		}
+
+		return parseDuckDuckGoResults(await response.text(), maxResults, this.name);
+	}
+}
+
+/**
+ * Loads DuckDuckGo's results page in a headless browser, which gets
+ * through where a plain fetch is blocked
+ */
+export class HeadlessBrowserProvider implements SearchProvider {
+	readonly name: string;
+
+	constructor(private env: Env) {
+		this.name = headlessBrowserName(env);
+	}
+
+	async search(query: string, maxResults: number): Promise<SearchResult[]> {
+		return await withHeadlessBrowser(this.env, SEARCH_TIMEOUT_MS, async (browser) => {
+			const page = await browser.newPage();
+			await page.setUserAgent(BROWSER_USER_AGENT);
+			await page.goto(`https://html.duckduckgo.com/html/?q=${encodeURIComponent(query)}`, {
+				waitUntil: 'domcontentloaded',
+				timeout: SEARCH_TIMEOUT_MS,
+			});
+			return parseDuckDuckGoResults(await page.content(), maxResults, this.name);
+		});
+	}
+}
+
+/**
+ * Brave Search API (BRAVE_SEARCH_API_KEY)
+ */
+export class BraveSearchProvider implements SearchProvider {
+	readonly name = 'brave';
+
+	constructor(private apiKey: string) {}
+
+	async search(query: string, maxResults: number): Promise<SearchResult[]> {
+		const url = `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=${Math.min(maxResults, 20)}`;
+		const response = await fetch(url, {
+			headers: { 'Accept': 'application/json', 'X-Subscription-Token': this.apiKey },
+			signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+		});
+		if (!response.ok) {
+			throw new SearchProviderError(this.name, `request failed with ${response.status} ${response.statusText}`);
+		}
+
+		const data = (await response.json()) as { web?: { results?: Array<{ title?: string; url?: string; description?: string }> } };
+		return (data.web?.results ?? [])
+			.filter((result) => result.title && result.url)
+			.slice(0, maxResults)
+			.map((result) => truncateResult({
+				title: result.title!,
+				url: result.url!,
+				// Brave highlights matches with <strong>
+				description: result.description?.replace(/<[^>]+>/g, '') || 'No description available',
+				source: this.name,
+			}));
+	}
+}
+
+/**
+ * Google Programmable Search (GOOGLE_SEARCH_API_KEY and GOOGLE_SEARCH_ENGINE_ID)
+ */
+export class GoogleSearchProvider implements SearchProvider {
+	readonly name = 'google';
+
+	constructor(private apiKey: string, private engineId: string) {}
+
+	async search(query: string, maxResults: number): Promise<SearchResult[]> {
+		const params = new URLSearchParams({
+			key: this.apiKey,
+			cx: this.engineId,
+			q: query,
+			// The API returns at most 10 results per request
+			num: String(Math.min(maxResults, 10)),
+		});
+		const response = await fetch(`https://www.googleapis.com/customsearch/v1?${params}`, {
+			signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+		});
+		if (!response.ok) {
+			throw new SearchProviderError(this.name, `request failed with ${response.status} ${response.statusText}`);
+		}
+
+		const data = (await response.json()) as { items?: Array<{ title?: string; link?: string; snippet?: string }> };
+		return (data.items ?? [])
+			.filter((item) => item.title && item.link)
+			.slice(0, maxResults)
+			.map((item) => truncateResult({
+				title: item.title!,
+				url: item.link!,
+				description: item.snippet || 'No description available',
+				source: this.name,
+			}));
+	}
+}
+
+/**
+ * Returns canned results without any network access, for offline
+ * development and tests. Without fixed results it makes up results that
+ * mention the query.
+ */
+export class MockSearchProvider implements SearchProvider {
+	readonly name = 'mock';
+
+	constructor(private results?: Omit<SearchResult, 'source'>[]) {}
+
+	async search(query: string, maxResults: number): Promise<SearchResult[]> {
+		const results = this.results ?? Array.from({ length: maxResults }, (_, index) => ({
+			title: `${query} result ${index + 1}`,
+			url: `https://example.com/search/${encodeURIComponent(query)}/${index + 1}`,
+			description: `Example result ${index + 1} for "${query}"`,
+		}));
+		return results.slice(0, maxResults).map((result) => ({ ...result, source: this.name }));
+	}
+}
+
+/**
+ * Builds a provider by name, or returns null if it is unknown or not
+ * configured in this environment
+ */
+function createProvider(name: string, env: Env): SearchProvider | null {
+	switch (name) {
+		case 'duckduckgo':
+			return new DuckDuckGoProvider();
+		case 'browser':
+			return isHeadlessBrowserConfigured(env) ? new HeadlessBrowserProvider(env) : null;
+		case 'brave':
+			return env.BRAVE_SEARCH_API_KEY ? new BraveSearchProvider(env.BRAVE_SEARCH_API_KEY) : null;
+		case 'google':
+			return env.GOOGLE_SEARCH_API_KEY && env.GOOGLE_SEARCH_ENGINE_ID
+				? new GoogleSearchProvider(env.GOOGLE_SEARCH_API_KEY, env.GOOGLE_SEARCH_ENGINE_ID)
+				: null;
+		case 'mock':
+			return new MockSearchProvider();
+		default:
+			console.log('Unknown search provider:', name);
+			return null;
+	}
+}
+
+/**
+ * The configured fallback chain, e.g. SEARCH_PROVIDERS="brave,duckduckgo,browser"
+ */
+export function createSearchProviders(env: Env): SearchProvider[] {
+	const names = env.SEARCH_PROVIDERS
+		? env.SEARCH_PROVIDERS.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean)
+		: DEFAULT_CHAIN;
+	return names.map((name) => createProvider(name, env)).filter((provider): provider is SearchProvider => provider !== null);
+}
+
+/**
+ * Tries each provider in order and returns the first non-empty results.
+ * Returns an empty list only when every provider failed or found nothing.
+ */
+export async function searchWithFallback(
+	providers: SearchProvider[],
+	query: string,
+	maxResults: number,
+): Promise<SearchResult[]> {
+	for (const provider of providers) {
+		try {
+			const results = await provider.search(query, maxResults);
+			if (results.length > 0) {
+				console.log(`Search answered by ${provider.name} with ${results.length} results`);
+				return results;
+			}
+			console.log(`Search provider ${provider.name} found nothing, trying the next one`);
+		} catch (error) {
+			console.error(`Search provider ${provider.name} failed:`, error instanceof Error ? error.message : error);
+		}
+	}
+
+	console.log(`No search provider returned results for: ${query}`);
+	return [];
+}
@@ -0,0 +1,116 @@
+/**
+ * Slack Channels
+ *
+ * Lists the channels a plan can be posted to, for the web app's channel
+ * picker, and gets the bot into a channel before it posts there. Listing a
+ * large workspace takes several paginated calls, so each workspace's list
+ * is kept in the search cache for a few minutes.
+ */
+import { Env } from './types';
+import { SlackService, SlackChannel } from './slack';
+import { getSearchCache } from './search-cache';
+
+const CHANNELS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Public channels start with C; older private channels with G
+const CHANNEL_ID_PATTERN = /^[CG][A-Z0-9]{6,}$/;
+
+// Explanations for the Slack API errors people are likely to hit when posting
+const SLACK_ERROR_HINTS: Record<string, string> = {
+	not_in_channel: 'the app is not a member of the channel; add it with /invite @<app name>',
+	channel_not_found: 'the channel does not exist, or it is private and the app has not been invited',
+	method_not_supported_for_channel_type: 'the app cannot join private channels by itself; add it with /invite @<app name>',
+	is_archived: 'the channel is archived',
+	restricted_action: 'the workspace does not allow the app to post in this channel',
+	missing_scope: 'the Slack app is missing a permission; reinstall it from /slack/install',
+	not_authed: 'the Slack bot token is missing or invalid',
+	invalid_auth: 'the Slack bot token is missing or invalid',
+	token_revoked: 'the Slack app was uninstalled; reinstall it from /slack/install',
+	account_inactive: 'the Slack app was uninstalled; reinstall it from /slack/install',
+	ratelimited: 'Slack is rate limiting the app; try again in a minute',
+	invalid_blocks: 'Slack rejected the formatting of the plan message',
+};
+
+/**
+ * Names a Slack API error and says what it means, e.g.
+ * "not_in_channel (the app is not a member of the channel; …)"
+ */
+export function describeSlackError(error?: string): string {
+	if (!error) {
+		return 'unknown error';
+	}
+	const hint = Object.prototype.hasOwnProperty.call(SLACK_ERROR_HINTS, error) ? SLACK_ERROR_HINTS[error] : undefined;
+	return hint ? `${error} (${hint})` : error;
+}
+
+/**
+ * Lists the workspace's channels, from the cache unless `refresh` is set
+ */
+export async function listWorkspaceChannels(
+	env: Env,
+	slack: SlackService,
+	teamId: string | undefined,
+	refresh: boolean = false,
+): Promise<{ channels?: SlackChannel[]; error?: string }> {
+	const cache = getSearchCache(env);
+	const key = `slack-channels:${teamId ?? 'default'}`;
+	if (!refresh) {
+		const cached = (await cache.get(key)) as SlackChannel[] | null;
+		if (cached) {
+			return { channels: cached };
+		}
+	}
+
+	const { channels, error } = await slack.listChannels();
+	if (!channels) {
+		return { error };
+	}
+
+	channels.sort((a, b) => a.name.localeCompare(b.name));
+	await cache.put(key, channels, CHANNELS_CACHE_TTL_MS);
+	return { channels };
+}
+
+/**
+ * Resolves a channel given by id or #name and makes sure the bot is in
+ * it, joining public channels it is not in yet. Returns the channel id,
+ * or a description of what is wrong.
+ */
+export async function ensureBotInChannel(
+	env: Env,
+	slack: SlackService,
+	teamId: string | undefined,
+	channel: string,
+): Promise<{ channelId?: string; error?: string }> {
+	let channelId = channel.trim();
+	if (!CHANNEL_ID_PATTERN.test(channelId)) {
+		const name = channelId.replace(/^#/, '');
+		const { channels, error } = await listWorkspaceChannels(env, slack, teamId);
+		if (!channels) {
+			return { error: describeSlackError(error) };
+		}
+		const match = channels.find((entry) => entry.name === name);
+		if (!match) {
+			return { error: describeSlackError('channel_not_found') };
+		}
+		channelId = match.id;
+	}
+
+	const info = await slack.getChannel(channelId);
+	if (!info.channel) {
+		return { error: describeSlackError(info.error) };
+	}
+	if (info.channel.isMember) {
+		return { channelId };
+	}
+	if (info.channel.isPrivate) {
+		return { error: describeSlackError('not_in_channel') };
+	}
+
+	const joined = await slack.joinChannel(channelId);
+	if (!joined.ok) {
+		return { error: describeSlackError(joined.error) };
+	}
+	console.log(`Joined Slack channel #${info.channel.name} (${channelId}) to post a plan`);
+	return { channelId };
+}
@@ -0,0 +1,81 @@
+/**
+ * Slack Event Log
+ *
+ * Durable Object recording which Slack Events API deliveries have been
+ * handled. Slack retries any event that is not acknowledged within three
+ * seconds, so each event_id is claimed once and later deliveries are
+ * dropped. Records are pruned by an alarm once retries can no longer arrive.
+ */
+import { DurableObject } from 'cloudflare:workers';
+import { Env } from './types';
+
+const EVENT_PREFIX = 'event:';
+
+// Slack gives up retrying well within this window
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// All deliveries are checked against a single log instance
+const LOG_NAME = 'default';
+
+/**
+ * Idempotency record for one Slack event
+ */
+interface SlackEventRecord {
+	eventId: string;
+	receivedAt: string;
+	/** Number of retried deliveries seen after the first one */
+	retries: number;
+}
+
+export class SlackEventLog extends DurableObject<Env> {
+	/**
+	 * Claims an event for processing. Returns false when the event was
+	 * already claimed by an earlier delivery.
+	 *
+	 * @param retryNum Value of the X-Slack-Retry-Num header, if any
+	 */
+	async claim(eventId: string, retryNum?: number): Promise<boolean> {
+		const key = EVENT_PREFIX + eventId;
+		const existing = await this.ctx.storage.get<SlackEventRecord>(key);
+
+		if (existing) {
+			await this.ctx.storage.put(key, { ...existing, retries: Math.max(existing.retries + 1, retryNum ?? 0) });
+			return false;
+		}
+
+		const record: SlackEventRecord = { eventId, receivedAt: new Date().toISOString(), retries: 0 };
+		await this.ctx.storage.put(key, record);
+
+		if ((await this.ctx.storage.getAlarm()) === null) {
+			await this.ctx.storage.setAlarm(Date.now() + RECORD_TTL_MS);
+		}
+		return true;
+	}
+
+	/**
+	 * Deletes expired records and schedules the next pruning run
+	 */
+	async alarm(): Promise<void> {
+		const cutoff = new Date(Date.now() - RECORD_TTL_MS).toISOString();
+		const entries = await this.ctx.storage.list<SlackEventRecord>({ prefix: EVENT_PREFIX });
+		const expired = [...entries]
+			.filter(([, record]) => record.receivedAt < cutoff)
+			.map(([key]) => key);
+
+		// storage.delete accepts at most 128 keys per call
+		for (let i = 0; i < expired.length; i += 128) {
+			await this.ctx.storage.delete(expired.slice(i, i + 128));
+		}
+
+		if (entries.size > expired.length) {
+			await this.ctx.storage.setAlarm(Date.now() + RECORD_TTL_MS);
+		}
+	}
+}
+
+/**
+ * Returns a stub for the shared Slack event log
+ */
+export function getSlackEventLog(env: Env): DurableObjectStub<SlackEventLog> {
+	return env.SLACK_EVENT_LOG.get(env.SLACK_EVENT_LOG.idFromName(LOG_NAME));
+}
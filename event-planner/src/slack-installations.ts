@@ -0,0 +1,85 @@
+/**
+ * Slack Installations
+ *
+ * Durable Object holding the bot token of every workspace that installed
+ * the app, plus the short-lived OAuth state values that protect the
+ * install redirect. The workspace named by SLACK_TEAM_ID, and requests
+ * that name no workspace, fall back to the SLACK_BOT_TOKEN secret, so
+ * single-workspace setups keep working.
+ */
+import { DurableObject } from 'cloudflare:workers';
+import { Env, SlackInstallation } from './types';
+
+const TEAM_PREFIX = 'team:';
+const STATE_PREFIX = 'state:';
+
+// How long an install link stays valid
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// All installations live in a single store instance
+const STORE_NAME = 'default';
+
+export class SlackInstallationStore extends DurableObject<Env> {
+	async getInstallation(teamId: string): Promise<SlackInstallation | null> {
+		return (await this.ctx.storage.get<SlackInstallation>(TEAM_PREFIX + teamId)) ?? null;
+	}
+
+	/**
+	 * Stores an installation, replacing any earlier one for the same team
+	 */
+	async saveInstallation(installation: SlackInstallation): Promise<void> {
+		await this.ctx.storage.put(TEAM_PREFIX + installation.teamId, installation);
+	}
+
+	async deleteInstallation(teamId: string): Promise<boolean> {
+		return await this.ctx.storage.delete(TEAM_PREFIX + teamId);
+	}
+
+	/**
+	 * Creates a single-use state value for an install redirect
+	 */
+	async createState(): Promise<string> {
+		const state = crypto.randomUUID();
+		await this.ctx.storage.put(STATE_PREFIX + state, Date.now() + STATE_TTL_MS);
+		return state;
+	}
+
+	/**
+	 * Consumes a state value. Returns false if it is unknown, used or expired.
+	 */
+	async consumeState(state: string): Promise<boolean> {
+		const key = STATE_PREFIX + state;
+		const expiresAt = await this.ctx.storage.get<number>(key);
+		if (expiresAt === undefined) {
+			return false;
+		}
+
+		await this.ctx.storage.delete(key);
+		return expiresAt > Date.now();
+	}
+}
+
+/**
+ * Returns a stub for the shared installation store
+ */
+export function getSlackInstallations(env: Env): DurableObjectStub<SlackInstallationStore> {
+	return env.SLACK_INSTALLATIONS.get(env.SLACK_INSTALLATIONS.idFromName(STORE_NAME));
+}
+
+/**
+ * Looks up the bot token for a workspace. SLACK_BOT_TOKEN is used only
+ * when no workspace is given or it is the one SLACK_TEAM_ID names, so
+ * other workspaces are never answered with the default workspace's token.
+ */
+export async function getSlackToken(env: Env, teamId?: string): Promise<string | undefined> {
+	if (teamId) {
+		const installation = await getSlackInstallations(env).getInstallation(teamId);
+		if (installation) {
+			return installation.botToken;
+		}
+		if (teamId !== env.SLACK_TEAM_ID) {
+			return undefined;
+		}
+	}
+	return env.SLACK_BOT_TOKEN;
+}
@@ -3,58 +3,360 @@
  * Based on Cloudflare Slack Agent guide: https://developers.cloudflare.com/agents/guides/slack-agent/
  */
 
-import { EventPlan, SlackMessage, SlackBlock } from "./types";
+import {
+  EventPlan,
+  SlackMessage,
+  SlackBlock,
+  SlackApiResult,
+  SlackOption,
+  RsvpStatus,
+  TimelineTask,
+} from "./types";
+import { summarizeBudget, formatMoney, describeBudgetItem, vendorBudgetItems } from "./budget";
+import { describeHeadcount } from "./guests";
+import { describeTaskDue, summarizeTasks } from "./tasks";
+import { isUnderReview, isConfirmed, describeStatus } from "./plan-status";
+import { describeVenuePrice } from "./venue-research";
+import { describeVendor } from "./vendors";
+
+/**
+ * Prefix of the header block_id that carries the plan id in posted plans
+ */
+export const PLAN_BLOCK_PREFIX = "plan:";
+
+/**
+ * action_id values of the buttons on plan messages: the first three on
+ * plans under review, the others on approved and published plans
+ */
+export const PLAN_ACTIONS = {
+  approve: "approve_plan",
+  requestChanges: "request_plan_changes",
+  discard: "discard_plan",
+  complete: "complete_plan",
+  cancel: "cancel_plan",
+} as const;
+
+/**
+ * action_id values of the RSVP buttons on approved plans
+ */
+export const RSVP_ACTIONS = {
+  going: "rsvp_going",
+  maybe: "rsvp_maybe",
+  declined: "rsvp_declined",
+} as const;
+
+const RSVP_EMOJI: Record<RsvpStatus, string> = {
+  invited: "⏳",
+  going: "✅",
+  maybe: "🤔",
+  declined: "❌",
+};
+
+/**
+ * block_id prefix of the task checkboxes, followed by the plan id
+ */
+export const TASKS_BLOCK_PREFIX = "tasks:";
+
+/**
+ * action_id prefix of each checkboxes element, followed by the
+ * comma-separated ids of the tasks it lists
+ */
+export const TASK_ACTION_PREFIX = "toggle_tasks:";
+
+// Slack allows at most 10 options per checkboxes element
+const TASKS_PER_CHECKBOX_GROUP = 10;
+
+// Maximum length of checkbox option text
+const MAX_OPTION_TEXT = 75;
+
+// Longer guest lists are cut off to stay under Slack's section text limit
+const MAX_LISTED_GUESTS = 40;
+
+const MAX_LISTED_VENUES = 5;
+
+const MAX_LISTED_VENDORS = 15;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Due date and assignee of a task, e.g. "due Nov 6 · <@U123>"
+ */
+function describeTaskDetails(task: TimelineTask, eventDate: string): string {
+  const assignee = task.assigneeSlackId ? `<@${task.assigneeSlackId}>` : task.assignee;
+  return [describeTaskDue(task, eventDate), assignee].filter(Boolean).join(" · ");
+}
+
+/**
+ * Profile fields used to match a Slack user to a guest
+ */
+export interface SlackUserProfile {
+  name: string;
+  email?: string;
+}
+
+/**
+ * A channel the bot or a user can see
+ */
+export interface SlackChannel {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  /** Whether the bot is in the channel, from conversations.list and conversations.info */
+  isMember?: boolean;
+}
+
+interface SlackConversation {
+  id: string;
+  name: string;
+  is_private?: boolean;
+  is_member?: boolean;
+}
+
+function toSlackChannel(conversation: SlackConversation): SlackChannel {
+  return {
+    id: conversation.id,
+    name: conversation.name,
+    isPrivate: conversation.is_private ?? false,
+    isMember: conversation.is_member,
+  };
+}
+
+// Page size for Slack's cursor-paginated list methods
+const SLACK_PAGE_LIMIT = 200;
 
 /**
  * Service class for Slack API integration
  */
 export class SlackService {
   private token: string;
+  private publicUrl?: string;
 
-  constructor(token: string) {
+  /**
+   * @param publicUrl Origin of the worker; when set, plan messages link to their .ics file
+   */
+  constructor(token: string, publicUrl?: string) {
     this.token = token;
+    this.publicUrl = publicUrl?.replace(/\/+$/, "");
   }
 
   /**
    * Posts a message to a Slack channel
    */
-  async postMessage(
-    message: SlackMessage
-  ): Promise<{ ok: boolean; error?: string }> {
+  async postMessage(message: SlackMessage): Promise<SlackApiResult> {
+    return await this.callApi("chat.postMessage", message);
+  }
+
+  /**
+   * Replaces an existing message in place
+   */
+  async updateMessage(
+    message: SlackMessage & { ts: string }
+  ): Promise<SlackApiResult> {
+    return await this.callApi("chat.update", message);
+  }
+
+  /**
+   * Opens a modal in response to a slash command or interaction
+   */
+  async openView(triggerId: string, view: object): Promise<SlackApiResult> {
+    return await this.callApi("views.open", { trigger_id: triggerId, view });
+  }
+
+  /**
+   * Looks up a user's display name and email (needs the users:read and
+   * users:read.email scopes). Returns null if the lookup fails.
+   */
+  async getUserProfile(userId: string): Promise<SlackUserProfile | null> {
+    try {
+      const response = await fetch(
+        `https://slack.com/api/users.info?user=${encodeURIComponent(userId)}`,
+        { headers: { Authorization: `Bearer ${this.token}` } }
+      );
+      const result = (await response.json()) as {
+        ok: boolean;
+        error?: string;
+        user?: {
+          name: string;
+          real_name?: string;
+          profile?: { display_name?: string; real_name?: string; email?: string };
+        };
+      };
+
+      if (!result.ok || !result.user) {
+        console.error("Failed to look up Slack user:", result.error);
+        return null;
+      }
+
+      const { user } = result;
+      return {
+        name: user.profile?.real_name || user.real_name || user.profile?.display_name || user.name,
+        email: user.profile?.email,
+      };
+    } catch (error) {
+      console.error("Failed to call Slack users.info:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Finds the Slack user with an email address (needs the users:read.email
+   * scope). Returns null if there is none or the lookup fails.
+   */
+  async lookupUserByEmail(email: string): Promise<string | null> {
+    const result = await this.callGetApi<{ user?: { id: string } }>("users.lookupByEmail", { email });
+    if (!result.ok || !result.user) {
+      console.log("No Slack user found by email:", result.error);
+      return null;
+    }
+    return result.user.id;
+  }
+
+  /**
+   * Lists the public and private channels a user is a member of (needs
+   * the channels:read and groups:read scopes), following pagination
+   */
+  async listUserChannels(userId: string): Promise<{ channels?: SlackChannel[]; error?: string }> {
+    return await this.listConversations("users.conversations", { user: userId });
+  }
+
+  /**
+   * Lists the workspace's public channels and the private channels the bot
+   * was invited to (needs the channels:read and groups:read scopes),
+   * following pagination
+   */
+  async listChannels(): Promise<{ channels?: SlackChannel[]; error?: string }> {
+    return await this.listConversations("conversations.list", {});
+  }
+
+  /**
+   * Looks up one channel, including whether the bot is in it
+   */
+  async getChannel(channelId: string): Promise<{ channel?: SlackChannel; error?: string }> {
+    const result = await this.callGetApi<{ channel?: SlackConversation }>("conversations.info", { channel: channelId });
+    if (!result.ok || !result.channel) {
+      return { error: result.error };
+    }
+    return { channel: toSlackChannel(result.channel) };
+  }
+
+  /**
+   * Adds the bot to a public channel (needs the channels:join scope).
+   * Private channels need someone to /invite the app instead.
+   */
+  async joinChannel(channelId: string): Promise<SlackApiResult> {
+    return await this.callApi("conversations.join", { channel: channelId });
+  }
+
+  /**
+   * Collects every page of a conversation list method, skipping archived
+   * channels
+   */
+  private async listConversations(
+    method: string,
+    params: Record<string, string>
+  ): Promise<{ channels?: SlackChannel[]; error?: string }> {
+    const channels: SlackChannel[] = [];
+    let cursor = "";
+    do {
+      const result = await this.callGetApi<{
+        channels?: SlackConversation[];
+        response_metadata?: { next_cursor?: string };
+      }>(method, {
+        ...params,
+        types: "public_channel,private_channel",
+        exclude_archived: "true",
+        limit: String(SLACK_PAGE_LIMIT),
+        ...(cursor ? { cursor } : {}),
+      });
+      if (!result.ok) {
+        return { error: result.error };
+      }
+
+      channels.push(...(result.channels ?? []).map(toSlackChannel));
+      cursor = result.response_metadata?.next_cursor ?? "";
+    } while (cursor);
+
+    return { channels };
+  }
+
+  /**
+   * Calls a read-only Slack Web API method with query parameters
+   */
+  private async callGetApi<T extends object>(
+    method: string,
+    params: Record<string, string>
+  ): Promise<T & { ok: boolean; error?: string }> {
+    try {
+      const response = await fetch(
+        `https://slack.com/api/${method}?${new URLSearchParams(params)}`,
+        { headers: { Authorization: `Bearer ${this.token}` } }
+      );
+      return (await response.json()) as T & { ok: boolean; error?: string };
+    } catch (error) {
+      console.error(`Failed to call Slack ${method}:`, error);
+      return { ok: false, error: "Network error" } as T & { ok: boolean; error?: string };
+    }
+  }
+
+  /**
+   * Calls a Slack Web API method with a JSON body
+   */
+  private async callApi(
+    method: string,
+    payload: object
+  ): Promise<SlackApiResult> {
     try {
-      const response = await fetch("https://slack.com/api/chat.postMessage", {
+      const response = await fetch(`https://slack.com/api/${method}`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${this.token}`,
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(message),
+        body: JSON.stringify(payload),
       });
 
-      const result = (await response.json()) as { ok: boolean; error?: string };
+      const result = (await response.json()) as SlackApiResult;
       return result;
     } catch (error) {
-      console.error("Failed to post Slack message:", error);
+      console.error(`Failed to call Slack ${method}:`, error);
       return { ok: false, error: "Network error" };
     }
   }
 
   /**
-   * Formats an EventPlan into a rich Slack message with Block Kit
+   * Formats an EventPlan into a rich Slack message with Block Kit.
+   * Plans under review get Approve / Request changes / Discard buttons;
+   * approved and published plans get task checkboxes, Going / Maybe /
+   * Can't go RSVP buttons and Mark completed / Cancel event buttons.
+   *
+   * @param statusNote Optional line shown above the footer, e.g. who approved the plan
    */
-  formatEventMessage(event: EventPlan): SlackMessage {
-    const eventDate = new Date(event.date);
-    const formattedDate = eventDate.toLocaleDateString("en-US", {
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+  formatEventMessage(event: EventPlan, statusNote?: string): SlackMessage {
+    // The date is a calendar date, so it is formatted in UTC to keep the day unchanged
+    const [year, month, day] = event.date.split("-").map(Number);
+    const eventDate = new Date(Date.UTC(year, month - 1, day));
+    const formattedDate = isNaN(eventDate.getTime())
+      ? event.date
+      : eventDate.toLocaleDateString("en-US", {
+          weekday: "long",
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+          timeZone: "UTC",
+        });
+    const formattedTime = event.time
+      ? `\n${event.time}${event.timeZone ? ` (${event.timeZone})` : ""}`
+      : "";
+    const budget = summarizeBudget(event);
 
     // Create rich blocks for the event
     const blocks: SlackBlock[] = [
       {
         type: "header",
+        // Lets mentions in the channel find the stored plan again
+        block_id: `${PLAN_BLOCK_PREFIX}${event.id}`,
         text: {
           type: "plain_text",
           text: `${event.title}`,
@@ -65,15 +367,15 @@ export class SlackService {
         fields: [
           {
             type: "mrkdwn",
-            text: `*Date:*\n${formattedDate}`,
+            text: `*Date:*\n${formattedDate}${formattedTime}`,
           },
           {
             type: "mrkdwn",
-            text: `*Expected Guests:*\n${event.guests.length > 0 ? event.guests.length : "TBD"}`,
+            text: `*Guests:*\n${event.guests.length > 0 ? describeHeadcount(event.guests) : "TBD"}`,
           },
           {
             type: "mrkdwn",
-            text: `*Budget:*\n$${event.budget.toLocaleString()}`,
+            text: `*Budget:*\n${budget.limit > 0 ? formatMoney(budget.limit, budget.currency) : "TBD"}`,
           },
           {
             type: "mrkdwn",
@@ -94,23 +396,121 @@ export class SlackService {
       });
     }
 
-    // Add timeline if available
+    if (event.status === "cancelled") {
+      blocks.push({
+        type: "section",
+        text: { type: "mrkdwn", text: "🚫 *This event has been cancelled.*" },
+      });
+    }
+
+    // Add timeline if available. Confirmed plans get checkboxes to mark tasks done.
     if (event.timeline && event.timeline.length > 0) {
-      const timelineText = event.timeline
-        .map((item, index) => `${index + 1}. ${item}`)
+      const progress = summarizeTasks(event.timeline);
+      if (!isConfirmed(event.status)) {
+        const timelineText = event.timeline
+          .map((task, index) => {
+            const details = describeTaskDetails(task, event.date);
+            return `${task.done ? "✅" : "⬜"} ${index + 1}. ${task.title}${details ? ` _(${details})_` : ""}`;
+          })
+          .join("\n");
+        blocks.push({
+          type: "section",
+          text: {
+            type: "mrkdwn",
+            text: `*Timeline:*\n${timelineText}`,
+          },
+        });
+      } else {
+        blocks.push(
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `*Timeline:* ${progress.done}/${progress.total} done`,
+            },
+          },
+          this.formatTaskCheckboxes(event)
+        );
+      }
+    }
+
+    // Add budget breakdown if available, with pinned vendors' quotes
+    const budgetItems = [...(event.budgetItems ?? []), ...vendorBudgetItems(event.vendors ?? [])];
+    if (budgetItems.length > 0) {
+      const itemsText = budgetItems
+        .map((item) => `• ${describeBudgetItem(item, budget.currency)}`)
+        .join("\n");
+      const totals = [
+        `Estimated: ${formatMoney(budget.estimatedTotal, budget.currency)}`,
+        budget.actualTotal > 0 ? `Spent: ${formatMoney(budget.actualTotal, budget.currency)}` : "",
+      ]
+        .filter(Boolean)
+        .join(" · ");
+      const warning = budget.overBudget
+        ? `\n⚠️ *Over budget by ${formatMoney(budget.overBy, budget.currency)}*`
+        : "";
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*💰 Budget Breakdown:*\n${itemsText}\n${totals}${warning}`,
+        },
+      });
+    }
+
+    // Add vendors and bookings pinned from search results
+    if (event.vendors && event.vendors.length > 0) {
+      const vendorText = event.vendors
+        .slice(0, MAX_LISTED_VENDORS)
+        .map((vendor) => `• ${describeVendor(vendor, budget.currency)}`)
+        .concat(
+          event.vendors.length > MAX_LISTED_VENDORS
+            ? [`…and ${event.vendors.length - MAX_LISTED_VENDORS} more`]
+            : []
+        )
+        .join("\n");
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*🤝 Vendors & Bookings:*\n${vendorText}`,
+        },
+      });
+    }
+
+    // Add the venue shortlist from venue research, if attached
+    if (event.venueShortlist && event.venueShortlist.length > 0) {
+      const shortlistText = event.venueShortlist
+        .slice(0, MAX_LISTED_VENUES)
+        .map((option) => {
+          const capacity = option.capacity !== undefined ? ` · up to ${option.capacity}` : "";
+          return `${option.rank}. <${option.url}|${option.title}>${capacity} · ${describeVenuePrice(option, budget.currency)}`;
+        })
         .join("\n");
       blocks.push({
         type: "section",
         text: {
           type: "mrkdwn",
-          text: `*Timeline:*\n${timelineText}`,
+          text: `*🏛️ Venue Shortlist:*\n${shortlistText}`,
         },
       });
     }
 
     // Add guest list if available
     if (event.guests && event.guests.length > 0) {
-      const guestText = event.guests.map((guest) => `• ${guest}`).join("\n");
+      const guestText = event.guests
+        .slice(0, MAX_LISTED_GUESTS)
+        .map((guest) => {
+          const plusOnes = guest.plusOnes ? ` (+${guest.plusOnes})` : "";
+          const dietary = guest.dietaryNotes ? ` _${guest.dietaryNotes}_` : "";
+          return `${RSVP_EMOJI[guest.rsvp]} ${guest.name}${plusOnes}${dietary}`;
+        })
+        .concat(
+          event.guests.length > MAX_LISTED_GUESTS
+            ? [`…and ${event.guests.length - MAX_LISTED_GUESTS} more`]
+            : []
+        )
+        .join("\n");
       blocks.push({
         type: "section",
         text: {
@@ -120,6 +520,97 @@ export class SlackService {
       });
     }
 
+    if (statusNote) {
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: statusNote,
+        },
+      });
+    }
+
+    // Let the channel decide on plans under review without opening the web app
+    if (isUnderReview(event.status)) {
+      blocks.push({
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "✅ Approve", emoji: true },
+            action_id: PLAN_ACTIONS.approve,
+            value: event.id,
+            style: "primary",
+          },
+          {
+            type: "button",
+            text: { type: "plain_text", text: "✏️ Request changes", emoji: true },
+            action_id: PLAN_ACTIONS.requestChanges,
+            value: event.id,
+          },
+          {
+            type: "button",
+            text: { type: "plain_text", text: "🗑️ Discard", emoji: true },
+            action_id: PLAN_ACTIONS.discard,
+            value: event.id,
+            style: "danger",
+          },
+        ],
+      });
+    }
+
+    if (isConfirmed(event.status)) {
+      blocks.push({
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "✅ Going", emoji: true },
+            action_id: RSVP_ACTIONS.going,
+            value: event.id,
+            style: "primary",
+          },
+          {
+            type: "button",
+            text: { type: "plain_text", text: "🤔 Maybe", emoji: true },
+            action_id: RSVP_ACTIONS.maybe,
+            value: event.id,
+          },
+          {
+            type: "button",
+            text: { type: "plain_text", text: "❌ Can't go", emoji: true },
+            action_id: RSVP_ACTIONS.declined,
+            value: event.id,
+          },
+        ],
+      });
+
+      const lifecycleButtons: NonNullable<SlackBlock["elements"]> = [
+        {
+          type: "button",
+          text: { type: "plain_text", text: "🚫 Cancel event", emoji: true },
+          action_id: PLAN_ACTIONS.cancel,
+          value: event.id,
+          style: "danger",
+          confirm: {
+            title: { type: "plain_text", text: "Cancel this event?" },
+            text: { type: "mrkdwn", text: `Everyone in the channel will be told "${event.title}" is cancelled. This can't be undone.` },
+            confirm: { type: "plain_text", text: "Cancel event" },
+            deny: { type: "plain_text", text: "Keep it" },
+          },
+        },
+      ];
+      if (event.status === "published") {
+        lifecycleButtons.unshift({
+          type: "button",
+          text: { type: "plain_text", text: "🏁 Mark completed", emoji: true },
+          action_id: PLAN_ACTIONS.complete,
+          value: event.id,
+        });
+      }
+      blocks.push({ type: "actions", elements: lifecycleButtons });
+    }
+
     // Add divider and footer
     blocks.push(
       {
@@ -130,7 +621,12 @@ export class SlackService {
         elements: [
           {
             type: "mrkdwn",
-            text: `Event created by AI Event Planner • ${new Date().toLocaleDateString()}`,
+            text: `Event created by AI Event Planner • ${describeStatus(event.status)} • ${new Date().toLocaleDateString()}${
+              this.publicUrl
+                ? ` • <${this.publicUrl}/api/events/${encodeURIComponent(event.id)}/calendar.ics|📅 Add to calendar>` +
+                  ` • <${this.publicUrl}/rsvp.html?event=${encodeURIComponent(event.id)}|✉️ RSVP link>`
+                : ""
+            }`,
           },
         ],
       }
@@ -145,31 +641,104 @@ export class SlackService {
     return message;
   }
 
+  /**
+   * Checkboxes for marking timeline tasks done, in groups of 10. Each
+   * group's action_id lists its task ids, so a toggle can be applied even
+   * if the timeline changed after the message was posted.
+   */
+  private formatTaskCheckboxes(event: EventPlan): SlackBlock {
+    const groups: TimelineTask[][] = [];
+    for (let i = 0; i < event.timeline.length; i += TASKS_PER_CHECKBOX_GROUP) {
+      groups.push(event.timeline.slice(i, i + TASKS_PER_CHECKBOX_GROUP));
+    }
+
+    const toOption = (task: TimelineTask): SlackOption => {
+      const index = event.timeline.indexOf(task);
+      const details = describeTaskDetails(task, event.date);
+      return {
+        text: { type: "mrkdwn", text: truncate(`${index + 1}. ${task.title}`, MAX_OPTION_TEXT) },
+        value: task.id,
+        ...(details ? { description: { type: "mrkdwn", text: truncate(details, MAX_OPTION_TEXT) } } : {}),
+      };
+    };
+
+    return {
+      type: "actions",
+      block_id: `${TASKS_BLOCK_PREFIX}${event.id}`,
+      elements: groups.map((tasks) => {
+        const options = tasks.map(toOption);
+        const checked = options.filter((_, index) => tasks[index].done);
+        return {
+          type: "checkboxes",
+          action_id: `${TASK_ACTION_PREFIX}${tasks.map((task) => task.id).join(",")}`,
+          options,
+          // Slack rejects an empty initial_options array
+          ...(checked.length > 0 ? { initial_options: checked } : {}),
+        };
+      }),
+    };
+  }
+
   /**
    * Posts an event plan to Slack with rich formatting
    */
-  async postEventPlan(
-    event: EventPlan
-  ): Promise<{ ok: boolean; error?: string }> {
+  async postEventPlan(event: EventPlan): Promise<SlackApiResult> {
     if (!event.slackChannelId) {
       return { ok: false, error: "No Slack channel ID specified" };
     }
 
     const message = this.formatEventMessage(event);
-    return await this.postMessage(message);
+    return await this.postMessage({ ...message, thread_ts: event.slackThreadTs });
   }
 
   /**
-   * Sends a follow-up message for event updates
+   * Re-renders a plan's posted message in place, e.g. after RSVPs or task
+   * progress change
+   */
+  async refreshEventPlan(event: EventPlan): Promise<SlackApiResult> {
+    if (!event.slackChannelId || !event.slackMessageTs) {
+      return { ok: false, error: "Plan has not been posted to Slack" };
+    }
+
+    return await this.updateMessage({
+      ...this.formatEventMessage(event),
+      channel: event.slackChannelId,
+      ts: event.slackMessageTs,
+    });
+  }
+
+  /**
+   * Announces a cancellation in the plan's thread, also broadcast to the
+   * channel so everyone sees it
+   */
+  async postEventCancellation(event: EventPlan, text: string): Promise<SlackApiResult> {
+    if (!event.slackChannelId) {
+      return { ok: false, error: "No Slack channel ID specified" };
+    }
+
+    return await this.postMessage({
+      channel: event.slackChannelId,
+      text: `Event cancelled: ${event.title}`,
+      thread_ts: event.slackThreadTs,
+      reply_broadcast: event.slackThreadTs ? true : undefined,
+      blocks: [{ type: "section", text: { type: "mrkdwn", text: `*${event.title}*\n${text}` } }],
+    });
+  }
+
+  /**
+   * Sends a follow-up message for event updates, in the plan's thread
+   * unless another thread is given
    */
   async postEventUpdate(
     channelId: string,
     updateText: string,
-    event: EventPlan
-  ): Promise<{ ok: boolean; error?: string }> {
+    event: EventPlan,
+    threadTs?: string
+  ): Promise<SlackApiResult> {
     const message: SlackMessage = {
       channel: channelId,
       text: `Event Update: ${event.title}`,
+      thread_ts: threadTs ?? event.slackThreadTs,
       blocks: [
         {
           type: "section",
@@ -180,10 +749,12 @@ export class SlackService {
         },
         {
           type: "context",
-          text: {
-            type: "mrkdwn",
-            text: `Updated by AI Event Planner • ${new Date().toLocaleString()}`,
-          },
+          elements: [
+            {
+              type: "mrkdwn",
+              text: `Updated by AI Event Planner • ${new Date().toLocaleString()}`,
+            },
+          ],
         },
       ],
     };
@@ -238,13 +809,34 @@ export async function verifySlackSignature(
   return computedSignature === signature;
 }
 
+/**
+ * Verifies the signature headers of an incoming Slack request. Without a
+ * signing secret nothing can be verified, so every request is rejected.
+ */
+export async function verifySlackRequest(
+  request: Request,
+  body: string,
+  signingSecret?: string
+): Promise<boolean> {
+  if (!signingSecret) {
+    console.error("Rejecting Slack request: SLACK_SIGNING_SECRET is not set");
+    return false;
+  }
+
+  const timestamp = request.headers.get("X-Slack-Request-Timestamp") || "";
+  const signature = request.headers.get("X-Slack-Signature") || "";
+
+  return await verifySlackSignature(signingSecret, timestamp, body, signature);
+}
+
 /**
  * Simple Slack OAuth URL generator for app installation
  */
 export function generateSlackOAuthURL(
   clientId: string,
   scopes: string[],
-  redirectUri?: string
+  redirectUri?: string,
+  state?: string
 ): string {
   const scopeString = scopes.join(",");
   const params = new URLSearchParams({
@@ -252,6 +844,50 @@ export function generateSlackOAuthURL(
     scope: scopeString,
     redirect_uri: redirectUri || "/slack/oauth",
   });
+  if (state) {
+    params.set("state", state);
+  }
 
   return `https://slack.com/oauth/v2/authorize?${params.toString()}`;
 }
+
+/**
+ * Response of oauth.v2.access for a bot installation
+ */
+export interface SlackOAuthResult {
+  ok: boolean;
+  error?: string;
+  access_token?: string;
+  scope?: string;
+  bot_user_id?: string;
+  team?: { id: string; name?: string };
+  authed_user?: { id: string };
+}
+
+/**
+ * Exchanges the code from the install redirect for a bot token
+ */
+export async function exchangeSlackOAuthCode(
+  clientId: string,
+  clientSecret: string,
+  code: string,
+  redirectUri: string
+): Promise<SlackOAuthResult> {
+  try {
+    const response = await fetch("https://slack.com/api/oauth.v2.access", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        code,
+        redirect_uri: redirectUri,
+      }),
+    });
+
+    return (await response.json()) as SlackOAuthResult;
+  } catch (error) {
+    console.error("Failed to exchange Slack OAuth code:", error);
+    return { ok: false, error: "Network error" };
+  }
+}
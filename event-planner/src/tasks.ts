@@ -0,0 +1,285 @@
+/**
+ * Timeline Tasks
+ *
+ * Timeline entries are tasks with an optional due date relative to the
+ * event, an assignee and a done flag. This module normalizes timelines
+ * from the model, the API and older plans that stored plain strings
+ * (with lead times such as "2 weeks before: book venue" in the text),
+ * applies task updates and parses the Slack thread task commands.
+ */
+import { TimelineTask } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tasks due further out than this are not realistic lead times
+const MAX_DUE_DAYS_BEFORE = 730;
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+const UNIT_DAYS: Record<string, number> = { month: 30, week: 7, day: 1, hour: 0 };
+
+/**
+ * Fields of a task that can be changed after it is created
+ */
+export type TaskChanges = Partial<Pick<TimelineTask, 'title' | 'dueDaysBefore' | 'assignee' | 'assigneeSlackId' | 'done' | 'completedBy'>>;
+
+/**
+ * A task command from a Slack thread. `number` is the 1-based position
+ * shown in the plan message.
+ */
+export type TaskCommand =
+	| { action: 'complete'; number: number; done: boolean }
+	| { action: 'assign'; number: number; assignee: string | null };
+
+/**
+ * Finds a lead time such as "2 weeks before", "day before" or "day of" in
+ * a task description, returning the text without it when it was a prefix
+ */
+export function parseLeadTime(text: string): { title: string; dueDaysBefore?: number } {
+	// Models often number tasks themselves, e.g. "task 1: book venue"
+	const title = text.replace(/^\s*(?:task\s*)?\d+\s*[:.)-]\s*/i, '').trim();
+	const lower = title.toLowerCase();
+
+	let match = lower.match(/\b(\d+|an?|one|two|three|four|five|six)\s+(month|week|day|hour)s?\s+(?:before|prior|ahead|out)\b/);
+	let dueDaysBefore: number | undefined;
+	if (match) {
+		dueDaysBefore = (NUMBER_WORDS[match[1]] ?? Number(match[1])) * UNIT_DAYS[match[2]];
+	} else if ((match = lower.match(/\b(?:the )?day before\b/))) {
+		dueDaysBefore = 1;
+	} else if ((match = lower.match(/\b(?:day|morning) of\b/))) {
+		dueDaysBefore = 0;
+	}
+
+	if (!match || dueDaysBefore === undefined || dueDaysBefore > MAX_DUE_DAYS_BEFORE) {
+		return { title };
+	}
+
+	// Only a leading lead time is removed; elsewhere it is part of the sentence
+	const rest = match.index === 0 ? title.slice(match[0].length).match(/^\s*(?:the event)?\s*[:\-–—,]\s*(.+)$/i) : null;
+	return {
+		title: rest ? rest[1].charAt(0).toUpperCase() + rest[1].slice(1) : title,
+		dueDaysBefore,
+	};
+}
+
+/**
+ * Validates a due offset in days; undefined when unset, null when invalid
+ */
+export function normalizeDueDays(value: unknown): number | null | undefined {
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	const days = typeof value === 'string' && value.trim() ? Number(value) : value;
+	if (typeof days !== 'number' || !Number.isInteger(days) || days < 0 || days > MAX_DUE_DAYS_BEFORE) {
+		return null;
+	}
+	return days;
+}
+
+function optionalText(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Next free short id, e.g. "t4" when the highest existing id is "t3"
+ */
+export function nextTaskId(tasks: TimelineTask[]): string {
+	const highest = tasks.reduce((max, task) => Math.max(max, Number(task.id.slice(1)) || 0), 0);
+	return `t${highest + 1}`;
+}
+
+export function createTask(
+	title: string,
+	existing: TimelineTask[],
+	details: Partial<Omit<TimelineTask, 'id' | 'title'>> = {},
+): TimelineTask {
+	return { id: nextTaskId(existing), title, done: false, ...details };
+}
+
+/**
+ * Converts a timeline of strings and/or task objects into tasks. Strings
+ * listed in `completed` (the old completedTasks field) are marked done.
+ * Tasks are numbered t1..tn here rather than keeping ids from the client
+ * or the model, since the ids end up in Slack action ids, which are short.
+ * Returns null if an entry is neither a string nor an object with a title.
+ */
+export function normalizeTimeline(value: unknown, completed: string[] = []): TimelineTask[] | null {
+	if (value === undefined || value === null) {
+		return [];
+	}
+	if (!Array.isArray(value)) {
+		return null;
+	}
+
+	const tasks: TimelineTask[] = [];
+	for (const entry of value) {
+		if (typeof entry === 'string' || typeof entry === 'number') {
+			const text = String(entry).trim();
+			if (text) {
+				const { title, dueDaysBefore } = parseLeadTime(text);
+				tasks.push(createTask(title, tasks, { dueDaysBefore, done: completed.includes(text) }));
+			}
+			continue;
+		}
+
+		const raw = entry as Record<string, unknown>;
+		const text = optionalText(raw?.title) ?? optionalText(raw?.task) ?? optionalText(raw?.name);
+		const dueDaysBefore = normalizeDueDays(raw?.dueDaysBefore ?? raw?.daysBefore);
+		if (!text || dueDaysBefore === null) {
+			return null;
+		}
+
+		// A lead time in the title is used when none is given explicitly
+		const parsed = parseLeadTime(text);
+		tasks.push({
+			id: nextTaskId(tasks),
+			title: dueDaysBefore === undefined ? parsed.title : text,
+			dueDaysBefore: dueDaysBefore ?? parsed.dueDaysBefore,
+			assignee: optionalText(raw.assignee),
+			assigneeSlackId: optionalText(raw.assigneeSlackId),
+			done: raw.done === true,
+			completedAt: optionalText(raw.completedAt),
+			completedBy: optionalText(raw.completedBy),
+		});
+	}
+
+	return tasks;
+}
+
+/**
+ * Validates task changes from the API, dropping fields that are not set
+ */
+export function validateTaskChanges(body: Record<string, unknown>): { changes?: TaskChanges; error?: string } {
+	const changes: TaskChanges = {};
+
+	if (body.title !== undefined) {
+		const title = optionalText(body.title);
+		if (!title) {
+			return { error: '"title" must be a non-empty string' };
+		}
+		changes.title = title;
+	}
+	if (body.done !== undefined) {
+		if (typeof body.done !== 'boolean') {
+			return { error: '"done" must be true or false' };
+		}
+		changes.done = body.done;
+	}
+	if (body.dueDaysBefore !== undefined) {
+		const days = body.dueDaysBefore === null ? undefined : normalizeDueDays(body.dueDaysBefore);
+		if (days === null) {
+			return { error: `"dueDaysBefore" must be a whole number from 0 to ${MAX_DUE_DAYS_BEFORE}, or null` };
+		}
+		changes.dueDaysBefore = days;
+	}
+	if (body.assignee !== undefined) {
+		if (body.assignee !== null && typeof body.assignee !== 'string') {
+			return { error: '"assignee" must be a string or null' };
+		}
+		changes.assignee = optionalText(body.assignee);
+		changes.assigneeSlackId = optionalText(body.assigneeSlackId);
+	}
+
+	if (Object.keys(changes).length === 0) {
+		return { error: 'Nothing to update: set title, done, dueDaysBefore or assignee' };
+	}
+	return { changes };
+}
+
+/**
+ * Applies changes to a task. Completion time is recorded when it is
+ * marked done and cleared when it is reopened.
+ */
+export function applyTaskChanges(task: TimelineTask, changes: TaskChanges, now: Date = new Date()): TimelineTask {
+	const updated: TimelineTask = { ...task, ...changes };
+
+	if ('assignee' in changes && !changes.assignee) {
+		delete updated.assignee;
+		delete updated.assigneeSlackId;
+	}
+	if ('dueDaysBefore' in changes && changes.dueDaysBefore === undefined) {
+		delete updated.dueDaysBefore;
+	}
+
+	if (changes.done === true && !task.done) {
+		updated.completedAt = now.toISOString();
+	} else if (changes.done === false) {
+		delete updated.completedAt;
+		delete updated.completedBy;
+	}
+
+	return updated;
+}
+
+/**
+ * Returns the date ("YYYY-MM-DD") a task is due, or null if it has no due date
+ */
+export function getTaskDueDate(task: TimelineTask, eventDate: string): string | null {
+	const match = eventDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (task.dueDaysBefore === undefined || !match) {
+		return null;
+	}
+	const due = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) - task.dueDaysBefore * DAY_MS;
+	return new Date(due).toISOString().slice(0, 10);
+}
+
+/**
+ * When a task is due relative to when the event starts
+ */
+export function getTaskDueTime(task: TimelineTask, eventStart: Date): Date | null {
+	if (task.dueDaysBefore === undefined) {
+		return null;
+	}
+	return new Date(eventStart.getTime() - task.dueDaysBefore * DAY_MS);
+}
+
+/**
+ * Short due label, e.g. "due Oct 12" or "day of event"
+ */
+export function describeTaskDue(task: TimelineTask, eventDate: string): string | null {
+	if (task.dueDaysBefore === 0) {
+		return 'day of event';
+	}
+	const due = getTaskDueDate(task, eventDate);
+	if (!due) {
+		return null;
+	}
+	const label = new Date(`${due}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+	return `due ${label}`;
+}
+
+export function summarizeTasks(tasks: TimelineTask[]): { done: number; total: number } {
+	return { done: tasks.filter((task) => task.done).length, total: tasks.length };
+}
+
+/**
+ * Parses thread commands such as "done 3", "reopen 2", "assign 1 to @sam"
+ * and "unassign 4". Returns null for anything else.
+ */
+export function parseTaskCommand(text: string): TaskCommand | null {
+	const command = text.trim().replace(/[.!]+$/, '');
+	const task = String.raw`(?:task\s*)?#?(\d+)`;
+
+	let match = command.match(new RegExp(String.raw`^(?:done|complete|completed|finished|check)\s+${task}$`, 'i'))
+		?? command.match(new RegExp(String.raw`^(?:mark\s+)?${task}\s+(?:as\s+)?(?:done|complete|completed)$`, 'i'));
+	if (match) {
+		return { action: 'complete', number: Number(match[1]), done: true };
+	}
+
+	match = command.match(new RegExp(String.raw`^(?:undo|reopen|uncheck|not done)\s+${task}$`, 'i'));
+	if (match) {
+		return { action: 'complete', number: Number(match[1]), done: false };
+	}
+
+	match = command.match(new RegExp(String.raw`^assign\s+${task}\s+to\s+(.+)$`, 'i'));
+	if (match) {
+		return { action: 'assign', number: Number(match[1]), assignee: match[2].trim() };
+	}
+
+	match = command.match(new RegExp(String.raw`^unassign\s+${task}$`, 'i'));
+	if (match) {
+		return { action: 'assign', number: Number(match[1]), assignee: null };
+	}
+
+	return null;
+}
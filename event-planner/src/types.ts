@@ -1,6 +1,13 @@
 /**
  * Type definitions for the LLM chat application.
  */
+import type { EventPlanStore } from "./event-store";
+import type { ChatSession } from "./chat-session";
+import type { SlackEventLog } from "./slack-event-log";
+import type { SlackInstallationStore } from "./slack-installations";
+import type { SearchCache } from "./search-cache";
+import type { RateLimiter } from "./rate-limiter";
+import type { VenueResearchAgent } from "./venue-research-agent";
 
 export interface Env {
   /**
@@ -23,15 +30,114 @@ export interface Env {
    */
   BROWSERBASE_API_KEY?: string;
 
+  /**
+   * Search providers to try in order, e.g. "brave,google,duckduckgo,browser".
+   * Providers without credentials are skipped; "mock" returns canned results.
+   */
+  SEARCH_PROVIDERS?: string;
+
+  /**
+   * Brave Search API key for the "brave" search provider
+   */
+  BRAVE_SEARCH_API_KEY?: string;
+
+  /**
+   * Google Programmable Search credentials for the "google" search provider
+   */
+  GOOGLE_SEARCH_API_KEY?: string;
+  GOOGLE_SEARCH_ENGINE_ID?: string;
+
   /**
    * Slack Bot Token for API calls
    */
   SLACK_BOT_TOKEN?: string;
 
   /**
-   * Slack Signing Secret for webhook verification
+   * Id of the workspace SLACK_BOT_TOKEN belongs to (e.g. "T0123ABCD");
+   * other workspaces must install the app to get a token of their own
+   */
+  SLACK_TEAM_ID?: string;
+
+  /**
+   * Slack Signing Secret for webhook verification; Slack requests are
+   * rejected without it
    */
   SLACK_SIGNING_SECRET?: string;
+
+  /**
+   * Slack app credentials for the OAuth install flow
+   */
+  SLACK_CLIENT_ID?: string;
+  SLACK_CLIENT_SECRET?: string;
+
+  /**
+   * IANA time zone event dates and times are written in (default UTC)
+   */
+  EVENT_TIMEZONE?: string;
+
+  /**
+   * How long before an event reminders are posted, e.g. "1w,1d,1h"
+   */
+  REMINDER_OFFSETS?: string;
+
+  /**
+   * Public origin of the worker, used for links in Slack messages
+   */
+  PUBLIC_URL?: string;
+
+  /**
+   * Cloudflare Access team domain (e.g. "myteam.cloudflareaccess.com") and
+   * application audience tag; when both are set, /api requests need a
+   * valid Access token
+   */
+  ACCESS_TEAM_DOMAIN?: string;
+  ACCESS_AUD?: string;
+
+  /**
+   * Comma-separated emails of users who can see and manage every plan
+   */
+  ADMIN_EMAILS?: string;
+
+  /**
+   * Email every request is made as when Access is not configured, for
+   * local development only
+   */
+  DEV_USER_EMAIL?: string;
+
+  /**
+   * Durable Object binding for persisted event plans
+   */
+  EVENT_STORE: DurableObjectNamespace<EventPlanStore>;
+
+  /**
+   * Durable Object binding for per-conversation chat sessions
+   */
+  CHAT_SESSIONS: DurableObjectNamespace<ChatSession>;
+
+  /**
+   * Durable Object binding for Slack event idempotency records
+   */
+  SLACK_EVENT_LOG: DurableObjectNamespace<SlackEventLog>;
+
+  /**
+   * Durable Object binding for per-workspace Slack installations
+   */
+  SLACK_INSTALLATIONS: DurableObjectNamespace<SlackInstallationStore>;
+
+  /**
+   * Durable Object binding for cached search results and extracted pages
+   */
+  SEARCH_CACHE: DurableObjectNamespace<SearchCache>;
+
+  /**
+   * Durable Object binding for per-client rate limits
+   */
+  RATE_LIMITER: DurableObjectNamespace<RateLimiter>;
+
+  /**
+   * Durable Object binding for venue research jobs, one instance per job
+   */
+  VENUE_RESEARCH: DurableObjectNamespace<VenueResearchAgent>;
 }
 
 /**
@@ -50,18 +156,216 @@ export interface EventPlan {
   title: string;
   date: string;
   time?: string;
-  guests: string[];
-  timeline: string[];
+  /** IANA time zone the date and time are in; defaults to EVENT_TIMEZONE */
+  timeZone?: string;
+  guests: Guest[];
+  timeline: TimelineTask[];
+  /** Total budget: the spending limit the line items are checked against */
   budget: number;
+  /** ISO 4217 currency code for all amounts; defaults to USD */
+  currency?: string;
+  budgetItems?: BudgetItem[];
+  /** Vendors and bookings pinned from search results */
+  vendors?: Vendor[];
   venue?: string;
+  /** Ranked venue comparison attached from a venue research job */
+  venueShortlist?: VenueOption[];
   description?: string;
   type?: string;
-  status: "draft" | "approved" | "sent_to_slack";
+  status: EventStatus;
   slackChannelId?: string;
+  /** Slack workspace the plan was created in or posted to */
+  slackTeamId?: string;
+  /** Timestamp of the Slack message showing this plan */
+  slackMessageTs?: string;
+  /** Root timestamp of the Slack thread holding this plan's conversation */
+  slackThreadTs?: string;
+  /** Reminder offsets (e.g. "1d") already posted for this plan */
+  remindersSent?: string[];
+  /** When the last overdue-task nudge was posted */
+  lastNudgeAt?: string;
+  /** Current version number, incremented by each applied patch */
+  version?: number;
+  /** Id of the web user who owns the plan; plans started in Slack have none */
+  ownerId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Where a plan is in its lifecycle: draft -> in_review -> approved ->
+ * published (shared in Slack) -> completed, or cancelled along the way
+ */
+export type EventStatus = "draft" | "in_review" | "approved" | "published" | "completed" | "cancelled";
+
+/**
+ * A signed-in user of the web app and API
+ */
+export interface AuthUser {
+  /** Lower-cased email, used as the owner id of plans and conversations */
+  id: string;
+  email: string;
+  /** Admins can see and manage every plan and post to any channel */
+  isAdmin: boolean;
+}
+
+/**
+ * Who moved a plan to a new status
+ */
+export interface StatusActor {
+  source: "web" | "slack" | "system";
+  /** Slack user id for Slack actions, or the web user's id */
+  userId?: string;
+  name?: string;
+}
+
+/**
+ * An audit log entry for one status change
+ */
+export interface StatusTransition {
+  from: EventStatus;
+  to: EventStatus;
+  actor: StatusActor;
+  reason?: string;
+  at: string;
+}
+
+/**
+ * A planning task on an event plan's timeline
+ */
+export interface TimelineTask {
+  /** Short id, unique within the plan, e.g. "t3" */
+  id: string;
+  title: string;
+  /** Days before the event date the task is due; 0 is the day of the event */
+  dueDaysBefore?: number;
+  /** Display name of the person responsible */
+  assignee?: string;
+  /** Set when the assignee is a Slack user */
+  assigneeSlackId?: string;
+  done: boolean;
+  completedAt?: string;
+  /** Slack user id or name of whoever marked the task done */
+  completedBy?: string;
+}
+
+/**
+ * A guest's answer to the invitation; "invited" means no answer yet
+ */
+export type RsvpStatus = "invited" | "going" | "maybe" | "declined";
+
+/**
+ * A guest on an event plan
+ */
+export interface Guest {
+  id: string;
+  name: string;
+  email?: string;
+  /** Set when the guest answered from Slack */
+  slackUserId?: string;
+  rsvp: RsvpStatus;
+  dietaryNotes?: string;
+  /** Additional people the guest is bringing */
+  plusOnes?: number;
+  respondedAt?: string;
+}
+
+/**
+ * Spending categories for budget line items
+ */
+export type BudgetCategory =
+  | "venue"
+  | "catering"
+  | "decor"
+  | "entertainment"
+  | "rentals"
+  | "staff"
+  | "travel"
+  | "supplies"
+  | "other";
+
+/**
+ * One line of a plan's budget breakdown
+ */
+export interface BudgetItem {
+  category: BudgetCategory;
+  description: string;
+  estimated: number;
+  /** Amount actually spent, once known */
+  actual?: number;
+}
+
+/**
+ * Kinds of vendor that can be pinned to a plan
+ */
+export type VendorCategory = "venue" | "catering" | "tickets" | "supplies";
+
+export type BookingStatus = "considering" | "contacted" | "booked" | "declined";
+
+/**
+ * A search result pinned to a plan as a vendor or booking. Quoted prices
+ * are in the plan currency and count towards the budget totals.
+ */
+export interface Vendor {
+  /** Short id, unique within the plan, e.g. "v2" */
+  id: string;
+  category: VendorCategory;
+  name: string;
+  url: string;
+  description?: string;
+  /** Search provider the result came from */
+  source?: string;
+  quotedPrice?: number;
+  bookingStatus: BookingStatus;
+  notes?: string;
+  addedAt: string;
+}
+
+/**
+ * A single structured change to an event plan. Timeline positions are
+ * zero-based indexes.
+ */
+export type PlanPatchOperation =
+  | { op: "add_timeline_item"; item: string; position?: number; dueDaysBefore?: number; assignee?: string }
+  | { op: "remove_timeline_item"; index: number }
+  | { op: "update_timeline_item"; index: number; item: string }
+  | { op: "move_timeline_item"; from: number; to: number }
+  | { op: "swap_timeline_items"; first: number; second: number }
+  | { op: "update_task"; index: number; dueDaysBefore?: number | null; assignee?: string | null; done?: boolean }
+  | { op: "set_budget"; budget: number }
+  | { op: "set_currency"; currency: string }
+  | { op: "add_budget_item"; item: BudgetItem }
+  | { op: "update_budget_item"; index: number; estimated?: number; actual?: number; description?: string }
+  | { op: "remove_budget_item"; index: number }
+  | { op: "set_venue"; venue: string };
+
+/**
+ * A set of operations generated from one edit instruction
+ */
+export interface PlanPatch {
+  operations: PlanPatchOperation[];
+  summary: string;
+}
+
+/**
+ * One field that differs between two plan versions
+ */
+export interface PlanDiffEntry {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * A stored snapshot of an event plan. Version 1 is the plan as created.
+ */
+export interface PlanVersion {
+  version: number;
+  plan: EventPlan;
+  patch?: PlanPatch;
+  createdAt: string;
+}
+
 /**
  * Slack API message format
  */
@@ -70,6 +374,8 @@ export interface SlackMessage {
   text: string;
   blocks?: SlackBlock[];
   thread_ts?: string;
+  /** Also shows a thread reply in the channel */
+  reply_broadcast?: boolean;
 }
 
 /**
@@ -77,6 +383,7 @@ export interface SlackMessage {
  */
 export interface SlackBlock {
   type: string;
+  block_id?: string;
   text?: {
     type: string;
     text: string;
@@ -87,11 +394,56 @@ export interface SlackBlock {
   }>;
   elements?: Array<{
     type: string;
-    text: string;
+    text?: string | { type: string; text: string; emoji?: boolean };
+    action_id?: string;
+    value?: string;
+    url?: string;
+    style?: "primary" | "danger";
+    options?: SlackOption[];
+    initial_options?: SlackOption[];
+    /** Confirmation dialog shown before a button's action runs */
+    confirm?: {
+      title: { type: string; text: string };
+      text: { type: string; text: string };
+      confirm: { type: string; text: string };
+      deny: { type: string; text: string };
+    };
   }>;
   accessory?: any;
 }
 
+/**
+ * An option of a checkboxes or select element
+ */
+export interface SlackOption {
+  text: { type: string; text: string };
+  value: string;
+  description?: { type: string; text: string };
+}
+
+/**
+ * Result of a Slack Web API call
+ */
+export interface SlackApiResult {
+  ok: boolean;
+  error?: string;
+  ts?: string;
+  channel?: string;
+}
+
+/**
+ * A workspace that installed the app through the OAuth flow
+ */
+export interface SlackInstallation {
+  teamId: string;
+  teamName?: string;
+  botToken: string;
+  botUserId?: string;
+  scope?: string;
+  installedBy?: string;
+  installedAt: string;
+}
+
 /**
  * Search result from browser operations
  */
@@ -99,9 +451,110 @@ export interface SearchResult {
   title: string;
   url: string;
   description: string;
+  /** Name of the search provider that returned the result, e.g. "duckduckgo" */
   source: string;
 }
 
+/**
+ * A link found on an extracted page
+ */
+export interface PageLink {
+  text: string;
+  url: string;
+}
+
+/**
+ * The readable parts of a web page
+ */
+export interface ExtractedPage {
+  url: string;
+  /** Page title without the site name */
+  title: string;
+  /** Main text, without navigation, footers and link lists */
+  content: string;
+  /** Links for booking, tickets, enquiries or contact */
+  bookingLinks: PageLink[];
+  /** Whether the page was read from a plain fetch or a headless browser */
+  renderedWith: "fetch" | "browser";
+}
+
+/**
+ * What a venue research job looks for
+ */
+export interface VenueCriteria {
+  location: string;
+  /** People expected, from RSVPs or the guest list */
+  headcount: number;
+  date: string;
+  /** Amount available for the venue, in `currency` */
+  budget?: number;
+  currency: string;
+  eventType?: string;
+}
+
+/**
+ * Facts the model pulled out of a venue's page. Prices are in the
+ * criteria currency; `priceUnit` says what they cover.
+ */
+export interface VenueFacts {
+  name?: string;
+  capacity?: number;
+  priceMin?: number;
+  priceMax?: number;
+  priceUnit?: "total" | "per_person" | "per_hour";
+  contactEmail?: string;
+  contactPhone?: string;
+  /** e.g. "Fully booked in December", "Weekday discounts" */
+  availabilityHints: string[];
+}
+
+/**
+ * A ranked entry of a venue comparison
+ */
+export interface VenueOption extends VenueFacts {
+  rank: number;
+  url: string;
+  title: string;
+  bookingLinks: PageLink[];
+  score: number;
+  /** Why the venue ranks where it does, e.g. "fits 120 guests" */
+  reasons: string[];
+}
+
+/**
+ * A search result being researched as a venue
+ */
+export interface VenueCandidate {
+  url: string;
+  title: string;
+  source: string;
+  status: "pending" | "done" | "failed";
+  attempts: number;
+  facts?: VenueFacts;
+  bookingLinks?: PageLink[];
+  error?: string;
+}
+
+/**
+ * State of a venue research job. Each step is stored before the next
+ * starts, so an interrupted job resumes where it stopped.
+ */
+export interface VenueResearch {
+  id: string;
+  planId: string;
+  status: "searching" | "extracting" | "ranking" | "completed" | "failed";
+  criteria: VenueCriteria;
+  query: string;
+  maxCandidates: number;
+  candidates: VenueCandidate[];
+  shortlist: VenueOption[];
+  /** Failed attempts at the current step */
+  stepAttempts: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * Browser search request structure
  */
@@ -0,0 +1,172 @@
+/**
+ * Vendors
+ *
+ * Search results pinned to a plan as vendors and bookings, each with a
+ * category, an optional quoted price, a booking status and notes. This
+ * module validates vendors from the API, applies updates and formats
+ * vendors for Slack. Quotes are added to the budget in budget.ts.
+ */
+import { Vendor, VendorCategory, BookingStatus } from './types';
+import { normalizeBudget } from './plan-extraction';
+import { formatMoney } from './budget';
+
+export const VENDOR_CATEGORIES: VendorCategory[] = ['venue', 'catering', 'tickets', 'supplies'];
+
+export const BOOKING_STATUSES: BookingStatus[] = ['considering', 'contacted', 'booked', 'declined'];
+
+const MAX_NOTES_LENGTH = 500;
+
+/**
+ * Fields of a vendor that can be changed after it is pinned
+ */
+export type VendorChanges = Partial<Pick<Vendor, 'name' | 'category' | 'quotedPrice' | 'bookingStatus' | 'notes'>>;
+
+/**
+ * A vendor as given to the API, before it gets an id
+ */
+export type NewVendor = Omit<Vendor, 'id' | 'addedAt'>;
+
+function optionalText(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export function isVendorCategory(value: unknown): value is VendorCategory {
+	return VENDOR_CATEGORIES.includes(value as VendorCategory);
+}
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+	return BOOKING_STATUSES.includes(value as BookingStatus);
+}
+
+/**
+ * Next free short id, e.g. "v4" when the highest existing id is "v3"
+ */
+export function nextVendorId(vendors: Vendor[]): string {
+	const highest = vendors.reduce((max, vendor) => Math.max(max, Number(vendor.id.slice(1)) || 0), 0);
+	return `v${highest + 1}`;
+}
+
+export function createVendor(details: NewVendor, existing: Vendor[], now: Date = new Date()): Vendor {
+	return { id: nextVendorId(existing), ...details, addedAt: now.toISOString() };
+}
+
+/**
+ * Validates the vendor fields that are set, dropping the others. A null
+ * quotedPrice or notes clears it.
+ */
+function validateVendorFields(body: Record<string, unknown>): { changes?: VendorChanges; error?: string } {
+	const changes: VendorChanges = {};
+
+	if (body.name !== undefined) {
+		const name = optionalText(body.name);
+		if (!name) {
+			return { error: '"name" must be a non-empty string' };
+		}
+		changes.name = name;
+	}
+	if (body.category !== undefined) {
+		if (!isVendorCategory(body.category)) {
+			return { error: `"category" must be one of ${VENDOR_CATEGORIES.join(', ')}` };
+		}
+		changes.category = body.category;
+	}
+	if (body.quotedPrice !== undefined) {
+		const price = body.quotedPrice === null ? undefined : normalizeBudget(body.quotedPrice);
+		if (price === null) {
+			return { error: '"quotedPrice" must be a non-negative amount, or null' };
+		}
+		changes.quotedPrice = price;
+	}
+	if (body.bookingStatus !== undefined) {
+		if (!isBookingStatus(body.bookingStatus)) {
+			return { error: `"bookingStatus" must be one of ${BOOKING_STATUSES.join(', ')}` };
+		}
+		changes.bookingStatus = body.bookingStatus;
+	}
+	if (body.notes !== undefined) {
+		if (body.notes !== null && typeof body.notes !== 'string') {
+			return { error: '"notes" must be a string or null' };
+		}
+		changes.notes = optionalText(body.notes)?.slice(0, MAX_NOTES_LENGTH);
+	}
+
+	return { changes };
+}
+
+/**
+ * Validates vendor changes from the API
+ */
+export function validateVendorChanges(body: Record<string, unknown>): { changes?: VendorChanges; error?: string } {
+	const { changes, error } = validateVendorFields(body);
+	if (!changes) {
+		return { error };
+	}
+	if (Object.keys(changes).length === 0) {
+		return { error: 'Nothing to update: set name, category, quotedPrice, bookingStatus or notes' };
+	}
+	return { changes };
+}
+
+/**
+ * Validates a vendor pinned from a search result: the `result` it came
+ * from plus a category and optional quote, booking status and notes
+ */
+export function validateNewVendor(body: Record<string, unknown>): { vendor?: NewVendor; error?: string } {
+	const result = (body.result ?? {}) as Record<string, unknown>;
+	const url = optionalText(result.url);
+	if (!url || !/^https?:\/\//i.test(url) || !URL.canParse(url)) {
+		return { error: '"result.url" must be an http or https URL' };
+	}
+	if (!isVendorCategory(body.category)) {
+		return { error: `"category" must be one of ${VENDOR_CATEGORIES.join(', ')}` };
+	}
+
+	const { changes, error } = validateVendorFields({
+		quotedPrice: body.quotedPrice,
+		bookingStatus: body.bookingStatus,
+		notes: body.notes,
+	});
+	if (!changes) {
+		return { error };
+	}
+
+	return {
+		vendor: {
+			category: body.category,
+			name: optionalText(body.name) ?? optionalText(result.title) ?? new URL(url).hostname,
+			url,
+			description: optionalText(result.description),
+			source: optionalText(result.source),
+			quotedPrice: changes.quotedPrice,
+			bookingStatus: changes.bookingStatus ?? 'considering',
+			notes: changes.notes,
+		},
+	};
+}
+
+/**
+ * Applies changes to a vendor, removing cleared fields
+ */
+export function applyVendorChanges(vendor: Vendor, changes: VendorChanges): Vendor {
+	const updated: Vendor = { ...vendor, ...changes };
+	if ('quotedPrice' in changes && changes.quotedPrice === undefined) {
+		delete updated.quotedPrice;
+	}
+	if ('notes' in changes && !changes.notes) {
+		delete updated.notes;
+	}
+	return updated;
+}
+
+/**
+ * One-line description for Slack, e.g.
+ * "Catering – <https://…|Leeds Kitchen>: $400 quoted · booked"
+ */
+export function describeVendor(vendor: Vendor, currency: string): string {
+	const category = vendor.category.charAt(0).toUpperCase() + vendor.category.slice(1);
+	const quote = vendor.quotedPrice !== undefined ? `: ${formatMoney(vendor.quotedPrice, currency)} quoted` : '';
+	const notes = vendor.notes ? ` _${vendor.notes}_` : '';
+	// Angle brackets and pipes would end the Slack link early
+	const name = vendor.name.replace(/[<>|]/g, '');
+	return `${category} – <${vendor.url}|${name}>${quote} · ${vendor.bookingStatus}${notes}`;
+}
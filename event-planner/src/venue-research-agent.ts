@@ -0,0 +1,202 @@
+/**
+ * Venue Research Agent
+ *
+ * Durable Object running one venue research job: searching for venues,
+ * reading each candidate's page and ranking them. Every step runs in its
+ * own alarm and stores its result before the next is scheduled, so a job
+ * interrupted by an eviction or a failing step picks up where it stopped.
+ * Finished jobs are deleted after a week.
+ */
+import { DurableObject } from 'cloudflare:workers';
+import { Env, VenueCandidate, VenueCriteria, VenueResearch } from './types';
+import { BrowserService } from './browser';
+import { extractVenueFacts, rankVenues } from './venue-research';
+
+export const DEFAULT_MAX_CANDIDATES = 6;
+export const MAX_CANDIDATES = 10;
+
+const MAX_SHORTLIST = 5;
+
+// Failures of one step before the job fails; each retry waits longer
+const MAX_STEP_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5000;
+
+// A page that keeps failing is skipped rather than failing the job
+const MAX_CANDIDATE_ATTEMPTS = 2;
+
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class VenueResearchAgent extends DurableObject<Env> {
+	async getResearch(): Promise<VenueResearch | null> {
+		return (await this.ctx.storage.get<VenueResearch>('research')) ?? null;
+	}
+
+	/**
+	 * Starts the job. Starting a job that already exists returns it unchanged.
+	 */
+	async start(id: string, planId: string, criteria: VenueCriteria, query: string, maxCandidates: number): Promise<VenueResearch> {
+		const existing = await this.getResearch();
+		if (existing) {
+			return existing;
+		}
+
+		const now = new Date().toISOString();
+		const research: VenueResearch = {
+			id,
+			planId,
+			status: 'searching',
+			criteria,
+			query,
+			maxCandidates,
+			candidates: [],
+			shortlist: [],
+			stepAttempts: 0,
+			createdAt: now,
+			updatedAt: now,
+		};
+		await this.save(research);
+		await this.ctx.storage.setAlarm(Date.now());
+		return research;
+	}
+
+	/**
+	 * Restarts a failed job at the step it stopped on, giving failed pages
+	 * another try. Running jobs are nudged in case their alarm was lost.
+	 */
+	async resume(): Promise<VenueResearch | null> {
+		const research = await this.getResearch();
+		if (!research || research.status === 'completed') {
+			return research;
+		}
+
+		if (research.status === 'failed') {
+			research.candidates = research.candidates.map((candidate) =>
+				candidate.status === 'failed' ? { ...candidate, status: 'pending', attempts: 0, error: undefined } : candidate,
+			);
+			research.status = research.candidates.length === 0 ? 'searching' : 'extracting';
+			research.stepAttempts = 0;
+			research.error = undefined;
+			await this.save(research);
+		}
+
+		await this.ctx.storage.setAlarm(Date.now());
+		return research;
+	}
+
+	/**
+	 * Runs the next step of the job, or deletes a finished job once it has
+	 * been kept long enough
+	 */
+	async alarm(): Promise<void> {
+		const research = await this.getResearch();
+		if (!research) {
+			return;
+		}
+		if (research.status === 'completed' || research.status === 'failed') {
+			await this.ctx.storage.deleteAll();
+			return;
+		}
+
+		try {
+			await this.runStep(research);
+			research.stepAttempts = 0;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error(`Venue research ${research.id} failed at ${research.status}:`, message);
+			research.stepAttempts++;
+			if (research.stepAttempts >= MAX_STEP_ATTEMPTS) {
+				research.status = 'failed';
+				research.error = message;
+			}
+		}
+
+		await this.save(research);
+		await this.scheduleNext(research);
+	}
+
+	private async runStep(research: VenueResearch): Promise<void> {
+		switch (research.status) {
+			case 'searching':
+				await this.search(research);
+				break;
+			case 'extracting':
+				await this.extractNext(research);
+				break;
+			case 'ranking':
+				this.rank(research);
+				break;
+		}
+	}
+
+	private async search(research: VenueResearch): Promise<void> {
+		const results = await new BrowserService(this.env).searchWeb(research.query, research.maxCandidates, 'venue');
+		const seen = new Set<string>();
+		research.candidates = results
+			.filter((result) => !seen.has(result.url) && seen.add(result.url))
+			.map((result): VenueCandidate => ({ url: result.url, title: result.title, source: result.source, status: 'pending', attempts: 0 }));
+
+		if (research.candidates.length === 0) {
+			throw new Error(`No search results for "${research.query}"`);
+		}
+		research.status = 'extracting';
+	}
+
+	/**
+	 * Reads one pending candidate. Errors are recorded on the candidate,
+	 * so one unreadable page does not fail the job.
+	 */
+	private async extractNext(research: VenueResearch): Promise<void> {
+		const candidate = research.candidates.find((entry) => entry.status === 'pending');
+		if (!candidate) {
+			research.status = 'ranking';
+			return;
+		}
+
+		candidate.attempts++;
+		try {
+			const page = await new BrowserService(this.env).extractPageContent(candidate.url);
+			if (!page) {
+				throw new Error('Page could not be read');
+			}
+			candidate.facts = await extractVenueFacts(this.env, page, research.criteria);
+			candidate.bookingLinks = page.bookingLinks;
+			candidate.status = 'done';
+			candidate.error = undefined;
+		} catch (error) {
+			candidate.error = error instanceof Error ? error.message : String(error);
+			console.error(`Venue research ${research.id} could not read ${candidate.url}:`, candidate.error);
+			if (candidate.attempts >= MAX_CANDIDATE_ATTEMPTS) {
+				candidate.status = 'failed';
+			}
+		}
+	}
+
+	private rank(research: VenueResearch): void {
+		const ranked = rankVenues(research.candidates, research.criteria);
+		if (ranked.length === 0) {
+			throw new Error('None of the venue pages could be read');
+		}
+		research.shortlist = ranked.slice(0, MAX_SHORTLIST);
+		research.status = 'completed';
+	}
+
+	private async scheduleNext(research: VenueResearch): Promise<void> {
+		if (research.status === 'completed' || research.status === 'failed') {
+			await this.ctx.storage.setAlarm(Date.now() + RETENTION_MS);
+		} else {
+			await this.ctx.storage.setAlarm(Date.now() + (research.stepAttempts > 0 ? RETRY_DELAY_MS * 2 ** (research.stepAttempts - 1) : 0));
+		}
+	}
+
+	private async save(research: VenueResearch): Promise<void> {
+		research.updatedAt = new Date().toISOString();
+		await this.ctx.storage.put('research', research);
+	}
+}
+
+/**
+ * Returns a stub for one venue research job
+ */
+export function getVenueResearch(env: Env, jobId: string): DurableObjectStub<VenueResearchAgent> {
+	return env.VENUE_RESEARCH.get(env.VENUE_RESEARCH.idFromName(jobId));
+}
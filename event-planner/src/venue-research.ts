@@ -0,0 +1,279 @@
+/**
+ * Venue Research
+ *
+ * The steps of a venue research job: turning a plan into search criteria,
+ * asking the model for a venue page's capacity, prices, contact details
+ * and availability, and ranking the candidates into a comparison. The
+ * job itself runs step by step in the VenueResearchAgent Durable Object.
+ */
+import { Env, EventPlan, ExtractedPage, VenueCandidate, VenueCriteria, VenueFacts, VenueOption } from './types';
+import { summarizeRsvps } from './guests';
+import { summarizeBudget, formatMoney } from './budget';
+import { normalizeBudget } from './plan-extraction';
+
+const MODEL_ID = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+
+// Page text sent to the model per candidate
+const MAX_PAGE_CHARS = 3000;
+
+const MAX_AVAILABILITY_HINTS = 3;
+
+const PRICE_UNITS = ['total', 'per_person', 'per_hour'] as const;
+
+// Hourly prices are compared with the budget assuming a typical booking length
+const ASSUMED_BOOKING_HOURS = 4;
+
+const FACTS_PROMPT = `You read venue web pages for an event planner. Given the event requirements and the text of one venue's page, respond with ONLY a JSON object:
+{
+  "name": "Venue name",
+  "capacity": 120,
+  "priceMin": 2000,
+  "priceMax": 3500,
+  "priceUnit": "total",
+  "contactEmail": "events@venue.com",
+  "contactPhone": "+44 113 000 0000",
+  "availabilityHints": ["Weekdays only in December"]
+}
+- capacity is the largest number of guests the venue holds, as a number
+- prices are numbers in the currency given in the requirements; priceUnit is "total", "per_person" or "per_hour"
+- availabilityHints are short notes about dates, seasons or booking lead times (at most 3)
+Use null for anything the page does not say. Never guess.`;
+
+/**
+ * Search criteria from a plan. The location defaults to the plan's venue,
+ * the budget to its venue line items or else its total budget.
+ */
+export function buildVenueCriteria(plan: EventPlan, location?: string): VenueCriteria | null {
+	const place = location?.trim() || plan.venue?.trim();
+	if (!place) {
+		return null;
+	}
+
+	const budget = summarizeBudget(plan);
+	const venueBudget = budget.categories.find((total) => total.category === 'venue')?.estimated;
+	const { headcount } = summarizeRsvps(plan.guests);
+
+	return {
+		location: place,
+		// Before anyone answers, every guest on the list is expected
+		headcount: headcount || plan.guests.length,
+		date: plan.date,
+		budget: venueBudget || budget.limit || undefined,
+		currency: budget.currency,
+		eventType: plan.type,
+	};
+}
+
+export function buildVenueQuery(criteria: VenueCriteria): string {
+	const size = criteria.headcount > 0 ? ` for ${criteria.headcount} guests` : '';
+	return `${criteria.eventType ?? 'event'} venue hire ${criteria.location}${size}`;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+	const number = normalizeBudget(value);
+	return number === null || number <= 0 ? undefined : number;
+}
+
+function optionalText(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'null' ? value.trim() : undefined;
+}
+
+function parseFactsJson(text: string): Record<string, unknown> | null {
+	const firstBrace = text.indexOf('{');
+	const lastBrace = text.lastIndexOf('}');
+	if (firstBrace === -1 || lastBrace <= firstBrace) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(text.slice(firstBrace, lastBrace + 1));
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Validates the model's facts, filling in contact details from the
+ * page's mailto: and tel: links when the model found none
+ */
+export function normalizeVenueFacts(raw: Record<string, unknown>, page: ExtractedPage): VenueFacts {
+	let priceMin = optionalNumber(raw.priceMin);
+	let priceMax = optionalNumber(raw.priceMax);
+	if (priceMin === undefined && priceMax !== undefined) {
+		priceMin = priceMax;
+	}
+	if (priceMin !== undefined && priceMax !== undefined && priceMax < priceMin) {
+		[priceMin, priceMax] = [priceMax, priceMin];
+	}
+
+	const capacity = optionalNumber(raw.capacity);
+	const linkTarget = (protocol: string) => page.bookingLinks.find((link) => link.url.startsWith(protocol))?.url.slice(protocol.length);
+
+	return {
+		name: optionalText(raw.name),
+		capacity: capacity !== undefined ? Math.round(capacity) : undefined,
+		priceMin,
+		priceMax,
+		priceUnit: PRICE_UNITS.find((unit) => unit === raw.priceUnit) ?? (priceMin !== undefined ? 'total' : undefined),
+		contactEmail: optionalText(raw.contactEmail) ?? linkTarget('mailto:'),
+		contactPhone: optionalText(raw.contactPhone) ?? linkTarget('tel:'),
+		availabilityHints: Array.isArray(raw.availabilityHints)
+			? raw.availabilityHints.map(optionalText).filter((hint): hint is string => Boolean(hint)).slice(0, MAX_AVAILABILITY_HINTS)
+			: [],
+	};
+}
+
+/**
+ * Asks the model for the facts on one venue page
+ */
+export async function extractVenueFacts(env: Env, page: ExtractedPage, criteria: VenueCriteria): Promise<VenueFacts> {
+	const requirements = {
+		location: criteria.location,
+		guests: criteria.headcount,
+		date: criteria.date,
+		currency: criteria.currency,
+	};
+	const messages = [
+		{ role: 'system', content: FACTS_PROMPT },
+		{
+			role: 'user',
+			content: `Requirements: ${JSON.stringify(requirements)}\n\nPage: ${page.title} (${page.url})\n\n${page.content.slice(0, MAX_PAGE_CHARS)}`,
+		},
+	];
+
+	const response = (await env.AI.run(MODEL_ID, { messages, max_tokens: 300 })) as { response: string | object };
+	const raw = typeof response.response === 'object'
+		? (response.response as Record<string, unknown>)
+		: parseFactsJson(response.response);
+	return normalizeVenueFacts(raw ?? {}, page);
+}
+
+/**
+ * Estimated cost of booking the venue for the event, if the price allows it
+ */
+function estimateCost(facts: VenueFacts, criteria: VenueCriteria): number | undefined {
+	if (facts.priceMin === undefined) {
+		return undefined;
+	}
+	switch (facts.priceUnit) {
+		case 'per_person':
+			return criteria.headcount > 0 ? facts.priceMin * criteria.headcount : undefined;
+		case 'per_hour':
+			return facts.priceMin * ASSUMED_BOOKING_HOURS;
+		default:
+			return facts.priceMin;
+	}
+}
+
+/**
+ * Scores how well a venue fits, with the reasons behind the score
+ */
+export function scoreVenue(facts: VenueFacts, criteria: VenueCriteria, hasBookingLink: boolean): { score: number; reasons: string[] } {
+	let score = 0;
+	const reasons: string[] = [];
+
+	if (facts.capacity !== undefined && criteria.headcount > 0) {
+		if (facts.capacity < criteria.headcount) {
+			score -= 3;
+			reasons.push(`too small: holds ${facts.capacity}`);
+		} else if (facts.capacity > criteria.headcount * 3) {
+			score += 1;
+			reasons.push(`holds ${facts.capacity}, much larger than needed`);
+		} else {
+			score += 3;
+			reasons.push(`fits ${criteria.headcount} guests`);
+		}
+	}
+
+	const cost = estimateCost(facts, criteria);
+	if (cost !== undefined && criteria.budget) {
+		if (cost <= criteria.budget) {
+			score += 2;
+			reasons.push('within budget');
+		} else if (cost <= criteria.budget * 1.2) {
+			reasons.push('slightly over budget');
+		} else {
+			score -= 2;
+			reasons.push(`over budget (about ${formatMoney(cost, criteria.currency)})`);
+		}
+	}
+
+	if (facts.contactEmail || facts.contactPhone || hasBookingLink) {
+		score += 1;
+		reasons.push('can be contacted');
+	}
+
+	const hints = facts.availabilityHints.join(' ').toLowerCase();
+	if (/fully booked|unavailable|closed|no availability/.test(hints)) {
+		score -= 2;
+		reasons.push('may not be available');
+	} else if (/available|availability|open/.test(hints)) {
+		score += 1;
+		reasons.push('mentions availability');
+	}
+
+	return { score, reasons };
+}
+
+/**
+ * Ranks researched candidates, best fit first. Ties go to the venue whose
+ * capacity is closest to the headcount.
+ */
+export function rankVenues(candidates: VenueCandidate[], criteria: VenueCriteria): VenueOption[] {
+	const spareCapacity = (option: VenueOption) =>
+		option.capacity !== undefined && option.capacity >= criteria.headcount ? option.capacity - criteria.headcount : Infinity;
+
+	return candidates
+		.filter((candidate) => candidate.status === 'done' && candidate.facts)
+		.map((candidate) => {
+			const bookingLinks = candidate.bookingLinks ?? [];
+			const { score, reasons } = scoreVenue(candidate.facts!, criteria, bookingLinks.some((link) => link.url.startsWith('http')));
+			return {
+				...candidate.facts!,
+				rank: 0,
+				url: candidate.url,
+				title: candidate.facts!.name ?? candidate.title,
+				bookingLinks,
+				score,
+				reasons,
+			};
+		})
+		.sort((a, b) => b.score - a.score || spareCapacity(a) - spareCapacity(b))
+		.map((option, index) => ({ ...option, rank: index + 1 }));
+}
+
+/**
+ * Price range of a venue, e.g. "$45–$60 per person"
+ */
+export function describeVenuePrice(option: VenueFacts, currency: string): string {
+	if (option.priceMin === undefined) {
+		return 'price unknown';
+	}
+	const range = option.priceMax !== undefined && option.priceMax !== option.priceMin
+		? `${formatMoney(option.priceMin, currency)}–${formatMoney(option.priceMax, currency)}`
+		: formatMoney(option.priceMin, currency);
+	const unit = option.priceUnit === 'per_person' ? ' per person' : option.priceUnit === 'per_hour' ? ' per hour' : '';
+	return `${range}${unit}`;
+}
+
+/**
+ * Markdown comparison table of a shortlist
+ */
+export function formatVenueTable(options: VenueOption[], currency: string): string {
+	const cell = (text: string) => text.replace(/\|/g, '/').replace(/\s+/g, ' ');
+	const rows = options.map((option) => [
+		String(option.rank),
+		`[${cell(option.title)}](${option.url})`,
+		option.capacity !== undefined ? String(option.capacity) : '?',
+		describeVenuePrice(option, currency),
+		cell(option.contactEmail ?? option.contactPhone ?? option.bookingLinks[0]?.url ?? '—'),
+		cell(option.availabilityHints.join('; ') || '—'),
+		cell(option.reasons.join(', ') || '—'),
+	]);
+
+	return [
+		'| # | Venue | Capacity | Price | Contact | Availability | Fit |',
+		'|---|---|---|---|---|---|---|',
+		...rows.map((row) => `| ${row.join(' | ')} |`),
+	].join('\n');
+}
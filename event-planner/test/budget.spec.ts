@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+	describeBudgetItem,
+	formatMoney,
+	normalizeCategory,
+	normalizeCurrency,
+	summarizeBudget,
+	validateBudgetItems,
+	vendorBudgetItems,
+} from '../src/budget';
+import { EventPlan, Vendor } from '../src/types';
+
+function makePlan(overrides: Partial<EventPlan> = {}): EventPlan {
+	return {
+		id: 'plan-1',
+		title: 'Gala',
+		date: '2026-10-01',
+		guests: [],
+		timeline: [],
+		budget: 1000,
+		status: 'draft',
+		createdAt: '2026-01-01T00:00:00.000Z',
+		updatedAt: '2026-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+function makeVendor(overrides: Partial<Vendor> = {}): Vendor {
+	return {
+		id: 'v1',
+		category: 'catering',
+		name: 'Good Food Co',
+		url: 'https://example.com/good-food',
+		bookingStatus: 'considering',
+		addedAt: '2026-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+describe('normalizeCurrency', () => {
+	it('accepts codes in any case and common symbols', () => {
+		expect(normalizeCurrency('eur')).toBe('EUR');
+		expect(normalizeCurrency(' GBP ')).toBe('GBP');
+		expect(normalizeCurrency('$')).toBe('USD');
+		expect(normalizeCurrency('€')).toBe('EUR');
+	});
+
+	it('rejects unknown codes and inherited object keys', () => {
+		expect(normalizeCurrency('dollars')).toBeNull();
+		expect(normalizeCurrency('ABC1')).toBeNull();
+		expect(normalizeCurrency('constructor')).toBeNull();
+		expect(normalizeCurrency('')).toBeNull();
+		expect(normalizeCurrency(840)).toBeNull();
+	});
+});
+
+describe('normalizeCategory', () => {
+	it('maps free-form categories to known ones', () => {
+		expect(normalizeCategory('Catering')).toBe('catering');
+		expect(normalizeCategory('venue hire')).toBe('venue');
+		expect(normalizeCategory('fireworks')).toBe('other');
+		expect(normalizeCategory(undefined)).toBe('other');
+	});
+});
+
+describe('validateBudgetItems', () => {
+	it('normalizes amounts, categories and descriptions', () => {
+		const { items, errors } = validateBudgetItems([
+			{ category: 'Venue', description: ' Hall ', estimated: '$1,200', actual: 1100 },
+			{ category: 'drinks', amount: '300' },
+		]);
+
+		expect(errors).toEqual([]);
+		expect(items).toEqual([
+			{ category: 'venue', description: 'Hall', estimated: 1200, actual: 1100 },
+			{ category: 'other', description: 'other', estimated: 300 },
+		]);
+	});
+
+	it('reports each invalid item', () => {
+		const { items, errors } = validateBudgetItems([{ estimated: -50 }, 'Cake', { estimated: 10, actual: 'lots' }]);
+
+		expect(items).toBeUndefined();
+		expect(errors).toEqual([
+			'budget item 1: "estimated" must be a non-negative number',
+			'budget item 2: must be an object',
+			'budget item 3: "actual" must be a non-negative number',
+		]);
+	});
+
+	it('treats a missing list as empty and rejects other values', () => {
+		expect(validateBudgetItems(undefined)).toEqual({ items: [], errors: [] });
+		expect(validateBudgetItems('catering: 300').errors).toEqual(['"budgetItems" must be an array']);
+	});
+});
+
+describe('vendorBudgetItems', () => {
+	it('counts quotes of vendors not declined, and booked quotes as spent', () => {
+		const items = vendorBudgetItems([
+			makeVendor({ id: 'v1', quotedPrice: 400, bookingStatus: 'booked' }),
+			makeVendor({ id: 'v2', category: 'tickets', name: 'Band', quotedPrice: 250 }),
+			makeVendor({ id: 'v3', quotedPrice: 900, bookingStatus: 'declined' }),
+			makeVendor({ id: 'v4' }),
+		]);
+
+		expect(items).toEqual([
+			{ category: 'catering', description: 'Good Food Co', estimated: 400, actual: 400 },
+			{ category: 'entertainment', description: 'Band', estimated: 250 },
+		]);
+	});
+});
+
+describe('summarizeBudget', () => {
+	it('totals line items and vendor quotes by category', () => {
+		const summary = summarizeBudget(makePlan({
+			budgetItems: [
+				{ category: 'venue', description: 'Hall', estimated: 500, actual: 550 },
+				{ category: 'catering', description: 'Cake', estimated: 100 },
+			],
+			vendors: [makeVendor({ quotedPrice: 300 })],
+		}));
+
+		expect(summary).toMatchObject({
+			currency: 'USD',
+			limit: 1000,
+			estimatedTotal: 900,
+			actualTotal: 550,
+			projectedTotal: 950,
+			overBudget: false,
+			overBy: 0,
+		});
+		expect(summary.categories).toEqual([
+			{ category: 'venue', estimated: 500, actual: 550 },
+			{ category: 'catering', estimated: 400, actual: 0 },
+		]);
+	});
+
+	it('flags a projected total over the limit', () => {
+		const summary = summarizeBudget(makePlan({
+			budget: 500,
+			budgetItems: [{ category: 'venue', description: 'Hall', estimated: 400, actual: 650 }],
+		}));
+
+		expect(summary).toMatchObject({ overBudget: true, overBy: 150 });
+	});
+
+	it('never flags plans without a limit', () => {
+		const summary = summarizeBudget(makePlan({ budget: 0, budgetItems: [{ category: 'venue', description: 'Hall', estimated: 400 }] }));
+
+		expect(summary.overBudget).toBe(false);
+	});
+});
+
+describe('formatMoney', () => {
+	it('formats amounts in the currency', () => {
+		expect(formatMoney(1500)).toBe('$1,500');
+		expect(formatMoney(1500, 'EUR')).toBe('€1,500');
+		expect(formatMoney(12.5, 'GBP')).toBe('£12.50');
+	});
+});
+
+describe('describeBudgetItem', () => {
+	it('names the category and description with both amounts', () => {
+		expect(describeBudgetItem({ category: 'venue', description: 'Hall rental', estimated: 400, actual: 380 }))
+			.toBe('Venue – Hall rental: $400 est. / $380 actual');
+		expect(describeBudgetItem({ category: 'decor', description: 'decor', estimated: 80 }, 'EUR')).toBe('Decor: €80 est.');
+	});
+});
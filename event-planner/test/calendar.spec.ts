@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { buildCalendar, calendarEventToPlanFields, parseCalendarEvents, resolveTimeZone, CalendarOptions } from '../src/calendar';
+import { parseReminderOffsets } from '../src/reminders';
+import { EventPlan } from '../src/types';
+
+const options: CalendarOptions = {
+	defaultTimeZone: 'America/New_York',
+	reminderOffsets: [],
+	now: new Date('2026-05-01T12:00:00Z'),
+};
+
+function makePlan(overrides: Partial<EventPlan> = {}): EventPlan {
+	return {
+		id: 'plan-1',
+		title: 'Summer party',
+		date: '2026-07-15',
+		time: '06:00 PM',
+		guests: [
+			{ id: 'g1', name: 'Ana', email: 'ana@example.com', rsvp: 'going' },
+			{ id: 'g2', name: 'Ben', rsvp: 'invited' },
+		],
+		timeline: [{ id: 't1', title: 'Book venue', dueDaysBefore: 14, done: true }],
+		budget: 2500,
+		venue: 'Harbour Hall, Pier 3',
+		status: 'approved',
+		version: 3,
+		createdAt: '2026-01-01T00:00:00.000Z',
+		updatedAt: '2026-04-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+/**
+ * Unfolds the content lines of a calendar
+ */
+function contentLines(ics: string): string[] {
+	return ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+}
+
+describe('buildCalendar', () => {
+	it('converts timed plans from their time zone to UTC', () => {
+		const lines = contentLines(buildCalendar([makePlan()], options));
+
+		expect(lines).toContain('DTSTART:20260715T220000Z');
+		expect(lines).toContain('DTEND:20260716T000000Z');
+		expect(lines).toContain('SEQUENCE:2');
+		expect(lines).toContain('STATUS:CONFIRMED');
+	});
+
+	it('uses the plan time zone over the default', () => {
+		const lines = contentLines(buildCalendar([makePlan({ timeZone: 'Europe/Berlin' })], options));
+
+		expect(lines).toContain('DTSTART:20260715T160000Z');
+	});
+
+	it('makes plans without a time all-day events', () => {
+		const lines = contentLines(buildCalendar([makePlan({ time: undefined, date: '2026-12-31' })], options));
+
+		expect(lines).toContain('DTSTART;VALUE=DATE:20261231');
+		expect(lines).toContain('DTEND;VALUE=DATE:20270101');
+	});
+
+	it('escapes text and lists guests with an address as attendees', () => {
+		const lines = contentLines(buildCalendar([makePlan()], options));
+
+		expect(lines).toContain('LOCATION:Harbour Hall\\, Pier 3');
+		expect(lines).toContain('ATTENDEE;CN="Ana";PARTSTAT=ACCEPTED:mailto:ana@example.com');
+		expect(lines.filter((line) => line.startsWith('ATTENDEE'))).toHaveLength(1);
+		expect(lines.find((line) => line.startsWith('DESCRIPTION'))).toContain('Budget: $2\\,500');
+	});
+
+	it('leaves attendees, timeline and budget out of the guest view', () => {
+		const ics = buildCalendar([makePlan({ description: 'Bring a swimsuit' })], { ...options, guestView: true });
+
+		expect(ics).not.toContain('ATTENDEE');
+		expect(ics).not.toContain('Book venue');
+		expect(ics).not.toContain('Budget');
+		expect(contentLines(ics)).toContain('DESCRIPTION:Bring a swimsuit');
+	});
+
+	it('adds an alarm for each reminder offset', () => {
+		const ics = buildCalendar([makePlan()], { ...options, reminderOffsets: parseReminderOffsets('1w,1d,30m') });
+
+		expect(contentLines(ics).filter((line) => line.startsWith('TRIGGER:'))).toEqual(['TRIGGER:-P1W', 'TRIGGER:-P1D', 'TRIGGER:-PT30M']);
+	});
+
+	it('folds long lines at 75 octets without splitting characters', () => {
+		const ics = buildCalendar([makePlan({ title: 'Célébration '.repeat(20) })], options);
+		const encoder = new TextEncoder();
+
+		for (const line of ics.split('\r\n')) {
+			expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+		}
+		expect(contentLines(ics)).toContain(`SUMMARY:${'Célébration '.repeat(20)}`);
+	});
+
+	it('skips plans with an invalid date', () => {
+		expect(buildCalendar([makePlan({ date: 'someday' })], options)).not.toContain('BEGIN:VEVENT');
+	});
+});
+
+describe('parseCalendarEvents', () => {
+	const invite = [
+		'BEGIN:VCALENDAR',
+		'BEGIN:VEVENT',
+		'SUMMARY:Quarterly review\\, Q3',
+		'DTSTART;TZID=Europe/Paris:20260910T140000',
+		'LOCATION:Room 4',
+		'DESCRIPTION:Agenda:\\nNumbers\\nPlans for the next quar',
+		' ter',
+		'ATTENDEE;CN="Dupont, Marie";PARTSTAT=TENTATIVE:mailto:Marie@Example.com',
+		'ATTENDEE;PARTSTAT=DECLINED:mailto:leo@example.com',
+		'BEGIN:VALARM',
+		'DESCRIPTION:Alarm text',
+		'END:VALARM',
+		'END:VEVENT',
+		'END:VCALENDAR',
+	].join('\r\n');
+
+	it('reads the event properties, unfolding and unescaping values', () => {
+		const [event] = parseCalendarEvents(invite);
+
+		expect(event.summary).toBe('Quarterly review, Q3');
+		expect(event.location).toBe('Room 4');
+		expect(event.description).toBe('Agenda:\nNumbers\nPlans for the next quarter');
+		expect(event.dtstart).toEqual({ name: 'DTSTART', params: { TZID: 'Europe/Paris' }, value: '20260910T140000' });
+	});
+
+	it('turns attendees into guests with their RSVP', () => {
+		const [event] = parseCalendarEvents(invite);
+
+		expect(event.attendees.map(({ name, email, rsvp }) => ({ name, email, rsvp }))).toEqual([
+			{ name: 'Dupont, Marie', email: 'marie@example.com', rsvp: 'maybe' },
+			{ name: 'leo@example.com', email: 'leo@example.com', rsvp: 'declined' },
+		]);
+	});
+
+	it('reads every event', () => {
+		const events = parseCalendarEvents(`${invite}\n${invite.replace('Quarterly review', 'Offsite')}`);
+
+		expect(events.map((event) => event.summary)).toEqual(['Quarterly review, Q3', 'Offsite, Q3']);
+	});
+});
+
+describe('resolveTimeZone', () => {
+	it('keeps IANA names and maps Windows names', () => {
+		expect(resolveTimeZone('Europe/Paris')).toBe('Europe/Paris');
+		expect(resolveTimeZone('Pacific Standard Time')).toBe('America/Los_Angeles');
+		expect(resolveTimeZone('W. Europe Standard Time')).toBe('Europe/Berlin');
+	});
+
+	it('returns null for zones it does not know', () => {
+		expect(resolveTimeZone('Mars Standard Time')).toBeNull();
+		expect(resolveTimeZone('toString')).toBeNull();
+	});
+});
+
+describe('calendarEventToPlanFields', () => {
+	function eventStarting(dtstart: string) {
+		return parseCalendarEvents(['BEGIN:VEVENT', 'SUMMARY:Offsite', dtstart, 'END:VEVENT'].join('\r\n'))[0];
+	}
+
+	it('keeps the wall-clock time and zone of TZID starts', () => {
+		const fields = calendarEventToPlanFields(eventStarting('DTSTART;TZID=Europe/Paris:20260910T140000'), 'UTC');
+
+		expect(fields).toMatchObject({ title: 'Offsite', date: '2026-09-10', time: '02:00 PM', timeZone: 'Europe/Paris', warnings: [] });
+	});
+
+	it('maps Windows time zone names', () => {
+		const fields = calendarEventToPlanFields(eventStarting('DTSTART;TZID="Pacific Standard Time":20260910T090000'), 'UTC');
+
+		expect(fields).toMatchObject({ time: '09:00 AM', timeZone: 'America/Los_Angeles', warnings: [] });
+	});
+
+	it('warns about time zones it cannot resolve', () => {
+		const fields = calendarEventToPlanFields(eventStarting('DTSTART;TZID=Custom Zone 1:20260910T090000'), 'UTC');
+
+		expect(fields!.timeZone).toBeUndefined();
+		expect(fields!.warnings).toEqual([expect.stringContaining('"Custom Zone 1" is not recognised')]);
+	});
+
+	it('shows UTC starts in the default time zone', () => {
+		const fields = calendarEventToPlanFields(eventStarting('DTSTART:20260910T020000Z'), 'America/New_York');
+
+		expect(fields).toMatchObject({ date: '2026-09-09', time: '10:00 PM', timeZone: 'America/New_York' });
+	});
+
+	it('reads all-day events', () => {
+		const fields = calendarEventToPlanFields(eventStarting('DTSTART;VALUE=DATE:20260910'), 'UTC');
+
+		expect(fields).toMatchObject({ date: '2026-09-10' });
+		expect(fields!.time).toBeUndefined();
+	});
+
+	it('returns null without a usable start', () => {
+		expect(calendarEventToPlanFields(eventStarting('DTSTART:soon'), 'UTC')).toBeNull();
+	});
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getEventStart, isValidTimeZone, parseTimeOfDay, utcToZonedTime, zonedTimeToUtc } from '../src/event-time';
+import { EventPlan } from '../src/types';
+
+function makePlan(overrides: Partial<EventPlan> = {}): EventPlan {
+	return {
+		id: 'plan-1',
+		title: 'Launch party',
+		date: '2026-07-15',
+		guests: [],
+		timeline: [],
+		budget: 0,
+		status: 'approved',
+		createdAt: '2026-01-01T00:00:00.000Z',
+		updatedAt: '2026-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+describe('parseTimeOfDay', () => {
+	it('converts times to 24-hour parts', () => {
+		expect(parseTimeOfDay('07:30 PM')).toEqual({ hours: 19, minutes: 30 });
+		expect(parseTimeOfDay('12:00 AM')).toEqual({ hours: 0, minutes: 0 });
+		expect(parseTimeOfDay('12:15 PM')).toEqual({ hours: 12, minutes: 15 });
+		expect(parseTimeOfDay('19:30')).toEqual({ hours: 19, minutes: 30 });
+	});
+
+	it('returns null for missing or invalid times', () => {
+		expect(parseTimeOfDay(undefined)).toBeNull();
+		expect(parseTimeOfDay('evening')).toBeNull();
+	});
+});
+
+describe('isValidTimeZone', () => {
+	it('accepts IANA names and rejects others', () => {
+		expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+		expect(isValidTimeZone('UTC')).toBe(true);
+		expect(isValidTimeZone('Pacific Standard Time')).toBe(false);
+	});
+});
+
+describe('zonedTimeToUtc', () => {
+	it('applies the offset in effect on that date', () => {
+		// New York is UTC-5 in winter and UTC-4 in summer
+		expect(zonedTimeToUtc('2026-01-15', 19, 0, 'America/New_York')!.toISOString()).toBe('2026-01-16T00:00:00.000Z');
+		expect(zonedTimeToUtc('2026-07-15', 19, 0, 'America/New_York')!.toISOString()).toBe('2026-07-15T23:00:00.000Z');
+	});
+
+	it('handles times just after a DST change', () => {
+		// Clocks in Berlin went forward at 02:00 on 29 March 2026
+		expect(zonedTimeToUtc('2026-03-29', 3, 30, 'Europe/Berlin')!.toISOString()).toBe('2026-03-29T01:30:00.000Z');
+	});
+
+	it('rejects dates that are not YYYY-MM-DD', () => {
+		expect(zonedTimeToUtc('15/07/2026', 9, 0, 'UTC')).toBeNull();
+	});
+});
+
+describe('utcToZonedTime', () => {
+	it('returns the local date and time, which can be on another day', () => {
+		expect(utcToZonedTime(new Date('2026-07-15T23:30:00Z'), 'Asia/Tokyo')).toEqual({ date: '2026-07-16', hours: 8, minutes: 30 });
+		expect(utcToZonedTime(new Date('2026-07-15T02:00:00Z'), 'America/Los_Angeles')).toEqual({ date: '2026-07-14', hours: 19, minutes: 0 });
+	});
+
+	it('round-trips with zonedTimeToUtc', () => {
+		const instant = zonedTimeToUtc('2026-11-01', 8, 45, 'Australia/Sydney')!;
+
+		expect(utcToZonedTime(instant, 'Australia/Sydney')).toEqual({ date: '2026-11-01', hours: 8, minutes: 45 });
+	});
+});
+
+describe('getEventStart', () => {
+	it('uses the plan time in the given zone', () => {
+		expect(getEventStart(makePlan({ time: '06:00 PM' }), 'Europe/London')!.toISOString()).toBe('2026-07-15T17:00:00.000Z');
+	});
+
+	it('starts plans without a time in the morning', () => {
+		expect(getEventStart(makePlan(), 'UTC')!.toISOString()).toBe('2026-07-15T09:00:00.000Z');
+	});
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyRsvp,
+	createGuest,
+	describeHeadcount,
+	normalizeGuests,
+	normalizeRsvpStatus,
+	summarizeRsvps,
+	validateRsvpResponse,
+} from '../src/guests';
+import { Guest } from '../src/types';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+describe('normalizeRsvpStatus', () => {
+	it('accepts statuses and common words for them', () => {
+		expect(normalizeRsvpStatus('Going')).toBe('going');
+		expect(normalizeRsvpStatus('yes')).toBe('going');
+		expect(normalizeRsvpStatus('tentative')).toBe('maybe');
+		expect(normalizeRsvpStatus('not attending')).toBe('declined');
+	});
+
+	it('rejects unknown words and inherited object keys', () => {
+		expect(normalizeRsvpStatus('perhaps')).toBeNull();
+		expect(normalizeRsvpStatus('constructor')).toBeNull();
+		expect(normalizeRsvpStatus('toString')).toBeNull();
+		expect(normalizeRsvpStatus(true)).toBeNull();
+	});
+});
+
+describe('normalizeGuests', () => {
+	it('turns names and guest objects into guests', () => {
+		const guests = normalizeGuests(['Ana', '  ', { name: 'Ben', email: 'BEN@example.com', rsvp: 'yes', plusOnes: '2' }])!;
+
+		expect(guests.map(({ name, email, rsvp, plusOnes }) => ({ name, email, rsvp, plusOnes }))).toEqual([
+			{ name: 'Ana', email: undefined, rsvp: 'invited', plusOnes: undefined },
+			{ name: 'Ben', email: 'ben@example.com', rsvp: 'going', plusOnes: 2 },
+		]);
+	});
+
+	it('gives new guests random ids instead of the ones sent', () => {
+		const guests = normalizeGuests([{ id: '1', name: 'Ana' }, { id: 'alice', name: 'Alice' }])!;
+
+		for (const guest of guests) {
+			expect(guest.id).toMatch(UUID);
+		}
+	});
+
+	it('keeps the ids of guests already on the plan, once each', () => {
+		const existing = [createGuest('Ana')];
+		const guests = normalizeGuests([{ id: existing[0].id, name: 'Ana B.' }, { id: existing[0].id, name: 'Copy' }], existing)!;
+
+		expect(guests[0].id).toBe(existing[0].id);
+		expect(guests[1].id).not.toBe(existing[0].id);
+	});
+
+	it('rejects guests without a name or with an invalid answer', () => {
+		expect(normalizeGuests([{ email: 'ana@example.com' }])).toBeNull();
+		expect(normalizeGuests([{ name: 'Ana', rsvp: 'perhaps' }])).toBeNull();
+		expect(normalizeGuests([{ name: 'Ana', plusOnes: 11 }])).toBeNull();
+		expect(normalizeGuests('Ana')).toBeNull();
+	});
+});
+
+describe('validateRsvpResponse', () => {
+	it('normalizes a valid answer', () => {
+		expect(validateRsvpResponse({ status: 'yes', name: ' Ana ', email: 'Ana@Example.com', plusOnes: 1 })).toEqual({
+			response: { status: 'going', guestId: undefined, name: 'Ana', email: 'ana@example.com', dietaryNotes: undefined, plusOnes: 1 },
+		});
+	});
+
+	it('rejects answers that are not an RSVP', () => {
+		expect(validateRsvpResponse({ status: 'invited', name: 'Ana' }).error).toBe('"status" must be going, maybe or declined');
+		expect(validateRsvpResponse({ status: 'going' }).error).toBe('"name" is required');
+		expect(validateRsvpResponse({ status: 'going', name: 'Ana', email: 'ana' }).error).toBe('"email" is not a valid email address');
+		expect(validateRsvpResponse({ status: 'going', name: 'Ana', plusOnes: -1 }).error).toContain('"plusOnes"');
+	});
+});
+
+describe('applyRsvp', () => {
+	const now = new Date('2026-05-01T12:00:00Z');
+	const ana: Guest = { id: 'g-ana', name: 'Ana', email: 'ana@example.com', rsvp: 'invited' };
+	const ben: Guest = { id: 'g-ben', name: 'Ben', slackUserId: 'U1', rsvp: 'invited' };
+
+	it('updates the guest matched by id, Slack user, email or name', () => {
+		expect(applyRsvp([ana, ben], { status: 'going', guestId: 'g-ben' }, now).guest.id).toBe('g-ben');
+		expect(applyRsvp([ana, ben], { status: 'going', slackUserId: 'U1' }, now).guest.id).toBe('g-ben');
+		expect(applyRsvp([ana, ben], { status: 'going', email: 'ana@example.com' }, now).guest.id).toBe('g-ana');
+		expect(applyRsvp([ana, ben], { status: 'going', name: 'ANA' }, now).guest.id).toBe('g-ana');
+	});
+
+	it('records the answer and when it was given', () => {
+		const { guests, guest } = applyRsvp([ana], { status: 'maybe', guestId: 'g-ana', plusOnes: 2, dietaryNotes: 'vegan' }, now);
+
+		expect(guest).toEqual({ ...ana, rsvp: 'maybe', plusOnes: 2, dietaryNotes: 'vegan', respondedAt: '2026-05-01T12:00:00.000Z' });
+		expect(guests).toEqual([guest]);
+	});
+
+	it('does not match a name tied to another Slack user', () => {
+		const { guests } = applyRsvp([ben], { status: 'going', name: 'Ben', slackUserId: 'U2' }, now);
+
+		expect(guests).toHaveLength(2);
+	});
+
+	it('adds a new guest when matching by id alone, even if the name or email matches', () => {
+		const { guests, guest } = applyRsvp([ana], { status: 'declined', name: 'Ana', email: 'ana@example.com', matchByIdOnly: true }, now);
+
+		expect(guests).toHaveLength(2);
+		expect(guests[0]).toEqual(ana);
+		expect(guest.id).not.toBe('g-ana');
+	});
+});
+
+describe('summarizeRsvps', () => {
+	it('counts answers, plus-ones and dietary notes of guests who may come', () => {
+		const summary = summarizeRsvps([
+			{ id: '1', name: 'Ana', rsvp: 'going', plusOnes: 2, dietaryNotes: 'vegan' },
+			{ id: '2', name: 'Ben', rsvp: 'maybe', dietaryNotes: 'no nuts' },
+			{ id: '3', name: 'Cy', rsvp: 'declined', dietaryNotes: 'halal' },
+			{ id: '4', name: 'Di', rsvp: 'invited' },
+		]);
+
+		expect(summary).toEqual({ going: 1, maybe: 1, declined: 1, invited: 1, headcount: 3, dietaryNotes: ['Ana: vegan', 'Ben: no nuts'] });
+	});
+});
+
+describe('describeHeadcount', () => {
+	it('describes replies and plus-ones', () => {
+		expect(describeHeadcount([])).toBe('No guests yet');
+		expect(describeHeadcount([createGuest('Ana'), createGuest('Ben')])).toBe('2 invited, no replies yet');
+		expect(describeHeadcount([
+			{ id: '1', name: 'Ana', rsvp: 'going', plusOnes: 1 },
+			{ id: '2', name: 'Ben', rsvp: 'declined' },
+			{ id: '3', name: 'Cy', rsvp: 'invited' },
+		])).toBe("2 going (incl. 1 plus-one) · 1 can't go · 1 no reply");
+	});
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { env } from 'cloudflare:test';
+import { applyPlanPatch, diffPlans, validatePatchOperations } from '../src/plan-editing';
+import { getEventStore } from '../src/event-store';
+import { EventPlan, PlanPatch } from '../src/types';
+
+function makePlan(overrides: Partial<EventPlan> = {}): EventPlan {
+	return {
+		id: crypto.randomUUID(),
+		title: 'Team offsite',
+		date: '2026-06-12',
+		guests: [],
+		timeline: [
+			{ id: 't1', title: 'Book venue', done: false },
+			{ id: 't2', title: 'Order catering', done: false },
+			{ id: 't3', title: 'Send invites', done: false },
+		],
+		budget: 5000,
+		budgetItems: [{ category: 'venue', description: 'Hall', estimated: 2000 }],
+		status: 'draft',
+		createdAt: '2026-01-01T00:00:00.000Z',
+		updatedAt: '2026-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+describe('validatePatchOperations', () => {
+	it('accepts valid operations and trims their text', () => {
+		const { operations, errors } = validatePatchOperations(makePlan(), [
+			{ op: 'update_timeline_item', index: 0, item: '  Book the hall  ' },
+			{ op: 'set_budget', budget: '$6k' },
+		]);
+
+		expect(errors).toEqual([]);
+		expect(operations).toEqual([
+			{ op: 'update_timeline_item', index: 0, item: 'Book the hall' },
+			{ op: 'set_budget', budget: 6000 },
+		]);
+	});
+
+	it('checks indexes against the timeline as earlier operations leave it', () => {
+		const plan = makePlan();
+
+		expect(validatePatchOperations(plan, [
+			{ op: 'remove_timeline_item', index: 2 },
+			{ op: 'remove_timeline_item', index: 2 },
+		]).errors).toEqual(['operation 2: "index" must be between 0 and 1']);
+
+		expect(validatePatchOperations(plan, [
+			{ op: 'add_timeline_item', item: 'Hire DJ' },
+			{ op: 'update_task', index: 3, done: true },
+		]).errors).toEqual([]);
+	});
+
+	it('rejects out-of-range budget item indexes', () => {
+		const { errors } = validatePatchOperations(makePlan(), [{ op: 'remove_budget_item', index: 1 }]);
+
+		expect(errors).toEqual(['operation 1: "index" must be between 0 and 0']);
+	});
+
+	it('rejects negative amounts and unknown ops', () => {
+		const { operations, errors } = validatePatchOperations(makePlan(), [
+			{ op: 'set_budget', budget: -100 },
+			{ op: 'set_title', title: 'Party' },
+		]);
+
+		expect(operations).toBeUndefined();
+		expect(errors).toEqual([
+			'operation 1: "budget" must be a non-negative number',
+			'operation 2: unknown op "set_title"',
+		]);
+	});
+
+	it('requires an array', () => {
+		expect(validatePatchOperations(makePlan(), { op: 'set_venue' }).errors).toEqual(['"operations" must be an array']);
+	});
+
+	it('accepts operations it already normalized', () => {
+		const plan = makePlan();
+		const { operations } = validatePatchOperations(plan, [
+			{ op: 'add_timeline_item', item: 'Hire DJ', dueDaysBefore: '7' },
+			{ op: 'update_task', index: 1, assignee: 'Sam' },
+			{ op: 'add_budget_item', item: { category: 'music', description: 'DJ', estimated: 400 } },
+		]);
+
+		expect(validatePatchOperations(plan, operations)).toEqual({ operations, errors: [] });
+	});
+});
+
+describe('applyPlanPatch', () => {
+	it('applies timeline operations in order', () => {
+		const plan = makePlan();
+		const updated = applyPlanPatch(plan, {
+			summary: 'Reordered',
+			operations: [
+				{ op: 'move_timeline_item', from: 2, to: 0 },
+				{ op: 'remove_timeline_item', index: 1 },
+				{ op: 'add_timeline_item', item: '1 week before: Hire DJ', position: 1 },
+			],
+		});
+
+		expect(updated.timeline.map((task) => task.title)).toEqual(['Send invites', 'Hire DJ', 'Order catering']);
+		expect(updated.timeline[1]).toMatchObject({ id: 't4', dueDaysBefore: 7 });
+		expect(plan.timeline.map((task) => task.title)).toEqual(['Book venue', 'Order catering', 'Send invites']);
+	});
+
+	it('updates tasks and budget items', () => {
+		const updated = applyPlanPatch(makePlan(), {
+			summary: 'Progress',
+			operations: [
+				{ op: 'update_task', index: 0, done: true, assignee: 'Sam' },
+				{ op: 'update_budget_item', index: 0, actual: 1800 },
+				{ op: 'set_currency', currency: 'EUR' },
+			],
+		});
+
+		expect(updated.timeline[0]).toMatchObject({ done: true, assignee: 'Sam' });
+		expect(updated.budgetItems).toEqual([{ category: 'venue', description: 'Hall', estimated: 2000, actual: 1800 }]);
+		expect(updated.currency).toBe('EUR');
+	});
+
+	it('leaves budgetItems unset on plans without line items', () => {
+		const updated = applyPlanPatch(makePlan({ budgetItems: undefined }), {
+			summary: 'Venue',
+			operations: [{ op: 'set_venue', venue: 'Harbour Hall' }],
+		});
+
+		expect(updated).not.toHaveProperty('budgetItems');
+		expect(updated.venue).toBe('Harbour Hall');
+	});
+});
+
+describe('diffPlans', () => {
+	it('lists only the fields that changed', () => {
+		const before = makePlan();
+		const after = { ...before, venue: 'Harbour Hall', updatedAt: '2026-02-01T00:00:00.000Z' };
+
+		expect(diffPlans(before, after)).toEqual([{ field: 'venue', before: undefined, after: 'Harbour Hall' }]);
+	});
+});
+
+describe('EventPlanStore.applyPatch', () => {
+	const removeLastTask: PlanPatch = { summary: 'Removed a task', operations: [{ op: 'remove_timeline_item', index: 2 }] };
+
+	it('stores the patched plan as a new version', async () => {
+		const store = getEventStore(env);
+		const plan = await store.savePlan(makePlan());
+
+		const updated = await store.applyPatch(plan.id, removeLastTask, 1);
+
+		expect(updated).toMatchObject({ version: 2 });
+		expect((await store.listVersions(plan.id)).map((version) => version.version)).toEqual([1, 2]);
+	});
+
+	it('refuses a patch made against an older version', async () => {
+		const store = getEventStore(env);
+		const plan = await store.savePlan(makePlan());
+		await store.editPlan(plan.id, { title: 'Summer offsite' });
+
+		const result = await store.applyPatch(plan.id, removeLastTask, 1);
+
+		expect(result).toHaveProperty('error');
+		expect((await store.getPlan(plan.id))!.timeline).toHaveLength(3);
+	});
+
+	it('refuses a patch that no longer fits the stored plan', async () => {
+		const store = getEventStore(env);
+		const plan = await store.savePlan(makePlan());
+		await store.editPlan(plan.id, { timeline: plan.timeline.slice(0, 1) });
+
+		const result = await store.applyPatch(plan.id, removeLastTask);
+
+		expect(result).toEqual({ error: expect.stringContaining('"index" must be between 0 and 0') });
+	});
+
+	it('returns null for unknown plans', async () => {
+		expect(await getEventStore(env).applyPatch('missing', removeLastTask)).toBeNull();
+	});
+});
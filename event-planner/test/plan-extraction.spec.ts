@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeBudget, normalizeDate, normalizeTime, validateEventPlanFields } from '../src/plan-extraction';
+
+describe('normalizeDate', () => {
+	it('keeps ISO dates and pads their parts', () => {
+		expect(normalizeDate('2026-03-05')).toBe('2026-03-05');
+		expect(normalizeDate('2026-3-5')).toBe('2026-03-05');
+	});
+
+	it('rejects dates that do not exist', () => {
+		expect(normalizeDate('2026-02-30')).toBeNull();
+		expect(normalizeDate('2026-13-01')).toBeNull();
+	});
+
+	it('reads written dates that name the year', () => {
+		expect(normalizeDate('March 5, 2026')).toBe('2026-03-05');
+		expect(normalizeDate('5 March 2026')).toBe('2026-03-05');
+	});
+
+	it('rejects dates without a year', () => {
+		expect(normalizeDate('March 5')).toBeNull();
+		expect(normalizeDate('next Friday')).toBeNull();
+	});
+
+	it('rejects empty and non-string values', () => {
+		expect(normalizeDate('')).toBeNull();
+		expect(normalizeDate(20260305)).toBeNull();
+		expect(normalizeDate(undefined)).toBeNull();
+	});
+});
+
+describe('normalizeTime', () => {
+	it('reads 12-hour and 24-hour times', () => {
+		expect(normalizeTime('7pm')).toBe('07:00 PM');
+		expect(normalizeTime('7:30 p.m.')).toBe('07:30 PM');
+		expect(normalizeTime('19:30')).toBe('07:30 PM');
+		expect(normalizeTime('0:15')).toBe('12:15 AM');
+	});
+
+	it('keeps the start of a range', () => {
+		expect(normalizeTime('6pm - 9pm')).toBe('06:00 PM');
+	});
+
+	it('rejects times that do not exist', () => {
+		expect(normalizeTime('25:00')).toBeNull();
+		expect(normalizeTime('13pm')).toBeNull();
+		expect(normalizeTime('7:75')).toBeNull();
+	});
+});
+
+describe('normalizeBudget', () => {
+	it('reads amounts with currency symbols and separators', () => {
+		expect(normalizeBudget(1500)).toBe(1500);
+		expect(normalizeBudget('$1,500')).toBe(1500);
+		expect(normalizeBudget('1500 USD')).toBe(1500);
+	});
+
+	it('reads magnitude suffixes and words', () => {
+		expect(normalizeBudget('1.5k')).toBe(1500);
+		expect(normalizeBudget('3 thousand')).toBe(3000);
+		expect(normalizeBudget('1.5m')).toBe(1_500_000);
+		expect(normalizeBudget('2 million')).toBe(2_000_000);
+	});
+
+	it('does not mistake words starting with a magnitude letter for one', () => {
+		expect(normalizeBudget('$2,000 max')).toBe(2000);
+	});
+
+	it('rejects negative amounts', () => {
+		expect(normalizeBudget(-400)).toBeNull();
+		expect(normalizeBudget('-400')).toBeNull();
+		expect(normalizeBudget('-$400')).toBeNull();
+		expect(normalizeBudget('$-400')).toBeNull();
+	});
+
+	it('reads the lower end of a range as positive', () => {
+		expect(normalizeBudget('1000-2000')).toBe(1000);
+	});
+
+	it('rejects values without an amount', () => {
+		expect(normalizeBudget('a lot')).toBeNull();
+		expect(normalizeBudget(Number.NaN)).toBeNull();
+		expect(normalizeBudget(null)).toBeNull();
+	});
+});
+
+describe('validateEventPlanFields', () => {
+	it('normalizes a valid plan', () => {
+		const { value, errors } = validateEventPlanFields({
+			title: ' Team offsite ',
+			date: '2026-06-12',
+			time: '9am',
+			guests: ['Ana', 'Ben'],
+			timeline: ['Book venue'],
+			budget: '$5k',
+			venue: 'TBD',
+		});
+
+		expect(errors).toEqual([]);
+		expect(value).toMatchObject({ title: 'Team offsite', date: '2026-06-12', time: '09:00 AM', budget: 5000 });
+		expect(value!.guests.map((guest) => guest.name)).toEqual(['Ana', 'Ben']);
+		expect(value!.timeline.map((task) => task.title)).toEqual(['Book venue']);
+		expect(value!.venue).toBeUndefined();
+	});
+
+	it('turns a bare headcount into placeholder guests', () => {
+		const { value } = validateEventPlanFields({ title: 'Dinner', date: '2026-06-12', guests: 3 });
+
+		expect(value!.guests).toHaveLength(3);
+	});
+
+	it('uses the line items as the budget when no total is given', () => {
+		const { value } = validateEventPlanFields({
+			title: 'Dinner',
+			date: '2026-06-12',
+			budgetItems: [
+				{ category: 'catering', description: 'Food', estimated: 300 },
+				{ category: 'venue', description: 'Room', estimated: 200 },
+			],
+		});
+
+		expect(value!.budget).toBe(500);
+	});
+
+	it('reports every invalid field', () => {
+		const { value, errors } = validateEventPlanFields({ date: 'March 5', time: '25:00', budget: '-400' });
+
+		expect(value).toBeUndefined();
+		expect(errors).toHaveLength(4);
+	});
+
+	it('rejects values that are not objects', () => {
+		expect(validateEventPlanFields(['title']).errors).toEqual(['"event" must be an object']);
+	});
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { env } from 'cloudflare:test';
+import {
+	approvePlan,
+	canTransition,
+	describeActor,
+	describeStatus,
+	isClosed,
+	isConfirmed,
+	isEventStatus,
+	isUnderReview,
+	transitionPlanStatus,
+	PlanStatusError,
+	STATUS_TRANSITIONS,
+} from '../src/plan-status';
+import { getEventStore } from '../src/event-store';
+import { EventPlan, EventStatus, StatusActor } from '../src/types';
+
+const actor: StatusActor = { source: 'web', name: 'ana@example.com' };
+
+function makePlan(overrides: Partial<EventPlan> = {}): EventPlan {
+	return {
+		id: crypto.randomUUID(),
+		title: 'Team offsite',
+		date: '2026-06-12',
+		guests: [],
+		timeline: [],
+		budget: 0,
+		status: 'draft',
+		createdAt: '2026-01-01T00:00:00.000Z',
+		updatedAt: '2026-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+describe('isEventStatus', () => {
+	it('accepts every status in the lifecycle', () => {
+		for (const status of Object.keys(STATUS_TRANSITIONS)) {
+			expect(isEventStatus(status)).toBe(true);
+		}
+	});
+
+	it('rejects unknown values and inherited object keys', () => {
+		expect(isEventStatus('sent_to_slack')).toBe(false);
+		expect(isEventStatus('toString')).toBe(false);
+		expect(isEventStatus('constructor')).toBe(false);
+		expect(isEventStatus('__proto__')).toBe(false);
+		expect(isEventStatus(undefined)).toBe(false);
+	});
+});
+
+describe('canTransition', () => {
+	it('follows the lifecycle', () => {
+		expect(canTransition('draft', 'in_review')).toBe(true);
+		expect(canTransition('in_review', 'draft')).toBe(true);
+		expect(canTransition('in_review', 'approved')).toBe(true);
+		expect(canTransition('approved', 'published')).toBe(true);
+		expect(canTransition('published', 'completed')).toBe(true);
+	});
+
+	it('does not skip steps or move backwards after approval', () => {
+		expect(canTransition('draft', 'approved')).toBe(false);
+		expect(canTransition('approved', 'draft')).toBe(false);
+		expect(canTransition('published', 'approved')).toBe(false);
+	});
+
+	it('allows cancelling until a plan is closed', () => {
+		const open: EventStatus[] = ['draft', 'in_review', 'approved', 'published'];
+		for (const status of open) {
+			expect(canTransition(status, 'cancelled')).toBe(true);
+		}
+		expect(canTransition('completed', 'cancelled')).toBe(false);
+		expect(canTransition('cancelled', 'draft')).toBe(false);
+	});
+});
+
+describe('status groups', () => {
+	it('groups statuses by what can still happen to the plan', () => {
+		expect(isUnderReview('draft') && isUnderReview('in_review')).toBe(true);
+		expect(isConfirmed('approved') && isConfirmed('published')).toBe(true);
+		expect(isConfirmed('completed')).toBe(false);
+		expect(isClosed('completed') && isClosed('cancelled')).toBe(true);
+		expect(isClosed('published')).toBe(false);
+	});
+
+	it('labels statuses and actors', () => {
+		expect(describeStatus('in_review')).toBe('In review');
+		expect(describeActor({ source: 'slack', userId: 'U1' })).toBe('<@U1>');
+		expect(describeActor({ source: 'system' })).toBe('the event planner');
+		expect(describeActor({ source: 'web' })).toBe('someone on the web');
+	});
+});
+
+describe('transitionPlanStatus', () => {
+	it('moves the plan and records the change in its audit log', async () => {
+		const store = getEventStore(env);
+		const plan = await store.savePlan(makePlan());
+
+		const { plan: updated, transition } = await transitionPlanStatus(env, plan.id, 'in_review', actor, { reason: 'Ready' });
+
+		expect(updated.status).toBe('in_review');
+		expect(transition).toMatchObject({ from: 'draft', to: 'in_review', actor, reason: 'Ready' });
+		expect(await store.listTransitions(plan.id)).toEqual([transition]);
+	});
+
+	it('refuses transitions the lifecycle does not allow', async () => {
+		const plan = await getEventStore(env).savePlan(makePlan({ status: 'completed' }));
+
+		await expect(transitionPlanStatus(env, plan.id, 'cancelled', actor)).rejects.toThrow(
+			new PlanStatusError('A plan that is completed cannot be moved to cancelled'),
+		);
+	});
+
+	it('refuses unknown plans', async () => {
+		await expect(transitionPlanStatus(env, 'missing', 'in_review', actor)).rejects.toBeInstanceOf(PlanStatusError);
+	});
+});
+
+describe('approvePlan', () => {
+	it('submits drafts for review before approving them', async () => {
+		const store = getEventStore(env);
+		const plan = await store.savePlan(makePlan());
+
+		const approved = await approvePlan(env, plan, actor);
+
+		expect(approved.status).toBe('approved');
+		expect((await store.listTransitions(plan.id)).map(({ from, to }) => `${from}->${to}`)).toEqual(['draft->in_review', 'in_review->approved']);
+	});
+
+	it('leaves approved plans as they are', async () => {
+		const plan = makePlan({ status: 'approved' });
+
+		expect(await approvePlan(env, plan, actor)).toBe(plan);
+	});
+});
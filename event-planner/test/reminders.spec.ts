@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { env } from 'cloudflare:test';
+import { describeTimeUntil, findOverdueTasks, parseReminderOffsets } from '../src/reminders';
+import { getEventStore } from '../src/event-store';
+import { EventPlan } from '../src/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function makePlan(overrides: Partial<EventPlan> = {}): EventPlan {
+	return {
+		id: crypto.randomUUID(),
+		title: 'Launch party',
+		date: '2026-07-15',
+		time: '06:00 PM',
+		guests: [],
+		timeline: [],
+		budget: 0,
+		status: 'approved',
+		createdAt: '2026-01-01T00:00:00.000Z',
+		updatedAt: '2026-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+describe('parseReminderOffsets', () => {
+	it('parses offsets largest first', () => {
+		expect(parseReminderOffsets('1h, 2d,1w')).toEqual([
+			{ label: '1w', ms: 7 * DAY_MS },
+			{ label: '2d', ms: 2 * DAY_MS },
+			{ label: '1h', ms: HOUR_MS },
+		]);
+	});
+
+	it('ignores entries it cannot read', () => {
+		expect(parseReminderOffsets('0d,soon,30m,-1h').map((offset) => offset.label)).toEqual(['30m']);
+	});
+
+	it('falls back to a week, a day and an hour', () => {
+		expect(parseReminderOffsets(undefined).map((offset) => offset.label)).toEqual(['1w', '1d', '1h']);
+	});
+});
+
+describe('describeTimeUntil', () => {
+	it('uses the largest whole unit', () => {
+		expect(describeTimeUntil(3 * DAY_MS + 2 * HOUR_MS)).toBe('3 days');
+		expect(describeTimeUntil(DAY_MS)).toBe('1 day');
+		expect(describeTimeUntil(5 * HOUR_MS + 10 * 60 * 1000)).toBe('5 hours');
+		expect(describeTimeUntil(40 * 60 * 1000)).toBe('40 minutes');
+	});
+
+	it('never says less than a minute', () => {
+		expect(describeTimeUntil(10 * 1000)).toBe('1 minute');
+	});
+
+	it('describes the real time left rather than the offset that fired', () => {
+		// A plan approved three days out passes the one week offset
+		expect(describeTimeUntil(3 * DAY_MS)).toBe('3 days');
+	});
+});
+
+describe('findOverdueTasks', () => {
+	it('lists tasks past their due time that are not done', () => {
+		const plan = makePlan({
+			timeline: [
+				{ id: 't1', title: 'Book venue', dueDaysBefore: 14, done: false },
+				{ id: 't2', title: 'Order cake', dueDaysBefore: 7, done: true },
+				{ id: 't3', title: 'Confirm headcount', dueDaysBefore: 2, done: false },
+				{ id: 't4', title: 'Buy candles', done: false },
+			],
+		});
+		const start = new Date('2026-07-15T18:00:00Z');
+
+		const overdue = findOverdueTasks(plan, start, new Date('2026-07-10T12:00:00Z'));
+
+		expect(overdue.map((task) => task.id)).toEqual(['t1']);
+	});
+});
+
+describe('sent reminders', () => {
+	const sent = { remindersSent: ['1w', '1d'], lastNudgeAt: '2026-07-10T12:00:00.000Z' };
+
+	it('are kept while the event stays where it is', async () => {
+		const store = getEventStore(env);
+		const plan = await store.savePlan(makePlan(sent));
+
+		const updated = await store.editPlan(plan.id, { venue: 'Harbour Hall' });
+
+		expect(updated).toMatchObject(sent);
+	});
+
+	it('are cleared when the event moves to another date or time', async () => {
+		const store = getEventStore(env);
+		const moved = await store.editPlan((await store.savePlan(makePlan(sent))).id, { date: '2026-08-01' });
+		const retimed = await store.updatePlan((await store.savePlan(makePlan(sent))).id, { time: '07:00 PM' });
+
+		for (const plan of [moved, retimed]) {
+			expect(plan!.remindersSent).toBeUndefined();
+			expect(plan!.lastNudgeAt).toBeUndefined();
+		}
+	});
+
+	it('are cleared when a rollback restores another date', async () => {
+		const store = getEventStore(env);
+		const plan = await store.savePlan(makePlan());
+		await store.editPlan(plan.id, { date: '2026-08-01' });
+		await store.updatePlan(plan.id, sent);
+
+		const restored = await store.rollback(plan.id, 1);
+
+		expect(restored).toMatchObject({ date: '2026-07-15' });
+		expect(restored!.remindersSent).toBeUndefined();
+	});
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { MockSearchProvider, SearchProvider, SearchProviderError, searchWithFallback } from '../src/search-providers';
+import { SearchResult } from '../src/types';
+
+/**
+ * A provider that always fails, like one that is down or rate limited
+ */
+class FailingSearchProvider implements SearchProvider {
+	readonly name = 'failing';
+	calls = 0;
+
+	async search(): Promise<SearchResult[]> {
+		this.calls++;
+		throw new SearchProviderError(this.name, 'HTTP 503');
+	}
+}
+
+/**
+ * A mock provider that records whether it was asked
+ */
+class CountingMockProvider extends MockSearchProvider {
+	calls = 0;
+
+	async search(query: string, maxResults: number): Promise<SearchResult[]> {
+		this.calls++;
+		return super.search(query, maxResults);
+	}
+}
+
+const venue = { title: 'Harbour Hall', url: 'https://example.com/harbour-hall', description: 'Event space by the water' };
+
+describe('searchWithFallback', () => {
+	it('returns the results of the first provider and does not ask the rest', async () => {
+		const first = new CountingMockProvider([venue]);
+		const second = new CountingMockProvider();
+
+		const results = await searchWithFallback([first, second], 'venues', 5);
+
+		expect(results).toEqual([{ ...venue, source: 'mock' }]);
+		expect(first.calls).toBe(1);
+		expect(second.calls).toBe(0);
+	});
+
+	it('falls back to the next provider when one fails', async () => {
+		const failing = new FailingSearchProvider();
+		const mock = new MockSearchProvider([venue]);
+
+		const results = await searchWithFallback([failing, mock], 'venues', 5);
+
+		expect(failing.calls).toBe(1);
+		expect(results).toEqual([{ ...venue, source: 'mock' }]);
+	});
+
+	it('falls back to the next provider when one finds nothing', async () => {
+		const empty = new CountingMockProvider([]);
+		const mock = new CountingMockProvider([venue]);
+
+		const results = await searchWithFallback([empty, mock], 'venues', 5);
+
+		expect(empty.calls).toBe(1);
+		expect(mock.calls).toBe(1);
+		expect(results).toHaveLength(1);
+	});
+
+	it('returns an empty list when every provider fails or finds nothing', async () => {
+		const results = await searchWithFallback([new FailingSearchProvider(), new MockSearchProvider([])], 'venues', 5);
+
+		expect(results).toEqual([]);
+	});
+
+	it('attributes results to the provider that answered', async () => {
+		const failing = new FailingSearchProvider();
+		const results = await searchWithFallback([failing, new MockSearchProvider()], 'venues', 3);
+
+		expect(results).toHaveLength(3);
+		expect(results.every((result) => result.source === 'mock')).toBe(true);
+		expect(results.some((result) => result.source === failing.name)).toBe(false);
+	});
+
+	it('limits results to maxResults', async () => {
+		const results = await searchWithFallback([new MockSearchProvider([venue, venue, venue])], 'venues', 2);
+
+		expect(results).toHaveLength(2);
+	});
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyTaskChanges,
+	describeTaskDue,
+	getTaskDueDate,
+	normalizeDueDays,
+	normalizeTimeline,
+	parseLeadTime,
+	parseTaskCommand,
+	validateTaskChanges,
+} from '../src/tasks';
+import { SlackService, TASK_ACTION_PREFIX } from '../src/slack';
+import { EventPlan, TimelineTask } from '../src/types';
+
+describe('parseLeadTime', () => {
+	it('reads a leading lead time and removes it from the title', () => {
+		expect(parseLeadTime('2 weeks before: book venue')).toEqual({ title: 'Book venue', dueDaysBefore: 14 });
+		expect(parseLeadTime('Day before - confirm headcount')).toEqual({ title: 'Confirm headcount', dueDaysBefore: 1 });
+		expect(parseLeadTime('Task 3: a month before: send invites')).toEqual({ title: 'Send invites', dueDaysBefore: 30 });
+	});
+
+	it('keeps a lead time later in the sentence as part of the title', () => {
+		expect(parseLeadTime('Order the cake three days ahead')).toEqual({ title: 'Order the cake three days ahead', dueDaysBefore: 3 });
+	});
+
+	it('leaves tasks without a lead time alone', () => {
+		expect(parseLeadTime('Buy balloons')).toEqual({ title: 'Buy balloons' });
+	});
+});
+
+describe('normalizeDueDays', () => {
+	it('accepts whole numbers of days within two years', () => {
+		expect(normalizeDueDays(7)).toBe(7);
+		expect(normalizeDueDays('0')).toBe(0);
+		expect(normalizeDueDays(undefined)).toBeUndefined();
+		expect(normalizeDueDays(null)).toBeUndefined();
+	});
+
+	it('rejects negative, fractional and far-off values', () => {
+		expect(normalizeDueDays(-1)).toBeNull();
+		expect(normalizeDueDays(1.5)).toBeNull();
+		expect(normalizeDueDays(731)).toBeNull();
+		expect(normalizeDueDays('soon')).toBeNull();
+	});
+});
+
+describe('normalizeTimeline', () => {
+	it('turns strings and objects into tasks', () => {
+		const tasks = normalizeTimeline(['1 week before: book venue', { title: 'Send invites', dueDaysBefore: 21, assignee: 'Sam', done: true }]);
+
+		expect(tasks).toEqual([
+			{ id: 't1', title: 'Book venue', dueDaysBefore: 7, done: false },
+			{ id: 't2', title: 'Send invites', dueDaysBefore: 21, assignee: 'Sam', assigneeSlackId: undefined, done: true, completedAt: undefined, completedBy: undefined },
+		]);
+	});
+
+	it('numbers tasks itself instead of keeping ids from the client', () => {
+		const tasks = normalizeTimeline([
+			{ id: 'x'.repeat(200), title: 'Book venue' },
+			{ id: 't1', title: 'Order food' },
+			{ id: 't1', title: 'Send invites' },
+		])!;
+
+		expect(tasks.map((task) => task.id)).toEqual(['t1', 't2', 't3']);
+	});
+
+	it('marks tasks listed as completed done', () => {
+		expect(normalizeTimeline(['Book venue', 'Order food'], ['Order food'])!.map((task) => task.done)).toEqual([false, true]);
+	});
+
+	it('rejects entries without a title or with an invalid lead time', () => {
+		expect(normalizeTimeline([{ assignee: 'Sam' }])).toBeNull();
+		expect(normalizeTimeline([{ title: 'Book venue', dueDaysBefore: -3 }])).toBeNull();
+		expect(normalizeTimeline('Book venue')).toBeNull();
+	});
+});
+
+describe('validateTaskChanges', () => {
+	it('keeps the fields that are set', () => {
+		expect(validateTaskChanges({ done: true, assignee: ' Sam ', dueDaysBefore: null })).toEqual({
+			changes: { done: true, assignee: 'Sam', assigneeSlackId: undefined, dueDaysBefore: undefined },
+		});
+	});
+
+	it('rejects invalid fields and empty updates', () => {
+		expect(validateTaskChanges({ done: 'yes' }).error).toBe('"done" must be true or false');
+		expect(validateTaskChanges({ title: ' ' }).error).toBe('"title" must be a non-empty string');
+		expect(validateTaskChanges({ dueDaysBefore: 1000 }).error).toContain('"dueDaysBefore"');
+		expect(validateTaskChanges({}).error).toContain('Nothing to update');
+	});
+});
+
+describe('applyTaskChanges', () => {
+	const task: TimelineTask = { id: 't1', title: 'Book venue', dueDaysBefore: 14, assignee: 'Sam', assigneeSlackId: 'U1', done: false };
+	const now = new Date('2026-05-01T12:00:00Z');
+
+	it('records when a task is completed and clears it when reopened', () => {
+		const done = applyTaskChanges(task, { done: true, completedBy: 'U2' }, now);
+		expect(done).toMatchObject({ done: true, completedAt: '2026-05-01T12:00:00.000Z', completedBy: 'U2' });
+
+		const reopened = applyTaskChanges(done, { done: false }, now);
+		expect(reopened).not.toHaveProperty('completedAt');
+		expect(reopened).not.toHaveProperty('completedBy');
+	});
+
+	it('removes the assignee and due date when they are cleared', () => {
+		const updated = applyTaskChanges(task, { assignee: undefined, dueDaysBefore: undefined }, now);
+
+		expect(updated).toEqual({ id: 't1', title: 'Book venue', done: false });
+	});
+});
+
+describe('due dates', () => {
+	it('counts back from the event date', () => {
+		expect(getTaskDueDate({ id: 't1', title: 'Book venue', dueDaysBefore: 14, done: false }, '2026-03-10')).toBe('2026-02-24');
+		expect(describeTaskDue({ id: 't1', title: 'Book venue', dueDaysBefore: 14, done: false }, '2026-03-10')).toBe('due Feb 24');
+		expect(describeTaskDue({ id: 't2', title: 'Set up', dueDaysBefore: 0, done: false }, '2026-03-10')).toBe('day of event');
+		expect(describeTaskDue({ id: 't3', title: 'Tidy up', done: false }, '2026-03-10')).toBeNull();
+	});
+});
+
+describe('parseTaskCommand', () => {
+	it('reads completion and assignment commands', () => {
+		expect(parseTaskCommand('done 3')).toEqual({ action: 'complete', number: 3, done: true });
+		expect(parseTaskCommand('mark task #2 as done.')).toEqual({ action: 'complete', number: 2, done: true });
+		expect(parseTaskCommand('reopen 2')).toEqual({ action: 'complete', number: 2, done: false });
+		expect(parseTaskCommand('assign 1 to <@U123>')).toEqual({ action: 'assign', number: 1, assignee: '<@U123>' });
+		expect(parseTaskCommand('unassign 4')).toEqual({ action: 'assign', number: 4, assignee: null });
+	});
+
+	it('ignores anything else', () => {
+		expect(parseTaskCommand('done with the venue search?')).toBeNull();
+		expect(parseTaskCommand('what is left to do')).toBeNull();
+	});
+});
+
+describe('task checkboxes in Slack', () => {
+	it('keep action ids within Slack\'s 255 character limit', () => {
+		const timeline = normalizeTimeline(Array.from({ length: 40 }, (_, index) => ({ id: `task-${'x'.repeat(60)}-${index}`, title: `Task ${index}` })))!;
+		const plan: EventPlan = {
+			id: crypto.randomUUID(),
+			title: 'Conference',
+			date: '2026-09-01',
+			guests: [],
+			timeline,
+			budget: 0,
+			status: 'approved',
+			createdAt: '2026-01-01T00:00:00.000Z',
+			updatedAt: '2026-01-01T00:00:00.000Z',
+		};
+
+		const message = new SlackService('xoxb-test').formatEventMessage(plan);
+		const actionIds = (message.blocks ?? [])
+			.flatMap((block) => (block as { elements?: { action_id?: string }[] }).elements ?? [])
+			.map((element) => element.action_id ?? '')
+			.filter((actionId) => actionId.startsWith(TASK_ACTION_PREFIX));
+
+		expect(actionIds).toHaveLength(4);
+		for (const actionId of actionIds) {
+			expect(actionId.length).toBeLessThanOrEqual(255);
+		}
+	});
+});
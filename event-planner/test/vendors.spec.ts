@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyVendorChanges,
+	createVendor,
+	describeVendor,
+	isBookingStatus,
+	isVendorCategory,
+	nextVendorId,
+	validateNewVendor,
+	validateVendorChanges,
+} from '../src/vendors';
+import { Vendor } from '../src/types';
+
+function makeVendor(overrides: Partial<Vendor> = {}): Vendor {
+	return {
+		id: 'v1',
+		category: 'catering',
+		name: 'Leeds Kitchen',
+		url: 'https://leedskitchen.example.com',
+		bookingStatus: 'considering',
+		addedAt: '2026-01-01T00:00:00.000Z',
+		...overrides,
+	};
+}
+
+describe('isVendorCategory / isBookingStatus', () => {
+	it('accepts only known values', () => {
+		expect(isVendorCategory('venue')).toBe(true);
+		expect(isVendorCategory('florist')).toBe(false);
+		expect(isBookingStatus('booked')).toBe(true);
+		expect(isBookingStatus('toString')).toBe(false);
+	});
+});
+
+describe('nextVendorId / createVendor', () => {
+	it('continues after the highest existing id', () => {
+		expect(nextVendorId([])).toBe('v1');
+		expect(nextVendorId([makeVendor({ id: 'v3' }), makeVendor({ id: 'v1' })])).toBe('v4');
+	});
+
+	it('ignores ids that are not numbered', () => {
+		expect(nextVendorId([makeVendor({ id: 'legacy' })])).toBe('v1');
+	});
+
+	it('stamps new vendors with an id and the time they were added', () => {
+		const { id, addedAt, ...details } = makeVendor();
+
+		const vendor = createVendor(details, [makeVendor({ id: 'v2' })], new Date('2026-03-01T10:00:00Z'));
+
+		expect(vendor).toEqual({ ...details, id: 'v3', addedAt: '2026-03-01T10:00:00.000Z' });
+	});
+});
+
+describe('validateNewVendor', () => {
+	it('builds a vendor from a search result', () => {
+		const { vendor, error } = validateNewVendor({
+			result: { url: 'https://hall.example.com', title: ' Town Hall ', description: 'Seats 200', source: 'web' },
+			category: 'venue',
+			quotedPrice: '$1,200',
+		});
+
+		expect(error).toBeUndefined();
+		expect(vendor).toEqual({
+			category: 'venue',
+			name: 'Town Hall',
+			url: 'https://hall.example.com',
+			description: 'Seats 200',
+			source: 'web',
+			quotedPrice: 1200,
+			bookingStatus: 'considering',
+			notes: undefined,
+		});
+	});
+
+	it('falls back to the host name when there is no title', () => {
+		const { vendor } = validateNewVendor({ result: { url: 'https://hall.example.com/about' }, category: 'venue' });
+
+		expect(vendor?.name).toBe('hall.example.com');
+	});
+
+	it('rejects URLs that are not http or https', () => {
+		expect(validateNewVendor({ result: { url: 'javascript:alert(1)' }, category: 'venue' }).error).toMatch(/result\.url/);
+		expect(validateNewVendor({ category: 'venue' }).error).toMatch(/result\.url/);
+	});
+
+	it('rejects unknown categories and negative quotes', () => {
+		const result = { url: 'https://hall.example.com' };
+
+		expect(validateNewVendor({ result, category: 'florist' }).error).toMatch(/category/);
+		expect(validateNewVendor({ result, category: 'venue', quotedPrice: -50 }).error).toMatch(/quotedPrice/);
+	});
+});
+
+describe('validateVendorChanges', () => {
+	it('keeps only the fields that are set', () => {
+		expect(validateVendorChanges({ bookingStatus: 'booked', notes: '  Deposit paid  ' })).toEqual({
+			changes: { bookingStatus: 'booked', notes: 'Deposit paid' },
+		});
+	});
+
+	it('clears the quote and notes when given null', () => {
+		expect(validateVendorChanges({ quotedPrice: null, notes: null })).toEqual({
+			changes: { quotedPrice: undefined, notes: undefined },
+		});
+	});
+
+	it('caps long notes', () => {
+		const { changes } = validateVendorChanges({ notes: 'x'.repeat(600) });
+
+		expect(changes?.notes).toHaveLength(500);
+	});
+
+	it('rejects empty updates and invalid values', () => {
+		expect(validateVendorChanges({}).error).toMatch(/Nothing to update/);
+		expect(validateVendorChanges({ name: '  ' }).error).toMatch(/name/);
+		expect(validateVendorChanges({ bookingStatus: 'maybe' }).error).toMatch(/bookingStatus/);
+		expect(validateVendorChanges({ notes: 42 }).error).toMatch(/notes/);
+		expect(validateVendorChanges({ quotedPrice: '-100' }).error).toMatch(/quotedPrice/);
+	});
+});
+
+describe('applyVendorChanges', () => {
+	it('updates the vendor and removes cleared fields', () => {
+		const vendor = makeVendor({ quotedPrice: 400, notes: 'Call back' });
+
+		const updated = applyVendorChanges(vendor, { bookingStatus: 'booked', quotedPrice: undefined, notes: undefined });
+
+		expect(updated.bookingStatus).toBe('booked');
+		expect(updated).not.toHaveProperty('quotedPrice');
+		expect(updated).not.toHaveProperty('notes');
+		expect(vendor.quotedPrice).toBe(400);
+	});
+});
+
+describe('describeVendor', () => {
+	it('links the vendor and shows its quote and status', () => {
+		const vendor = makeVendor({ quotedPrice: 400, bookingStatus: 'booked', notes: 'Vegan menu' });
+
+		expect(describeVendor(vendor, 'USD')).toBe(
+			'Catering – <https://leedskitchen.example.com|Leeds Kitchen>: $400 quoted · booked _Vegan menu_',
+		);
+	});
+
+	it('strips characters that would break the Slack link', () => {
+		const vendor = makeVendor({ name: 'Pies <&> Mash | Co' });
+
+		expect(describeVendor(vendor, 'USD')).toContain('|Pies & Mash  Co>');
+	});
+});